@@ -0,0 +1,24 @@
+import js from '@eslint/js';
+import tseslint from 'typescript-eslint';
+
+export default tseslint.config(
+  { ignores: ['dist/', 'coverage/', 'node_modules/'] },
+  js.configs.recommended,
+  ...tseslint.configs.recommended,
+  {
+    rules: {
+      // Express tells error handlers apart by their four parameters, and catch blocks often only need to swallow
+      '@typescript-eslint/no-unused-vars': ['error', {
+        argsIgnorePattern: '^next$',
+        caughtErrors: 'none',
+        ignoreRestSiblings: true,
+      }],
+      // For augmenting Express's Request
+      '@typescript-eslint/no-namespace': ['error', { allowDeclarations: true }],
+    },
+  },
+  {
+    files: ['**/*.js'],
+    languageOptions: { sourceType: 'commonjs', globals: { module: 'writable', require: 'readonly' } },
+  },
+);
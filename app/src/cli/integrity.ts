@@ -0,0 +1,41 @@
+import { blobStore } from '../services/blobs';
+import { checkIntegrity } from '../services/integrity';
+import { storageService } from '../services/storage';
+
+// Report drift between the index, publication.json sidecars and stored files:
+//   npm run check-integrity [-- --repair]
+async function main() {
+  const args = process.argv.slice(2);
+  const unknown = args.find(arg => arg !== '--repair');
+  if (unknown) {
+    throw new Error(`Unknown argument: ${unknown}`);
+  }
+
+  const repair = args.includes('--repair');
+
+  await storageService.initialize();
+  // Not initialize(), which clears uploads a running server may have in progress
+  await blobStore.load();
+
+  const { publications, blobs, issues } = await checkIntegrity({ repair });
+
+  for (const issue of issues) {
+    const status = issue.repairable ? (repair ? 'repaired' : 'repairable') : 'manual';
+    console.log(`[${status}] ${issue.type}  ${issue.subject}  ${issue.message}`);
+  }
+
+  const unresolved = issues.filter(issue => !(issue.repairable && repair)).length;
+  console.log(`\n${publications} publication(s), ${blobs} blob(s), ${issues.length} issue(s), ${unresolved} unresolved`);
+
+  if (unresolved > 0) {
+    if (!repair && issues.some(issue => issue.repairable)) {
+      console.log('Run with --repair, with the server stopped, to fix the repairable ones');
+    }
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Failed to check integrity:', error);
+  process.exit(1);
+});
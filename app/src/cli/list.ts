@@ -0,0 +1,27 @@
+import { storageService } from '../services/storage';
+import { listPublications } from '../services/publications';
+
+// Print every publication: npm run list-publications
+async function main() {
+  await storageService.initialize();
+
+  const { publications, total } = await listPublications({
+    page: 1,
+    limit: Number.MAX_SAFE_INTEGER,
+    sort: 'updatedAt',
+    order: 'desc',
+  });
+
+  for (const publication of publications) {
+    const flags = publication.protected ? ' [protected]' : '';
+    console.log(`${publication.hash}  ${publication.updatedAt}  ${publication.obsidianPath || publication.filename}${flags}`);
+    console.log(`    ${publication.title} — ${publication.url}`);
+  }
+
+  console.log(`\n${total} publication(s)`);
+}
+
+main().catch(error => {
+  console.error('Failed to list publications:', error);
+  process.exit(1);
+});
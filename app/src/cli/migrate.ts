@@ -0,0 +1,56 @@
+import path from 'path';
+import { config } from '../config';
+import { FsDriver } from '../services/drivers/fs';
+import { storageDriver } from '../services/drivers';
+import { migrateStorage } from '../services/migration';
+
+function parseArgs(argv: string[]): { from: string; dryRun: boolean; overwrite: boolean } {
+  const args = { from: config.dataDir, dryRun: false, overwrite: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--from':
+        args.from = argv[++i];
+        break;
+      case '--dry-run':
+        args.dryRun = true;
+        break;
+      case '--overwrite':
+        args.overwrite = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (!args.from) {
+    throw new Error('--from requires a directory');
+  }
+
+  return args;
+}
+
+// Copy a data directory into the configured backend:
+//   STORAGE_DRIVER=s3 S3_BUCKET=... npm run migrate-storage -- --from ./data [--dry-run] [--overwrite]
+async function main() {
+  const { from, dryRun, overwrite } = parseArgs(process.argv.slice(2));
+
+  if (storageDriver.name === 'fs' && path.resolve(from) === path.resolve(config.dataDir)) {
+    throw new Error('Source and target are the same directory. Set STORAGE_DRIVER or DATA_DIR to the target.');
+  }
+
+  console.log(`Migrating from ${path.resolve(from)} to the ${storageDriver.name} driver${dryRun ? ' (dry run)' : ''}`);
+
+  const { total, copied, skipped } = await migrateStorage(new FsDriver(from), storageDriver, {
+    dryRun,
+    overwrite,
+    onCopy: key => console.log(`  ${dryRun ? 'would copy' : 'copied'} ${key}`),
+  });
+
+  console.log(`\n${total} object(s): ${copied} copied, ${skipped} already present`);
+}
+
+main().catch(error => {
+  console.error('Failed to migrate storage:', error);
+  process.exit(1);
+});
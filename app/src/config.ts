@@ -1,10 +1,11 @@
 import dotenv from 'dotenv';
 import path from 'path';
 
-dotenv.config({ path: path.resolve(process.cwd(), '.env') }) ||
-dotenv.config({ path: path.resolve(process.cwd(), '..', '.env') });
+// .env next to the app, or else one level up
+if (dotenv.config({ path: path.resolve(process.cwd(), '.env') }).error) {
+  dotenv.config({ path: path.resolve(process.cwd(), '..', '.env') });
+}
 
-console.log(process.env.SECRET_KEY)
 export const config = {
   nodeEnv: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '3000', 10),
@@ -23,6 +24,24 @@ export const config = {
   bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '12', 10),
   
   dataDir: process.env.DATA_DIR || './data',
+
+  // Storage backend: 'fs' keeps everything under dataDir, 's3' keeps it in a bucket (dataDir then only holds temp files and caches)
+  storageDriver: process.env.STORAGE_DRIVER || 'fs',
+  // How often other instances' writes are picked up from shared storage, 0 disables
+  storageRefreshInterval: parseInt(process.env.STORAGE_REFRESH_INTERVAL || '0', 10), // ms
+  s3: {
+    bucket: process.env.S3_BUCKET || '',
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+    prefix: process.env.S3_PREFIX || '',
+  },
+  // Publication index: 'json' rewrites metadata.json on every change, 'sqlite' keeps one row per publication
+  metadataStore: process.env.METADATA_STORE || 'json',
+  // SQLite needs a local file even when STORAGE_DRIVER is s3
+  metadataDbPath: process.env.METADATA_DB_PATH || path.join(process.env.DATA_DIR || './data', 'metadata.db'),
   sessionSecret: process.env.SESSION_SECRET || 'session-secret-change-me',
   
   // Image settings
@@ -30,4 +49,36 @@ export const config = {
   maxImagesPerPublication: parseInt(process.env.MAX_IMAGES_PER_PUBLICATION || '50', 10),
   allowedImageTypes: ['image/png', 'image/jpeg', 'image/jpg', 'image/gif', 'image/webp', 'image/svg+xml', 'image/bmp'],
   imageCacheMaxAge: parseInt(process.env.IMAGE_CACHE_MAX_AGE || '86400', 10), // 24 hours in seconds
+  imageOptimization: process.env.IMAGE_OPTIMIZATION !== 'false',
+  imageVariantWidths: (process.env.IMAGE_VARIANT_WIDTHS || '480,960,1600')
+    .split(',')
+    .map(width => parseInt(width, 10))
+    .filter(width => width > 0),
+
+  // Attachment settings (PDF, audio, video and other files, images included)
+  maxAttachmentSize: parseInt(process.env.MAX_ATTACHMENT_SIZE || '52428800', 10), // 50MB
+  allowedAttachmentTypes: process.env.ALLOWED_ATTACHMENT_TYPES
+    ? process.env.ALLOWED_ATTACHMENT_TYPES.split(',').map(type => type.trim()).filter(Boolean)
+    : [
+        'image/png', 'image/jpeg', 'image/jpg', 'image/gif', 'image/webp', 'image/svg+xml', 'image/bmp',
+        'application/pdf',
+        'audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/ogg', 'audio/flac',
+        'video/mp4', 'video/webm', 'video/ogg', 'video/quicktime',
+        'application/json', 'text/plain', 'text/csv', 'application/zip',
+      ],
+
+  // Revision history
+  revisionRetention: parseInt(process.env.REVISION_RETENTION || '10', 10), // previous versions kept per publication, 0 disables
+
+  // How often expired and used up publications are deleted, 0 disables
+  expirySweepInterval: parseInt(process.env.EXPIRY_SWEEP_INTERVAL || '60000', 10), // ms
+
+  // Diagram fences. Mermaid needs mermaid-cli with a headless Chromium; an empty command leaves it as source
+  mermaidCommand: process.env.MERMAID_COMMAND ?? 'mmdc',
+  mermaidPuppeteerConfig: process.env.MERMAID_PUPPETEER_CONFIG || '', // JSON file passed to mmdc -p, for --no-sandbox in containers
+  diagramTimeout: parseInt(process.env.DIAGRAM_TIMEOUT || '30000', 10), // ms
+
+  // Rendered pages kept in memory, and optionally under dataDir so they survive restarts
+  renderCacheSize: parseInt(process.env.RENDER_CACHE_SIZE || '200', 10), // pages, 0 disables
+  renderCacheDisk: process.env.RENDER_CACHE_DISK === 'true',
 };
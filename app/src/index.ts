@@ -6,11 +6,28 @@ import session from 'express-session';
 import { config } from './config';
 import { logger } from './services/logger';
 import { storageService } from './services/storage';
+import { tokenService } from './services/tokens';
+import { blobStore } from './services/blobs';
+import { imageService } from './services/images';
+import { searchService } from './services/search';
+import { linkGraph } from './services/links';
+import { viewCounter } from './services/views';
+import { tombstoneService } from './services/tombstones';
+import { expirySweeper } from './services/expiry';
+import { shareLinkService } from './services/shares';
+import { collectionService } from './services/collections';
+import { renderCache } from './services/renderCache';
 import { authMiddleware } from './middleware/auth';
 import { apiLimiter, publicLimiter } from './middleware/rateLimit';
 import healthRoutes from './routes/health';
 import publishRoutes from './routes/publish';
+import publicationRoutes from './routes/publications';
+import blobRoutes from './routes/blobs';
+import tokenRoutes from './routes/tokens';
 import viewRoutes from './routes/view';
+import adminRoutes from './routes/admin';
+import collectionRoutes from './routes/collections';
+import collectionPageRoutes from './routes/collectionPages';
 
 const app = express();
 
@@ -72,8 +89,16 @@ app.use((req, res, next) => {
 
 // Routes
 app.use('/api', healthRoutes);
+app.use('/api/tokens', apiLimiter, authMiddleware, tokenRoutes);
+app.use('/api/publications', apiLimiter, authMiddleware, publicationRoutes);
+app.use('/api/blobs', apiLimiter, authMiddleware, blobRoutes);
+app.use('/api/collections', apiLimiter, authMiddleware, collectionRoutes);
 app.use('/api', apiLimiter, authMiddleware, publishRoutes);
 app.use('/p', publicLimiter, viewRoutes);
+// Same pages, for human-readable links: /n/<slug>
+app.use('/n', publicLimiter, viewRoutes);
+app.use('/c', publicLimiter, collectionPageRoutes);
+app.use('/admin', publicLimiter, adminRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -100,12 +125,42 @@ async function start() {
   try {
     // Initialize storage
     await storageService.initialize();
+    await storageService.backfillRecords();
+    await blobStore.initialize();
+    await imageService.initialize();
+    await tokenService.initialize();
+    await searchService.initialize();
+    await linkGraph.initialize();
+    await viewCounter.initialize();
+    await tombstoneService.initialize();
+    await shareLinkService.initialize();
+    await collectionService.initialize();
+    await renderCache.initialize();
     
+    // Instances sharing S3 storage see each other's writes after at most this interval
+    if (config.storageRefreshInterval > 0) {
+      setInterval(() => {
+        Promise.all([
+          storageService.refresh(),
+          tokenService.refresh(),
+          blobStore.refresh(),
+          viewCounter.refresh(),
+          tombstoneService.refresh(),
+          shareLinkService.refresh(),
+          collectionService.refresh(),
+        ]).catch(error => logger.error('Failed to refresh from storage', { error }));
+      }, config.storageRefreshInterval).unref();
+    }
+
+    expirySweeper.start(config.expirySweepInterval);
+    blobStore.startPruning();
+
     app.listen(config.port, () => {
       logger.info(`Server started`, {
         port: config.port,
         env: config.nodeEnv,
         baseUrl: config.baseUrl,
+        storage: config.storageDriver,
       });
     });
   } catch (error) {
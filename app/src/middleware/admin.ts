@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { tokenService } from '../services/tokens';
+import { logger } from '../services/logger';
+
+export interface AdminSession {
+  name: string;
+  // Null when logged in with SECRET_KEY
+  tokenId: string | null;
+  csrfToken: string;
+  // Shown once on the next page
+  notice?: string;
+}
+
+type SessionWithAdmin = { admin?: AdminSession };
+
+export function getAdminSession(req: Request): AdminSession | null {
+  const session = req.session as SessionWithAdmin;
+  const admin = session.admin;
+  if (!admin) return null;
+
+  // Revoking or expiring a token ends the sessions opened with it
+  if (admin.tokenId && !tokenService.isActive(admin.tokenId)) {
+    delete session.admin;
+    return null;
+  }
+
+  return admin;
+}
+
+export function setAdminSession(req: Request, admin: Omit<AdminSession, 'csrfToken'>): AdminSession {
+  const session = req.session as SessionWithAdmin;
+  session.admin = { ...admin, csrfToken: crypto.randomBytes(24).toString('base64url') };
+  return session.admin;
+}
+
+function isValidCsrfToken(presented: unknown, expected: string): boolean {
+  if (typeof presented !== 'string' || presented.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(presented), Buffer.from(expected));
+}
+
+// Admin pages need a logged in session; form posts also need the session's CSRF token
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const admin = getAdminSession(req);
+
+  if (!admin) {
+    if (req.method === 'GET') {
+      res.redirect('/admin/login');
+      return;
+    }
+    res.status(401).send('Login required');
+    return;
+  }
+
+  if (req.method !== 'GET' && !isValidCsrfToken(req.body?._csrf, admin.csrfToken)) {
+    logger.warn('Admin request with invalid CSRF token', { ip: req.ip, path: req.path });
+    res.status(403).send('Invalid or missing CSRF token');
+    return;
+  }
+
+  next();
+}
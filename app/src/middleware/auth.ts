@@ -1,7 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
-import { config } from '../config';
+import { AuthContext, TokenScope } from '../models/token';
+import { tokenService } from '../services/tokens';
 import { logger } from '../services/logger';
 
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
 export function authMiddleware(req: Request, res: Response, next: NextFunction): void {
   const authHeader = req.headers.authorization;
 
@@ -19,11 +28,27 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
     return;
   }
 
-  if (token !== config.secretKey) {
-    logger.warn('Invalid secret key', { ip: req.ip, path: req.path });
-    res.status(403).json({ error: 'Invalid secret key' });
+  const auth = tokenService.authenticate(token);
+
+  if (!auth) {
+    logger.warn('Invalid API token', { ip: req.ip, path: req.path });
+    res.status(403).json({ error: 'Invalid or expired token' });
     return;
   }
 
+  req.auth = auth;
   next();
 }
+
+// Passes when the token has any of the given scopes
+export function requireScope(...scopes: TokenScope[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.auth || !scopes.some(scope => req.auth!.scopes.includes(scope))) {
+      logger.warn('API token lacks scope', { tokenId: req.auth?.tokenId, scopes, path: req.path });
+      res.status(403).json({ error: `Token lacks required scope: ${scopes.join(' or ')}` });
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,294 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Request, Response, NextFunction } from 'express';
+import busboy from 'busboy';
+import { config } from '../config';
+import { blobStore } from '../services/blobs';
+import { getMaxAttachmentSize, isAllowedAttachmentType } from '../services/attachments';
+import { logger } from '../services/logger';
+import { ImageData, PublishRequest } from '../models/publication';
+
+// Text fields besides content stay small, metadata included
+const MAX_FIELD_SIZE = 64 * 1024;
+const MAX_FIELDS = 20;
+
+interface UploadedFile {
+  filename: string;
+  mimeType: string;
+  tempPath: string;
+  output: fs.WriteStream;
+  digest: string;
+  size: number;
+}
+
+class UploadError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+function parseMetadata(value: string): PublishRequest['metadata'] {
+  try {
+    const metadata = JSON.parse(value);
+    if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+      return metadata;
+    }
+  } catch (error) {
+    // Reported below
+  }
+  throw new UploadError(400, 'Metadata must be a JSON object');
+}
+
+/**
+ * Parses multipart/form-data publish and update requests into the same body shape as the JSON API.
+ *
+ * Fields: filename, password, metadata (JSON), expiresAt, maxViews, slug, toc and content. The markdown may
+ * instead be sent as a file part named "content". Every other file part is an attachment: it's hashed
+ * while being written to a temp file, moved into the blob store, and handed on as a digest reference.
+ */
+export function multipartUpload(req: Request, res: Response, next: NextFunction): void {
+  if (!req.is('multipart/form-data')) {
+    next();
+    return;
+  }
+
+  let parser: busboy.Busboy;
+  try {
+    parser = busboy({
+      headers: req.headers,
+      limits: {
+        // busboy has one limit for every field; the others are held to MAX_FIELD_SIZE as they arrive
+        fieldSize: Math.max(config.maxContentSize, MAX_FIELD_SIZE),
+        fields: MAX_FIELDS,
+        // The markdown part counts as a file too
+        files: config.maxImagesPerPublication + 1,
+        fileSize: Math.max(config.maxContentSize, config.maxImageSize, config.maxAttachmentSize),
+      },
+    });
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid multipart request' });
+    return;
+  }
+
+  const body: Partial<PublishRequest> = {};
+  const files: UploadedFile[] = [];
+  const writes: Promise<void>[] = [];
+  let failed = false;
+
+  // Wait for the temp files to be closed, otherwise a pending open could recreate one after removal
+  const cleanup = async () => {
+    for (const file of files) {
+      if (!file.output.writableEnded) file.output.end();
+    }
+    await Promise.allSettled(writes);
+    await Promise.all(files.map(file => fs.promises.rm(file.tempPath, { force: true })));
+  };
+
+  const fail = (error: unknown) => {
+    if (failed) return;
+    failed = true;
+
+    // Stop reading the rest of the upload
+    req.unpipe(parser);
+    req.resume();
+    cleanup().catch(() => undefined);
+
+    if (error instanceof UploadError) {
+      logger.warn('Multipart upload rejected', { path: req.path, error: error.message });
+      res.setHeader('Connection', 'close');
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+
+    logger.error('Error reading multipart upload', { error, path: req.path });
+    res.setHeader('Connection', 'close');
+    res.status(500).json({ error: 'Internal server error' });
+  };
+
+  parser.on('field', (name, value, info) => {
+    if (failed) return;
+
+    if (name !== 'content' && (info.valueTruncated || Buffer.byteLength(value, 'utf-8') > MAX_FIELD_SIZE)) {
+      fail(new UploadError(413, `Field too large: ${name}`));
+      return;
+    }
+    if (info.valueTruncated) {
+      fail(new UploadError(413, `Content size exceeds limit of ${config.maxContentSize} bytes`));
+      return;
+    }
+
+    try {
+      switch (name) {
+        case 'content':
+          if (Buffer.byteLength(value, 'utf-8') > config.maxContentSize) {
+            throw new UploadError(413, `Content size exceeds limit of ${config.maxContentSize} bytes`);
+          }
+          body.content = value;
+          break;
+        case 'filename':
+          body.filename = value;
+          break;
+        case 'password':
+          body.password = value;
+          break;
+        case 'metadata':
+          body.metadata = parseMetadata(value);
+          break;
+        // Empty removes the limit, like null in JSON
+        case 'expiresAt':
+          body.expiresAt = value || null;
+          break;
+        case 'maxViews':
+          body.maxViews = value ? Number(value) : null;
+          break;
+        case 'slug':
+          body.slug = value || null;
+          break;
+        case 'toc':
+          body.toc = (value || null) as PublishRequest['toc'];
+          break;
+        default:
+          // Unknown fields are ignored, like unknown JSON properties
+          break;
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+  parser.on('file', (name, stream, info) => {
+    if (failed) {
+      stream.resume();
+      return;
+    }
+
+    if (name === 'content') {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > config.maxContentSize) {
+          stream.resume();
+          fail(new UploadError(413, `Content size exceeds limit of ${config.maxContentSize} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      stream.on('limit', () => {
+        fail(new UploadError(413, `Content size exceeds limit of ${config.maxContentSize} bytes`));
+      });
+      stream.on('end', () => {
+        if (failed) return;
+        body.content = Buffer.concat(chunks).toString('utf-8');
+        if (!body.filename && info.filename) body.filename = info.filename;
+      });
+      return;
+    }
+
+    if (!info.filename) {
+      stream.resume();
+      fail(new UploadError(400, 'Each attachment must have a filename'));
+      return;
+    }
+
+    if (!isAllowedAttachmentType(info.mimeType)) {
+      stream.resume();
+      fail(new UploadError(400, `Invalid attachment type: ${info.mimeType}`));
+      return;
+    }
+
+    if (files.length >= config.maxImagesPerPublication) {
+      stream.resume();
+      fail(new UploadError(400, `Too many attachments. Maximum allowed: ${config.maxImagesPerPublication}`));
+      return;
+    }
+
+    const maxSize = getMaxAttachmentSize(info.mimeType);
+
+    const tempPath = blobStore.getTempPath();
+    const file: UploadedFile = {
+      filename: info.filename,
+      mimeType: info.mimeType,
+      tempPath,
+      output: fs.createWriteStream(tempPath),
+      digest: '',
+      size: 0,
+    };
+    files.push(file);
+
+    const hash = crypto.createHash('sha256');
+    const { output } = file;
+
+    writes.push(new Promise<void>((resolve, reject) => {
+      output.on('error', reject);
+      output.on('finish', resolve);
+    }));
+
+    const tooLarge = () => {
+      fail(new UploadError(413, `Attachment too large: ${info.filename}. Maximum size: ${maxSize} bytes`));
+    };
+
+    stream.on('data', (chunk: Buffer) => {
+      if (failed) return;
+
+      file.size += chunk.length;
+      if (file.size > maxSize) {
+        tooLarge();
+        return;
+      }
+
+      hash.update(chunk);
+      if (!output.write(chunk)) {
+        stream.pause();
+        output.once('drain', () => stream.resume());
+      }
+    });
+    // Busboy stops at its own limit, which may equal maxSize
+    stream.on('limit', tooLarge);
+    stream.on('end', () => {
+      if (failed) return;
+      file.digest = hash.digest('hex');
+      output.end();
+    });
+  });
+
+  parser.on('filesLimit', () => {
+    fail(new UploadError(400, `Too many attachments. Maximum allowed: ${config.maxImagesPerPublication}`));
+  });
+
+  parser.on('fieldsLimit', () => {
+    fail(new UploadError(400, `Too many fields. Maximum allowed: ${MAX_FIELDS}`));
+  });
+
+  parser.on('error', (error: Error) => {
+    fail(new UploadError(400, `Invalid multipart request: ${error.message}`));
+  });
+
+  parser.on('close', async () => {
+    if (failed) return;
+
+    try {
+      await Promise.all(writes);
+
+      // Ingested blobs stay unreferenced until the publication is saved, and get pruned otherwise
+      const images: ImageData[] = [];
+      for (const file of files) {
+        await blobStore.putFile(file.tempPath, file.digest, file.size);
+        images.push({ filename: file.filename, mimeType: file.mimeType, digest: file.digest });
+      }
+
+      if (images.length > 0) {
+        body.images = images;
+      }
+
+      req.body = body;
+      next();
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+  req.pipe(parser);
+}
@@ -46,4 +46,4 @@ setInterval(() => {
       passwordAttempts.delete(key);
     }
   }
-}, 60000);
+}, 60000).unref();
@@ -0,0 +1,45 @@
+import { Request } from 'express';
+import { Publication } from '../models/publication';
+import { collectionService } from '../services/collections';
+import { getExpiryReason } from '../services/expiry';
+import { shareLinkService } from '../services/shares';
+import { viewCounter } from '../services/views';
+import { getAdminSession } from './admin';
+
+interface ReaderSession {
+  // Unlocked with the password
+  unlockedHashes?: string[];
+  // Publication hash -> share link that unlocked it, only as long as the link stays active
+  shareLinks?: Record<string, string>;
+}
+
+// Logged in admins can open every protected publication
+export function isUnlocked(req: Request, hash: string): boolean {
+  const session = req.session as ReaderSession;
+  const linkId = session.shareLinks?.[hash];
+  return (session.unlockedHashes || []).includes(hash)
+      || (!!linkId && shareLinkService.isLinkActive(hash, linkId))
+      || !!getAdminSession(req);
+}
+
+// Whether this reader could open the publication: unlocked if protected, and not expired
+export function isVisibleTo(req: Request, hash: string, publication: Publication): boolean {
+  return (!publication.passwordHash || isUnlocked(req, hash))
+      && !collectionService.isHidden(publication)
+      && !getExpiryReason(publication, viewCounter.get(hash));
+}
+
+export function unlock(req: Request, hash: string): void {
+  const session = req.session as ReaderSession;
+  if (!session.unlockedHashes) {
+    session.unlockedHashes = [];
+  }
+  if (!session.unlockedHashes.includes(hash)) {
+    session.unlockedHashes.push(hash);
+  }
+}
+
+export function unlockWithShareLink(req: Request, hash: string, linkId: string): void {
+  const session = req.session as ReaderSession;
+  session.shareLinks = { ...session.shareLinks, [hash]: linkId };
+}
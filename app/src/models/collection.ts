@@ -0,0 +1,58 @@
+import { PublicationSummary } from './publication';
+
+export interface Collection {
+  id: string;
+  title: string;
+  // Vault folder the collection covers, without leading or trailing slashes
+  pathPrefix: string;
+  // Note and folder paths relative to the prefix, listed first in this order
+  order: string[];
+  // Members of an unpublished collection are hidden from readers
+  published: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CollectionStore {
+  collections: Record<string, Collection>;
+}
+
+export interface CreateCollectionRequest {
+  title: string;
+  pathPrefix: string;
+  order?: string[];
+  published?: boolean;
+}
+
+export interface UpdateCollectionRequest {
+  title?: string;
+  order?: string[];
+}
+
+export interface CollectionInfo extends Collection {
+  url: string;
+  // Member publications in navigation order
+  members: PublicationSummary[];
+}
+
+export interface CollectionNavItem {
+  hash: string;
+  title: string;
+  url: string;
+}
+
+// A folder or a note; a note with the same name as a folder is that folder's page
+export interface CollectionTreeNode {
+  name: string;
+  item: CollectionNavItem | null;
+  children: CollectionTreeNode[];
+}
+
+export interface CollectionNavigation {
+  title: string;
+  url: string;
+  tree: CollectionTreeNode[];
+  currentHash: string | null;
+  previous: CollectionNavItem | null;
+  next: CollectionNavItem | null;
+}
@@ -4,23 +4,53 @@ export interface PublicationMetadata {
   obsidianPath: string;
 }
 
+// Any attachment, not only images; the name predates attachment support
 export interface ImageData {
   filename: string;
-  data: string;
+  // Base64 content; may be omitted when digest names a blob the server already has
+  data?: string;
+  // SHA-256 of the image bytes, hex encoded
+  digest?: string;
   mimeType: string;
 }
 
+// Table of contents: hidden, shown above the content, or kept in view beside it on wide screens
+export type TocMode = 'off' | 'on' | 'sticky';
+
+export const TOC_MODES: TocMode[] = ['off', 'on', 'sticky'];
+
 export interface Publication {
   filename: string;
   title: string;
+  description?: string;
+  tags?: string[];
+  aliases?: string[];
   obsidianPath: string;
   passwordHash: string | null;
+  // The password came from publish_password, so removing the key from the note removes it
+  passwordFromFrontmatter?: boolean;
   createdAt: string;
   updatedAt: string;
+  // Attachment filenames, images and other files alike
   images?: string[];
+  // Attachment filename -> blob digest
+  blobs?: Record<string, string>;
+  // Incremented on every save, missing on publications saved before revisions existed
+  revision?: number;
+  // Stops being served after this time and is then deleted
+  expiresAt?: string;
+  // Stops being served after this many page views and is then deleted
+  maxViews?: number;
+  // Human-readable address, /p/<slug> and /n/<slug>
+  slug?: string;
+  // Earlier slugs, redirected to the current address
+  previousSlugs?: string[];
+  // Unset shows a table of contents once a page has a few headings
+  toc?: TocMode;
 }
 
-export interface MetadataStore {
+// Layout of metadata.json
+export interface MetadataFile {
   publications: Record<string, Publication>;
   filenameIndex: Record<string, string>;
 }
@@ -31,20 +61,95 @@ export interface PublishRequest {
   password?: string;
   metadata: PublicationMetadata;
   images?: ImageData[];
+  // Same as images, for clients that upload other files too
+  attachments?: ImageData[];
+  // ISO 8601; on update, null removes the limit and omitting it keeps the current one
+  expiresAt?: string | null;
+  maxViews?: number | null;
+  // Overrides the frontmatter slug; on update, null removes it and omitting it keeps the current one
+  slug?: string | null;
+  // Overrides publish_toc in the frontmatter; null goes back to the automatic table of contents
+  toc?: TocMode | null;
 }
 
 export interface PublishResponse {
   success: boolean;
   hash: string;
   url: string;
+  slug?: string | null;
   exists: boolean;
   message?: string;
   imagesUploaded?: number;
+  etag?: string;
+  revision?: number;
 }
 
 export interface CheckResponse {
   exists: boolean;
   hash: string | null;
   url: string | null;
+  slug: string | null;
   lastUpdated: string | null;
+  etag: string | null;
+  revision: number | null;
+  expiresAt: string | null;
+  maxViews: number | null;
+  views: number | null;
+  // Still stored but no longer served, removed at the next sweep
+  expired: boolean;
+}
+
+export type PublicationSortField = 'createdAt' | 'updatedAt' | 'title';
+
+export interface PublicationListQuery {
+  page: number;
+  limit: number;
+  sort: PublicationSortField;
+  order: 'asc' | 'desc';
+  pathPrefix?: string;
+  protected?: boolean;
+  tag?: string;
+}
+
+export interface PublicationSummary {
+  hash: string;
+  url: string;
+  slug: string | null;
+  filename: string;
+  title: string;
+  obsidianPath: string;
+  tags: string[];
+  protected: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PublicationListResponse {
+  publications: PublicationSummary[];
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface RevisionInfo {
+  revision: number;
+  title: string;
+  updatedAt: string;
+  images: number;
+  current: boolean;
+}
+
+export interface Revision {
+  publication: Publication;
+  content: string;
+}
+
+export interface BlobCheckRequest {
+  digests: string[];
+}
+
+export interface BlobCheckResponse {
+  present: string[];
+  missing: string[];
 }
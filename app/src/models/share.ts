@@ -0,0 +1,26 @@
+export interface ShareLink {
+  id: string;
+  // Publication the link opens
+  hash: string;
+  label: string;
+  createdAt: string;
+  expiresAt: string | null;
+  // Revoked links are kept so their use stays on record
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  uses: number;
+}
+
+export interface ShareLinkStore {
+  links: Record<string, ShareLink>;
+}
+
+export interface CreateShareLinkRequest {
+  label: string;
+  expiresAt?: string;
+}
+
+export interface ShareLinkInfo extends ShareLink {
+  url: string;
+  active: boolean;
+}
@@ -0,0 +1,33 @@
+export type TokenScope = 'publish' | 'update' | 'delete' | 'read' | 'admin';
+
+export const TOKEN_SCOPES: TokenScope[] = ['publish', 'update', 'delete', 'read', 'admin'];
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  // SHA-256 of the token, the token itself is only shown once on creation
+  tokenHash: string;
+  prefix: string;
+  scopes: TokenScope[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export interface TokenStore {
+  tokens: Record<string, ApiToken>;
+}
+
+export interface AuthContext {
+  tokenId: string | null;
+  name: string;
+  scopes: TokenScope[];
+}
+
+export interface CreateTokenRequest {
+  name: string;
+  scopes: TokenScope[];
+  expiresAt?: string;
+}
+
+export type TokenInfo = Omit<ApiToken, 'tokenHash'>;
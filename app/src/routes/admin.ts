@@ -0,0 +1,308 @@
+import { Router, Request, Response } from 'express';
+import { storageService, getPublicationEtag, PreconditionFailedError } from '../services/storage';
+import { getPublicationUrl, listPublications } from '../services/publications';
+import { renderPublication } from '../services/render';
+import { getPageTemplate } from '../services/markdown';
+import { hashPassword } from '../services/password';
+import { tokenService } from '../services/tokens';
+import { viewCounter } from '../services/views';
+import {
+  AdminConfirmPage,
+  AdminPageContext,
+  getAdminConfirmTemplate,
+  getAdminListTemplate,
+  getAdminLoginTemplate,
+  getAdminPublicationTemplate,
+} from '../services/admin';
+import { AdminSession, getAdminSession, requireAdmin, setAdminSession } from '../middleware/admin';
+import { passwordLimiter } from '../middleware/rateLimit';
+import { logger } from '../services/logger';
+import { TocMode, TOC_MODES } from '../models/publication';
+
+const router = Router();
+
+const PAGE_SIZE = 50;
+const MAX_TITLE_LENGTH = 500;
+
+function sendPage(res: Response, html: string, status = 200): void {
+  res.status(status);
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.send(html);
+}
+
+// Takes the notice left by the previous request, so it shows once
+function getPageContext(admin: AdminSession, error?: string): AdminPageContext {
+  const notice = admin.notice;
+  delete admin.notice;
+  return { csrfToken: admin.csrfToken, notice, error };
+}
+
+function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate(error => (error ? reject(error) : resolve()));
+  });
+}
+
+router.get('/login', (req: Request, res: Response) => {
+  if (getAdminSession(req)) {
+    res.redirect('/admin');
+    return;
+  }
+  sendPage(res, getAdminLoginTemplate());
+});
+
+router.post('/login', async (req: Request, res: Response) => {
+  try {
+    if (!passwordLimiter(`admin:${req.ip}`)) {
+      sendPage(res, getAdminLoginTemplate('Too many attempts. Please try again later.'), 429);
+      return;
+    }
+
+    const token = typeof req.body.token === 'string' ? req.body.token.trim() : '';
+    const auth = token ? tokenService.authenticate(token) : null;
+
+    if (!auth || !auth.scopes.includes('admin')) {
+      logger.warn('Failed admin login', { ip: req.ip, tokenId: auth?.tokenId });
+      sendPage(res, getAdminLoginTemplate(auth ? 'This token lacks the admin scope' : 'Invalid key or token'), 401);
+      return;
+    }
+
+    // New session id on login, so one planted before can't be reused
+    await regenerateSession(req);
+    setAdminSession(req, { name: auth.name, tokenId: auth.tokenId });
+
+    logger.info('Admin logged in', { name: auth.name, tokenId: auth.tokenId, ip: req.ip });
+    res.redirect('/admin');
+  } catch (error) {
+    logger.error('Error logging in to admin', { error });
+    res.status(500).send('Internal server error');
+  }
+});
+
+router.use(requireAdmin);
+
+router.post('/logout', (req: Request, res: Response) => {
+  req.session.destroy(error => {
+    if (error) logger.error('Error ending admin session', { error });
+    res.redirect('/admin/login');
+  });
+});
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const admin = getAdminSession(req)!;
+    const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+    const path = typeof req.query.path === 'string' ? req.query.path : '';
+
+    const result = await listPublications({
+      page,
+      limit: PAGE_SIZE,
+      sort: 'updatedAt',
+      order: 'desc',
+      pathPrefix: path || undefined,
+    });
+
+    sendPage(res, getAdminListTemplate({
+      items: result.publications.map(summary => ({ summary, views: viewCounter.get(summary.hash) })),
+      page: result.page,
+      totalPages: result.totalPages,
+      total: result.total,
+      path,
+    }, getPageContext(admin)));
+  } catch (error) {
+    logger.error('Error listing publications for admin', { error });
+    res.status(500).send('Internal server error');
+  }
+});
+
+async function sendPublicationPage(req: Request, res: Response, hash: string, error?: string, status = 200): Promise<void> {
+  const admin = getAdminSession(req)!;
+  const publication = await storageService.getPublicationByHash(hash);
+
+  if (!publication) {
+    res.status(404).send('Publication not found');
+    return;
+  }
+
+  const revisions = await storageService.listRevisions(hash);
+
+  sendPage(res, getAdminPublicationTemplate({
+    hash,
+    publication,
+    etag: getPublicationEtag(publication),
+    views: viewCounter.get(hash),
+    revisions: revisions ? revisions.length : 1,
+    url: getPublicationUrl(hash, publication),
+  }, getPageContext(admin, error)), status);
+}
+
+router.get('/p/:hash', async (req: Request, res: Response) => {
+  try {
+    await sendPublicationPage(req, res, req.params.hash);
+  } catch (error) {
+    logger.error('Error showing publication for admin', { error, hash: req.params.hash });
+    res.status(500).send('Internal server error');
+  }
+});
+
+// Rendered like /p/:hash, without the password prompt and without counting a view
+router.get('/p/:hash/preview', async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+    const publication = await storageService.getPublicationByHash(hash);
+    const content = publication ? await storageService.getContent(hash) : null;
+
+    if (!publication || content === null) {
+      res.status(404).send('Publication not found');
+      return;
+    }
+
+    const rendered = await renderPublication(hash, publication, content);
+    sendPage(res, getPageTemplate(
+        publication.title,
+        rendered.html,
+        publication.createdAt,
+        publication.updatedAt,
+        { description: publication.description, tags: publication.tags, toc: rendered.toc }
+    ));
+  } catch (error) {
+    logger.error('Error previewing publication for admin', { error, hash: req.params.hash });
+    res.status(500).send('Internal server error');
+  }
+});
+
+router.post('/p/:hash', async (req: Request, res: Response) => {
+  const { hash } = req.params;
+
+  try {
+    const admin = getAdminSession(req)!;
+    const title = typeof req.body.title === 'string' ? req.body.title.trim() : '';
+    const password = typeof req.body.password === 'string' ? req.body.password : '';
+
+    if (!title || title.length > MAX_TITLE_LENGTH) {
+      await sendPublicationPage(req, res, hash, `Title must be 1 to ${MAX_TITLE_LENGTH} characters`, 400);
+      return;
+    }
+
+    const changes: { title: string; passwordHash?: string | null; passwordFromFrontmatter?: boolean; toc?: TocMode } = { title };
+    if (password) {
+      changes.passwordHash = await hashPassword(password);
+    } else if (req.body.removePassword === 'true') {
+      changes.passwordHash = null;
+    }
+    // Set here, so it stays when the note's publish_password goes away
+    if ('passwordHash' in changes) {
+      changes.passwordFromFrontmatter = undefined;
+    }
+
+    // Empty is the automatic default
+    if (typeof req.body.toc === 'string') {
+      changes.toc = TOC_MODES.includes(req.body.toc as TocMode) ? req.body.toc as TocMode : undefined;
+    }
+
+    const etag = typeof req.body.etag === 'string' ? req.body.etag : undefined;
+    const publication = await storageService.updatePublicationFields(hash, changes, etag);
+
+    if (!publication) {
+      res.status(404).send('Publication not found');
+      return;
+    }
+
+    logger.info('Publication updated from admin', { hash, by: admin.name, passwordChanged: 'passwordHash' in changes });
+    admin.notice = 'Saved';
+    res.redirect(`/admin/p/${hash}`);
+  } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      await sendPublicationPage(req, res, hash, 'The publication changed since this page was loaded. Review and save again.', 409)
+          .catch(() => res.status(500).send('Internal server error'));
+      return;
+    }
+    logger.error('Error updating publication from admin', { error, hash });
+    res.status(500).send('Internal server error');
+  }
+});
+
+async function sendConfirmPage(
+    req: Request,
+    res: Response,
+    confirmation: Omit<AdminConfirmPage, 'hash' | 'publication'>
+): Promise<void> {
+  const { hash } = req.params;
+  const publication = await storageService.getPublicationByHash(hash);
+
+  if (!publication) {
+    res.status(404).send('Publication not found');
+    return;
+  }
+
+  sendPage(res, getAdminConfirmTemplate({ hash, publication, ...confirmation }, getPageContext(getAdminSession(req)!)));
+}
+
+router.get('/p/:hash/rotate', async (req: Request, res: Response) => {
+  try {
+    await sendConfirmPage(req, res, {
+      action: 'rotate',
+      question: 'Invalidate the current URL?',
+      description: 'The publication moves to a new random URL. Links to the current one and its share links stop working.',
+      button: 'Rotate hash',
+    });
+  } catch (error) {
+    logger.error('Error showing hash rotation for admin', { error, hash: req.params.hash });
+    res.status(500).send('Internal server error');
+  }
+});
+
+router.post('/p/:hash/rotate', async (req: Request, res: Response) => {
+  try {
+    const admin = getAdminSession(req)!;
+    const newHash = await storageService.rotateHash(req.params.hash);
+
+    if (!newHash) {
+      res.status(404).send('Publication not found');
+      return;
+    }
+
+    admin.notice = `Moved to a new URL, the old one no longer works`;
+    res.redirect(`/admin/p/${newHash}`);
+  } catch (error) {
+    logger.error('Error rotating publication hash', { error, hash: req.params.hash });
+    res.status(500).send('Internal server error');
+  }
+});
+
+router.get('/p/:hash/delete', async (req: Request, res: Response) => {
+  try {
+    await sendConfirmPage(req, res, {
+      action: 'delete',
+      question: 'Delete this publication?',
+      description: 'Removes the publication, its history and attachments that nothing else uses. This can\'t be undone.',
+      button: 'Delete publication',
+    });
+  } catch (error) {
+    logger.error('Error showing deletion for admin', { error, hash: req.params.hash });
+    res.status(500).send('Internal server error');
+  }
+});
+
+router.post('/p/:hash/delete', async (req: Request, res: Response) => {
+  try {
+    const admin = getAdminSession(req)!;
+    const publication = await storageService.getPublicationByHash(req.params.hash);
+    const deleted = await storageService.deletePublication(req.params.hash);
+
+    if (!deleted) {
+      res.status(404).send('Publication not found');
+      return;
+    }
+
+    logger.info('Publication deleted from admin', { hash: req.params.hash, by: admin.name });
+    admin.notice = `Deleted “${publication?.title || req.params.hash}”`;
+    res.redirect('/admin');
+  } catch (error) {
+    logger.error('Error deleting publication from admin', { error, hash: req.params.hash });
+    res.status(500).send('Internal server error');
+  }
+});
+
+export default router;
@@ -0,0 +1,42 @@
+import { Router, Request, Response } from 'express';
+import { blobStore, DIGEST_PATTERN } from '../services/blobs';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../services/logger';
+import { BlobCheckRequest, BlobCheckResponse } from '../models/publication';
+
+const router = Router();
+
+const MAX_CHECK_DIGESTS = 1000;
+
+// Lets clients skip uploading images the server already stores
+router.post('/check', requireScope('publish', 'update'), async (req: Request, res: Response) => {
+  try {
+    const body = req.body as BlobCheckRequest;
+
+    if (!Array.isArray(body.digests)) {
+      res.status(400).json({ error: 'Digests must be an array' });
+      return;
+    }
+
+    if (body.digests.length > MAX_CHECK_DIGESTS) {
+      res.status(400).json({ error: `Too many digests. Maximum allowed: ${MAX_CHECK_DIGESTS}` });
+      return;
+    }
+
+    const invalid = body.digests.find(digest => typeof digest !== 'string' || !DIGEST_PATTERN.test(digest));
+    if (invalid !== undefined) {
+      res.status(400).json({ error: `Invalid digest: ${invalid}` });
+      return;
+    }
+
+    const missing = blobStore.findMissing(body.digests);
+    const present = [...new Set(body.digests)].filter(digest => !missing.includes(digest));
+
+    res.json({ present, missing } as BlobCheckResponse);
+  } catch (error) {
+    logger.error('Error checking blobs', { error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
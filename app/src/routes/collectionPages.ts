@@ -0,0 +1,31 @@
+import { Router, Request, Response } from 'express';
+import { collectionService } from '../services/collections';
+import { storageService } from '../services/storage';
+import { getCollectionPageTemplate } from '../services/markdown';
+import { logger } from '../services/logger';
+import { isVisibleTo } from '../middleware/reader';
+
+const router = Router();
+
+// Collection index: the member notes this reader can open as a tree, in the collection's order
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const collection = await collectionService.getCollection(req.params.id);
+
+    if (!collection || collectionService.isCollectionHidden(collection)) {
+      res.status(404).send('Collection not found');
+      return;
+    }
+
+    const publications = await storageService.getAllPublications();
+    const navigation = collectionService.getNavigation(collection, publications, null, (hash, publication) => isVisibleTo(req, hash, publication));
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.send(getCollectionPageTemplate(navigation));
+  } catch (error) {
+    logger.error('Error viewing collection', { error, id: req.params.id });
+    res.status(500).send('Internal server error');
+  }
+});
+
+export default router;
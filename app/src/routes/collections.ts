@@ -0,0 +1,166 @@
+import { Router, Request, Response } from 'express';
+import { collectionService, normalizeCollectionPath } from '../services/collections';
+import { storageService } from '../services/storage';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../services/logger';
+import { CreateCollectionRequest, UpdateCollectionRequest } from '../models/collection';
+
+const router = Router();
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_ORDER_ENTRIES = 1000;
+
+// Sends the 400 itself and returns null when the title is invalid
+function getTitle(res: Response, value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim() || value.length > MAX_TITLE_LENGTH) {
+    res.status(400).json({ error: `Title is required, up to ${MAX_TITLE_LENGTH} characters` });
+    return null;
+  }
+  return value.trim();
+}
+
+// Sends the 400 itself and returns null when the order is invalid
+function getOrder(res: Response, value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length > MAX_ORDER_ENTRIES || value.some(entry => typeof entry !== 'string')) {
+    res.status(400).json({ error: `order must be an array of up to ${MAX_ORDER_ENTRIES} paths` });
+    return null;
+  }
+  return [...new Set((value as string[]).map(normalizeCollectionPath).filter(Boolean))];
+}
+
+router.get('/', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const publications = await storageService.getAllPublications();
+    const collections = await collectionService.listCollections();
+
+    res.json({ collections: collections.map(c => collectionService.toCollectionInfo(c, publications)) });
+  } catch (error) {
+    logger.error('Error listing collections', { error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/:id', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const collection = await collectionService.getCollection(req.params.id);
+
+    if (!collection) {
+      res.status(404).json({ error: 'Collection not found' });
+      return;
+    }
+
+    res.json(collectionService.toCollectionInfo(collection, await storageService.getAllPublications()));
+  } catch (error) {
+    logger.error('Error getting collection', { error, id: req.params.id });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// New collections start unpublished, so their notes can be uploaded before they all go live together
+router.post('/', requireScope('publish'), async (req: Request, res: Response) => {
+  try {
+    const body = req.body as CreateCollectionRequest;
+
+    const title = getTitle(res, body.title);
+    if (title === null) return;
+
+    const pathPrefix = typeof body.pathPrefix === 'string' ? normalizeCollectionPath(body.pathPrefix) : '';
+    if (!pathPrefix) {
+      res.status(400).json({ error: 'pathPrefix must name a vault folder' });
+      return;
+    }
+
+    let order: string[] = [];
+    if (body.order !== undefined) {
+      const value = getOrder(res, body.order);
+      if (value === null) return;
+      order = value;
+    }
+
+    if (body.published !== undefined && typeof body.published !== 'boolean') {
+      res.status(400).json({ error: 'published must be true or false' });
+      return;
+    }
+
+    const existing = await collectionService.findByPathPrefix(pathPrefix);
+    if (existing) {
+      res.status(409).json({ error: 'A collection already covers this folder', id: existing.id });
+      return;
+    }
+
+    const collection = await collectionService.createCollection(title, pathPrefix, order, body.published === true);
+    const info = collectionService.toCollectionInfo(collection, await storageService.getAllPublications());
+
+    res.status(201).json({ success: true, ...info });
+  } catch (error) {
+    logger.error('Error creating collection', { error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.patch('/:id', requireScope('update'), async (req: Request, res: Response) => {
+  try {
+    const body = req.body as UpdateCollectionRequest;
+    const changes: UpdateCollectionRequest = {};
+
+    if (body.title !== undefined) {
+      const title = getTitle(res, body.title);
+      if (title === null) return;
+      changes.title = title;
+    }
+
+    if (body.order !== undefined) {
+      const order = getOrder(res, body.order);
+      if (order === null) return;
+      changes.order = order;
+    }
+
+    const collection = await collectionService.updateCollection(req.params.id, changes);
+
+    if (!collection) {
+      res.status(404).json({ error: 'Collection not found' });
+      return;
+    }
+
+    res.json({ success: true, ...collectionService.toCollectionInfo(collection, await storageService.getAllPublications()) });
+  } catch (error) {
+    logger.error('Error updating collection', { error, id: req.params.id });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Publishing or unpublishing shows or hides every member note at once
+for (const action of ['publish', 'unpublish'] as const) {
+  router.post(`/:id/${action}`, requireScope('publish'), async (req: Request, res: Response) => {
+    try {
+      const collection = await collectionService.updateCollection(req.params.id, { published: action === 'publish' });
+
+      if (!collection) {
+        res.status(404).json({ error: 'Collection not found' });
+        return;
+      }
+
+      res.json({ success: true, ...collectionService.toCollectionInfo(collection, await storageService.getAllPublications()) });
+    } catch (error) {
+      logger.error(`Error ${action}ing collection`, { error, id: req.params.id });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+}
+
+// Member notes stay published on their own
+router.delete('/:id', requireScope('delete'), async (req: Request, res: Response) => {
+  try {
+    if (!await collectionService.deleteCollection(req.params.id)) {
+      res.status(404).json({ error: 'Collection not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Collection deleted' });
+  } catch (error) {
+    logger.error('Error deleting collection', { error, id: req.params.id });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
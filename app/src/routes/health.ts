@@ -1,4 +1,5 @@
 import { Router, Request, Response } from 'express';
+import { renderCache } from '../services/renderCache';
 
 const router = Router();
 
@@ -10,4 +11,12 @@ router.get('/health', (req: Request, res: Response) => {
   });
 });
 
+// Counters for dashboards, since the last restart
+router.get('/metrics', (req: Request, res: Response) => {
+  res.json({
+    renderCache: renderCache.getStats(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
 export default router;
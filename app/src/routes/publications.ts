@@ -0,0 +1,332 @@
+import { Router, Request, Response } from 'express';
+import { createTwoFilesPatch } from 'diff';
+import { getPublicationUrl, listPublications, toPublicationSummary } from '../services/publications';
+import { storageService, getPublicationEtag, PreconditionFailedError } from '../services/storage';
+import { renderPublication } from '../services/render';
+import { shareLinkService } from '../services/shares';
+import { getPageTemplate } from '../services/markdown';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../services/logger';
+import { PublicationListQuery, PublicationSortField } from '../models/publication';
+import { CreateShareLinkRequest } from '../models/share';
+
+const router = Router();
+
+const SORT_FIELDS: PublicationSortField[] = ['createdAt', 'updatedAt', 'title'];
+const MAX_PAGE_SIZE = 200;
+const MAX_LABEL_LENGTH = 200;
+
+router.get('/', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const { page, limit, sort, order, path, protected: isProtected, tag } = req.query;
+
+    const query: PublicationListQuery = {
+      page: page === undefined ? 1 : parseInt(String(page), 10),
+      limit: limit === undefined ? 50 : parseInt(String(limit), 10),
+      sort: (sort as PublicationSortField) || 'updatedAt',
+      order: order === 'asc' ? 'asc' : 'desc',
+    };
+
+    if (isNaN(query.page) || query.page < 1) {
+      res.status(400).json({ error: 'page must be a positive integer' });
+      return;
+    }
+
+    if (isNaN(query.limit) || query.limit < 1 || query.limit > MAX_PAGE_SIZE) {
+      res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` });
+      return;
+    }
+
+    if (!SORT_FIELDS.includes(query.sort)) {
+      res.status(400).json({ error: `sort must be one of: ${SORT_FIELDS.join(', ')}` });
+      return;
+    }
+
+    if (order !== undefined && order !== 'asc' && order !== 'desc') {
+      res.status(400).json({ error: 'order must be asc or desc' });
+      return;
+    }
+
+    if (isProtected !== undefined) {
+      if (isProtected !== 'true' && isProtected !== 'false') {
+        res.status(400).json({ error: 'protected must be true or false' });
+        return;
+      }
+      query.protected = isProtected === 'true';
+    }
+
+    if (typeof path === 'string') query.pathPrefix = path;
+    if (typeof tag === 'string') query.tag = tag;
+
+    res.json(await listPublications(query));
+  } catch (error) {
+    logger.error('Error listing publications', { error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function parseRevision(value: unknown): number | null {
+  const revision = parseInt(String(value), 10);
+  return isNaN(revision) || revision < 1 ? null : revision;
+}
+
+router.get('/:hash/revisions', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const revisions = await storageService.listRevisions(req.params.hash);
+
+    if (!revisions) {
+      res.status(404).json({ error: 'Publication not found' });
+      return;
+    }
+
+    res.json({ hash: req.params.hash, revisions });
+  } catch (error) {
+    logger.error('Error listing revisions', { error, hash: req.params.hash });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/:hash/revisions/diff', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+
+    const current = await storageService.getPublicationByHash(hash);
+    if (!current) {
+      res.status(404).json({ error: 'Publication not found' });
+      return;
+    }
+
+    // Defaults to the change made by the latest save
+    const to = req.query.to === undefined ? current.revision || 1 : parseRevision(req.query.to);
+    const from = req.query.from === undefined && to !== null ? to - 1 : parseRevision(req.query.from);
+
+    if (!from || !to) {
+      res.status(400).json({ error: 'from and to must be revision numbers' });
+      return;
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([
+      storageService.getRevision(hash, from),
+      storageService.getRevision(hash, to),
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+
+    const patch = createTwoFilesPatch(
+        `${current.filename}@${from}`,
+        `${current.filename}@${to}`,
+        fromRevision.content,
+        toRevision.content
+    );
+
+    if (req.query.format === 'patch') {
+      res.setHeader('Content-Type', 'text/x-diff; charset=utf-8');
+      res.send(patch);
+      return;
+    }
+
+    res.json({ hash, from, to, patch });
+  } catch (error) {
+    logger.error('Error diffing revisions', { error, hash: req.params.hash });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/:hash/revisions/:revision', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+    const revision = parseRevision(req.params.revision);
+
+    if (!revision) {
+      res.status(400).json({ error: 'Invalid revision' });
+      return;
+    }
+
+    const snapshot = await storageService.getRevision(hash, revision);
+
+    if (!snapshot) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+
+    if (req.query.format === 'raw') {
+      res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+      res.send(snapshot.content);
+      return;
+    }
+
+    if (req.query.format === 'html') {
+      // Images are served from the current version of the publication
+      const rendered = await renderPublication(hash, snapshot.publication, snapshot.content);
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(getPageTemplate(
+          `${snapshot.publication.title} (revision ${revision})`,
+          rendered.html,
+          snapshot.publication.createdAt,
+          snapshot.publication.updatedAt,
+          { description: snapshot.publication.description, tags: snapshot.publication.tags, toc: rendered.toc }
+      ));
+      return;
+    }
+
+    res.json({
+      revision,
+      publication: toPublicationSummary(hash, snapshot.publication),
+      images: snapshot.publication.images || [],
+      content: snapshot.content,
+    });
+  } catch (error) {
+    logger.error('Error fetching revision', { error, hash: req.params.hash, revision: req.params.revision });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/:hash/revisions/:revision/rollback', requireScope('update'), async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+    const revision = parseRevision(req.params.revision);
+
+    if (!revision) {
+      res.status(400).json({ error: 'Invalid revision' });
+      return;
+    }
+
+    const current = await storageService.getPublicationByHash(hash);
+    if (!current) {
+      res.status(404).json({ error: 'Publication not found' });
+      return;
+    }
+
+    if (revision === (current.revision || 1)) {
+      res.status(400).json({ error: 'Revision is already current' });
+      return;
+    }
+
+    const publication = await storageService.rollbackPublication(hash, revision, req.get('If-Match'));
+
+    if (!publication) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+
+    res.setHeader('ETag', getPublicationEtag(publication));
+    res.json({
+      success: true,
+      hash,
+      revision: publication.revision,
+      etag: getPublicationEtag(publication),
+      restoredFrom: revision,
+      message: 'Rolled back successfully',
+    });
+  } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      logger.warn('Rollback rejected by If-Match', { hash: req.params.hash, ifMatch: req.get('If-Match') });
+      res.status(412).json({
+        success: false,
+        error: 'Precondition failed',
+        message: 'Publication was changed since the version in If-Match',
+        etag: error.current ? getPublicationEtag(error.current) : null,
+        revision: error.current ? error.current.revision || 1 : null,
+      });
+      return;
+    }
+    logger.error('Error rolling back publication', { error, hash: req.params.hash, revision: req.params.revision });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Moves the publication to a new random hash; the old hash URL and its share links stop working, a slug stays
+router.post('/:hash/rotate', requireScope('update'), async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+    const newHash = await storageService.rotateHash(hash);
+
+    if (!newHash) {
+      res.status(404).json({ error: 'Publication not found' });
+      return;
+    }
+
+    const publication = await storageService.getPublicationByHash(newHash);
+
+    res.json({
+      success: true,
+      hash: newHash,
+      previousHash: hash,
+      url: publication ? getPublicationUrl(newHash, publication) : null,
+      message: 'Publication moved to a new hash',
+    });
+  } catch (error) {
+    logger.error('Error rotating publication hash', { error, hash: req.params.hash });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/:hash/shares', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+
+    if (!await storageService.getPublicationByHash(hash)) {
+      res.status(404).json({ error: 'Publication not found' });
+      return;
+    }
+
+    res.json({ hash, links: await shareLinkService.listLinks(hash) });
+  } catch (error) {
+    logger.error('Error listing share links', { error, hash: req.params.hash });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/:hash/shares', requireScope('update'), async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+    const body = req.body as CreateShareLinkRequest;
+
+    if (!body.label || typeof body.label !== 'string' || body.label.length > MAX_LABEL_LENGTH) {
+      res.status(400).json({ error: `Label is required, up to ${MAX_LABEL_LENGTH} characters` });
+      return;
+    }
+
+    let expiresAt: string | null = null;
+    if (body.expiresAt !== undefined) {
+      const date = new Date(body.expiresAt);
+      if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        res.status(400).json({ error: 'expiresAt must be a future date' });
+        return;
+      }
+      expiresAt = date.toISOString();
+    }
+
+    if (!await storageService.getPublicationByHash(hash)) {
+      res.status(404).json({ error: 'Publication not found' });
+      return;
+    }
+
+    const link = await shareLinkService.createLink(hash, body.label, expiresAt);
+    res.status(201).json({ success: true, ...link });
+  } catch (error) {
+    logger.error('Error creating share link', { error, hash: req.params.hash });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:hash/shares/:id', requireScope('update'), async (req: Request, res: Response) => {
+  try {
+    const link = await shareLinkService.revokeLink(req.params.hash, req.params.id);
+
+    if (!link) {
+      res.status(404).json({ error: 'Share link not found' });
+      return;
+    }
+
+    res.json({ success: true, ...link, message: 'Share link revoked' });
+  } catch (error) {
+    logger.error('Error revoking share link', { error, hash: req.params.hash, id: req.params.id });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
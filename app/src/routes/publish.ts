@@ -1,14 +1,164 @@
 import { Router, Request, Response } from 'express';
 import { nanoid } from 'nanoid';
-import { storageService } from '../services/storage';
+import { storageService, getPublicationEtag, PreconditionFailedError } from '../services/storage';
 import { hashPassword } from '../services/password';
+import { blobStore, DIGEST_PATTERN } from '../services/blobs';
+import { isAllowedAttachmentType } from '../services/attachments';
+import { requireScope } from '../middleware/auth';
+import { multipartUpload } from '../middleware/multipart';
+import { parseFrontmatter, getFrontmatterOptions } from '../services/frontmatter';
+import { getExpiryReason } from '../services/expiry';
+import { getPublicationUrl } from '../services/publications';
+import { RESERVED_SLUGS, slugify, withSlug } from '../services/slugs';
+import { viewCounter } from '../services/views';
 import { config } from '../config';
 import { logger } from '../services/logger';
-import { PublishRequest, Publication } from '../models/publication';
+import { PublishRequest, Publication, CheckResponse, ImageData, TocMode, TOC_MODES } from '../models/publication';
 
 const router = Router();
 
-router.get('/check/:filename', async (req: Request, res: Response) => {
+function sendPreconditionFailed(res: Response, hash: string, current: Publication | null): void {
+  res.status(412).json({
+    success: false,
+    error: 'Precondition failed',
+    message: 'Publication was changed since the version in If-Match',
+    exists: !!current,
+    hash,
+    url: current ? getPublicationUrl(hash, current) : null,
+    etag: current ? getPublicationEtag(current) : null,
+    revision: current ? current.revision || 1 : null,
+    lastUpdated: current ? current.updatedAt : null,
+  });
+}
+
+// Attachments carry either base64 data or the digest of a blob uploaded earlier
+function validateAttachments(res: Response, attachments: ImageData[]): boolean {
+  if (attachments.length > config.maxImagesPerPublication) {
+    res.status(400).json({ error: `Too many attachments. Maximum allowed: ${config.maxImagesPerPublication}` });
+    return false;
+  }
+
+  for (const attachment of attachments) {
+    if (!attachment.filename || !attachment.mimeType || (!attachment.data && !attachment.digest)) {
+      res.status(400).json({ error: 'Each attachment must have filename, mimeType, and data or digest' });
+      return false;
+    }
+
+    if (attachment.digest !== undefined && (typeof attachment.digest !== 'string' || !DIGEST_PATTERN.test(attachment.digest))) {
+      res.status(400).json({ error: `Invalid attachment digest: ${attachment.filename}` });
+      return false;
+    }
+
+    if (!isAllowedAttachmentType(attachment.mimeType)) {
+      res.status(400).json({ error: `Invalid attachment type: ${attachment.mimeType}` });
+      return false;
+    }
+  }
+
+  const missing = blobStore.findMissing(
+      attachments.filter(attachment => !attachment.data).map(attachment => attachment.digest!)
+  );
+  if (missing.length > 0) {
+    res.status(400).json({ error: 'Unknown attachment digests, upload the data instead', missing });
+    return false;
+  }
+
+  return true;
+}
+
+// images and attachments are interchangeable, clients may send either or both
+function getAttachments(res: Response, body: PublishRequest): ImageData[] | null {
+  for (const field of ['images', 'attachments'] as const) {
+    if (body[field] !== undefined && !Array.isArray(body[field])) {
+      res.status(400).json({ error: `${field === 'images' ? 'Images' : 'Attachments'} must be an array` });
+      return null;
+    }
+  }
+
+  const attachments = [...(body.images || []), ...(body.attachments || [])];
+  return validateAttachments(res, attachments) ? attachments : null;
+}
+
+interface ExpiryOptions {
+  expiresAt?: string | null;
+  maxViews?: number | null;
+}
+
+// Undefined when not sent, null when sent to remove the limit
+function getExpiryOptions(res: Response, body: PublishRequest): ExpiryOptions | null {
+  const options: ExpiryOptions = { expiresAt: body.expiresAt, maxViews: body.maxViews };
+
+  if (body.expiresAt !== undefined && body.expiresAt !== null) {
+    const expiresAt = typeof body.expiresAt === 'string' ? new Date(body.expiresAt).getTime() : NaN;
+    if (isNaN(expiresAt)) {
+      res.status(400).json({ error: 'expiresAt must be an ISO 8601 date' });
+      return null;
+    }
+    if (expiresAt <= Date.now()) {
+      res.status(400).json({ error: 'expiresAt must be in the future' });
+      return null;
+    }
+    options.expiresAt = new Date(expiresAt).toISOString();
+  }
+
+  if (body.maxViews !== undefined && body.maxViews !== null
+      && (typeof body.maxViews !== 'number' || !Number.isInteger(body.maxViews) || body.maxViews < 1)) {
+    res.status(400).json({ error: 'maxViews must be a positive integer' });
+    return null;
+  }
+
+  return options;
+}
+
+/**
+ * Slug from the request, or else the frontmatter, checked to be free for this publication.
+ * The slug is undefined when neither sets one and null when the request removes it.
+ */
+async function getSlugOption(
+    res: Response,
+    hash: string,
+    body: PublishRequest,
+    frontmatterSlug: string | undefined
+): Promise<{ slug?: string | null } | null> {
+  const requested = body.slug !== undefined ? body.slug : frontmatterSlug;
+
+  if (requested === undefined) return {};
+  if (requested === null || requested === '') return { slug: null };
+
+  if (typeof requested !== 'string') {
+    res.status(400).json({ error: 'slug must be a string' });
+    return null;
+  }
+
+  const slug = slugify(requested);
+  if (!slug) {
+    res.status(400).json({ error: 'slug must contain letters or digits' });
+    return null;
+  }
+
+  // Hashes win over slugs when resolving /p/<id>, and earlier slugs stay reserved for their redirects
+  const owner = await storageService.getPublicationBySlug(slug);
+  if (RESERVED_SLUGS.includes(slug) || (owner && owner.hash !== hash) || await storageService.getPublicationByHash(slug)) {
+    res.status(409).json({ error: `Slug is already taken: ${slug}` });
+    return null;
+  }
+
+  return { slug };
+}
+
+// Table of contents mode from the request, or else the frontmatter; undefined when neither sets one
+function getTocOption(res: Response, body: PublishRequest, frontmatterToc: TocMode | undefined): { toc?: TocMode | null } | null {
+  const toc = body.toc !== undefined ? body.toc : frontmatterToc;
+
+  if (toc !== undefined && toc !== null && !TOC_MODES.includes(toc)) {
+    res.status(400).json({ error: `toc must be one of: ${TOC_MODES.join(', ')}` });
+    return null;
+  }
+
+  return { toc };
+}
+
+router.get('/check/:filename', requireScope('read'), async (req: Request, res: Response) => {
   try {
     const { filename } = req.params;
     
@@ -20,19 +170,36 @@ router.get('/check/:filename', async (req: Request, res: Response) => {
     const result = await storageService.getPublicationByFilename(filename);
 
     if (result) {
+      const etag = getPublicationEtag(result.publication);
+      const views = viewCounter.get(result.hash);
+      res.setHeader('ETag', etag);
       res.json({
         exists: true,
         hash: result.hash,
-        url: `${config.baseUrl}/p/${result.hash}`,
+        url: getPublicationUrl(result.hash, result.publication),
+        slug: result.publication.slug || null,
         lastUpdated: result.publication.updatedAt,
-      });
+        etag,
+        revision: result.publication.revision || 1,
+        expiresAt: result.publication.expiresAt || null,
+        maxViews: result.publication.maxViews || null,
+        views,
+        expired: !!getExpiryReason(result.publication, views),
+      } as CheckResponse);
     } else {
       res.json({
         exists: false,
         hash: null,
         url: null,
+        slug: null,
         lastUpdated: null,
-      });
+        etag: null,
+        revision: null,
+        expiresAt: null,
+        maxViews: null,
+        views: null,
+        expired: false,
+      } as CheckResponse);
     }
   } catch (error) {
     logger.error('Error checking file', { error, filename: req.params.filename });
@@ -40,7 +207,7 @@ router.get('/check/:filename', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/publish', async (req: Request, res: Response) => {
+router.post('/publish', requireScope('publish'), multipartUpload, async (req: Request, res: Response) => {
   try {
     const body = req.body as PublishRequest;
 
@@ -64,40 +231,30 @@ router.post('/publish', async (req: Request, res: Response) => {
       return;
     }
 
-    if (body.images) {
-      if (!Array.isArray(body.images)) {
-        res.status(400).json({ error: 'Images must be an array' });
-        return;
-      }
-
-      if (body.images.length > config.maxImagesPerPublication) {
-        res.status(400).json({ error: `Too many images. Maximum allowed: ${config.maxImagesPerPublication}` });
-        return;
-      }
-
-      for (const image of body.images) {
-        if (!image.filename || !image.data || !image.mimeType) {
-          res.status(400).json({ error: 'Each image must have filename, data, and mimeType' });
-          return;
-        }
+    const attachments = getAttachments(res, body);
+    if (!attachments) {
+      return;
+    }
 
-        if (!config.allowedImageTypes.includes(image.mimeType)) {
-          res.status(400).json({ error: `Invalid image type: ${image.mimeType}` });
-          return;
-        }
-      }
+    const expiry = getExpiryOptions(res, body);
+    if (!expiry) {
+      return;
     }
 
     const sanitizedFilename = body.filename.replace(/[/\\]/g, '_');
 
     const existing = await storageService.getPublicationByFilename(sanitizedFilename);
-    if (existing) {
+    if (existing && getExpiryReason(existing.publication, viewCounter.get(existing.hash))) {
+      // No longer served, so publishing again replaces it instead of conflicting with it
+      await storageService.deletePublication(existing.hash);
+      logger.info('Expired publication replaced', { hash: existing.hash, filename: sanitizedFilename });
+    } else if (existing) {
       res.status(409).json({
         success: false,
         error: 'File already exists',
         exists: true,
         hash: existing.hash,
-        url: `${config.baseUrl}/p/${existing.hash}`,
+        url: getPublicationUrl(existing.hash, existing.publication),
       });
       return;
     }
@@ -105,34 +262,60 @@ router.post('/publish', async (req: Request, res: Response) => {
     // Generate hash
     const hash = nanoid(12);
 
+    const frontmatter = getFrontmatterOptions(parseFrontmatter(body.content).data);
+
+    const slugOption = await getSlugOption(res, hash, body, frontmatter.slug);
+    if (!slugOption) {
+      return;
+    }
+
+    const tocOption = getTocOption(res, body, frontmatter.toc);
+    if (!tocOption) {
+      return;
+    }
+
     let passwordHash: string | null = null;
-    if (body.password && body.password.length > 0) {
-      passwordHash = await hashPassword(body.password);
+    const password = body.password || frontmatter.password;
+    if (password && password.length > 0) {
+      passwordHash = await hashPassword(password);
     }
 
     const publication: Publication = {
       filename: sanitizedFilename,
-      title: body.metadata.title || sanitizedFilename,
+      title: frontmatter.title || body.metadata.title || sanitizedFilename,
+      description: frontmatter.description,
+      tags: frontmatter.tags,
+      aliases: frontmatter.aliases,
       obsidianPath: body.metadata.obsidianPath || '',
       passwordHash,
-      createdAt: body.metadata.publishedAt || new Date().toISOString(),
+      passwordFromFrontmatter: !body.password && !!passwordHash || undefined,
+      createdAt: frontmatter.date || body.metadata.publishedAt || new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       images: [],
+      expiresAt: expiry.expiresAt || undefined,
+      maxViews: expiry.maxViews || undefined,
+      slug: slugOption.slug || undefined,
+      toc: tocOption.toc || undefined,
     };
 
-    const imagesUploaded = await storageService.savePublication(hash, body.content, publication, body.images);
+    const imagesUploaded = await storageService.savePublication(hash, body.content, publication, attachments);
 
-    const url = `${config.baseUrl}/p/${hash}`;
+    const url = getPublicationUrl(hash, publication);
 
     logger.info('New publication created', { hash, filename: sanitizedFilename, images: imagesUploaded });
 
+    const etag = getPublicationEtag(publication);
+    res.setHeader('ETag', etag);
     res.status(201).json({
       success: true,
       hash,
       url,
+      slug: publication.slug || null,
       exists: false,
       message: 'Published successfully',
       imagesUploaded,
+      etag,
+      revision: publication.revision,
     });
   } catch (error) {
     logger.error('Error publishing file', { error });
@@ -140,7 +323,7 @@ router.post('/publish', async (req: Request, res: Response) => {
   }
 });
 
-router.put('/update/:hash', async (req: Request, res: Response) => {
+router.put('/update/:hash', requireScope('update'), multipartUpload, async (req: Request, res: Response) => {
   try {
     const { hash } = req.params;
     const body = req.body as PublishRequest;
@@ -166,70 +349,101 @@ router.put('/update/:hash', async (req: Request, res: Response) => {
       return;
     }
 
-    if (body.images) {
-      if (!Array.isArray(body.images)) {
-        res.status(400).json({ error: 'Images must be an array' });
-        return;
-      }
+    const attachments = getAttachments(res, body);
+    if (!attachments) {
+      return;
+    }
 
-      if (body.images.length > config.maxImagesPerPublication) {
-        res.status(400).json({ error: `Too many images. Maximum allowed: ${config.maxImagesPerPublication}` });
-        return;
-      }
+    const expiry = getExpiryOptions(res, body);
+    if (!expiry) {
+      return;
+    }
 
-      for (const image of body.images) {
-        if (!image.filename || !image.data || !image.mimeType) {
-          res.status(400).json({ error: 'Each image must have filename, data, and mimeType' });
-          return;
-        }
+    const frontmatter = getFrontmatterOptions(parseFrontmatter(body.content).data);
 
-        if (!config.allowedImageTypes.includes(image.mimeType)) {
-          res.status(400).json({ error: `Invalid image type: ${image.mimeType}` });
-          return;
-        }
-      }
+    const slugOption = await getSlugOption(res, hash, body, frontmatter.slug);
+    if (!slugOption) {
+      return;
+    }
+
+    const tocOption = getTocOption(res, body, frontmatter.toc);
+    if (!tocOption) {
+      return;
     }
 
     let passwordHash = existingPub.passwordHash;
+    let passwordFromFrontmatter = existingPub.passwordFromFrontmatter;
     if (body.password !== undefined) {
       if (body.password && body.password.length > 0) {
         passwordHash = await hashPassword(body.password);
       } else {
         passwordHash = null; // Remove password
       }
+      passwordFromFrontmatter = undefined;
+    } else if (frontmatter.password) {
+      passwordHash = await hashPassword(frontmatter.password);
+      passwordFromFrontmatter = true;
+    } else if (passwordFromFrontmatter) {
+      // publish_password was taken out of the note
+      passwordHash = null;
+      passwordFromFrontmatter = undefined;
     }
 
     const updatedPublication: Publication = {
       ...existingPub,
       filename: body.filename ? body.filename.replace(/[/\\]/g, '_') : existingPub.filename,
-      title: body.metadata?.title || existingPub.title,
+      title: frontmatter.title || body.metadata?.title || existingPub.title,
+      description: frontmatter.description,
+      tags: frontmatter.tags,
+      aliases: frontmatter.aliases,
       obsidianPath: body.metadata?.obsidianPath || existingPub.obsidianPath,
       passwordHash,
+      passwordFromFrontmatter,
       updatedAt: new Date().toISOString(),
+      expiresAt: expiry.expiresAt === undefined ? existingPub.expiresAt : expiry.expiresAt || undefined,
+      maxViews: expiry.maxViews === undefined ? existingPub.maxViews : expiry.maxViews || undefined,
+      ...(slugOption.slug === undefined ? {} : withSlug(existingPub, slugOption.slug)),
+      toc: tocOption.toc === undefined ? existingPub.toc : tocOption.toc || undefined,
     };
 
-    // Save updated publication with images
-    const imagesUploaded = await storageService.savePublication(hash, body.content, updatedPublication, body.images);
+    // Save updated publication with images, only if it still matches the client's If-Match
+    const imagesUploaded = await storageService.savePublication(
+        hash,
+        body.content,
+        updatedPublication,
+        attachments,
+        req.get('If-Match')
+    );
 
-    const url = `${config.baseUrl}/p/${hash}`;
+    const url = getPublicationUrl(hash, updatedPublication);
 
     logger.info('Publication updated', { hash, filename: updatedPublication.filename, images: imagesUploaded });
 
+    const etag = getPublicationEtag(updatedPublication);
+    res.setHeader('ETag', etag);
     res.json({
       success: true,
       hash,
       url,
+      slug: updatedPublication.slug || null,
       exists: true,
       message: 'Updated successfully',
       imagesUploaded,
+      etag,
+      revision: updatedPublication.revision,
     });
   } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      logger.warn('Update rejected by If-Match', { hash: req.params.hash, ifMatch: req.get('If-Match') });
+      sendPreconditionFailed(res, req.params.hash, error.current);
+      return;
+    }
     logger.error('Error updating file', { error, hash: req.params.hash });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-router.delete('/delete/:hash', async (req: Request, res: Response) => {
+router.delete('/delete/:hash', requireScope('delete'), async (req: Request, res: Response) => {
   try {
     const { hash } = req.params;
 
@@ -238,7 +452,7 @@ router.delete('/delete/:hash', async (req: Request, res: Response) => {
       return;
     }
 
-    const deleted = await storageService.deletePublication(hash);
+    const deleted = await storageService.deletePublication(hash, req.get('If-Match'));
 
     if (!deleted) {
       res.status(404).json({ error: 'Publication not found' });
@@ -252,6 +466,11 @@ router.delete('/delete/:hash', async (req: Request, res: Response) => {
       message: 'Publication deleted',
     });
   } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      logger.warn('Delete rejected by If-Match', { hash: req.params.hash, ifMatch: req.get('If-Match') });
+      sendPreconditionFailed(res, req.params.hash, error.current);
+      return;
+    }
     logger.error('Error deleting file', { error, hash: req.params.hash });
     res.status(500).json({ error: 'Internal server error' });
   }
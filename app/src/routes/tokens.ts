@@ -0,0 +1,91 @@
+import { Router, Request, Response } from 'express';
+import { tokenService } from '../services/tokens';
+import { requireScope } from '../middleware/auth';
+import { logger } from '../services/logger';
+import { CreateTokenRequest, TOKEN_SCOPES } from '../models/token';
+
+const router = Router();
+
+router.use(requireScope('admin'));
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const tokens = await tokenService.listTokens();
+    res.json({ tokens });
+  } catch (error) {
+    logger.error('Error listing tokens', { error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const body = req.body as CreateTokenRequest;
+
+    if (!body.name || typeof body.name !== 'string') {
+      res.status(400).json({ error: 'Name is required' });
+      return;
+    }
+
+    if (!Array.isArray(body.scopes) || body.scopes.length === 0) {
+      res.status(400).json({ error: 'At least one scope is required' });
+      return;
+    }
+
+    const invalidScope = body.scopes.find(scope => !TOKEN_SCOPES.includes(scope));
+    if (invalidScope) {
+      res.status(400).json({ error: `Invalid scope: ${invalidScope}. Allowed: ${TOKEN_SCOPES.join(', ')}` });
+      return;
+    }
+
+    let expiresAt: string | null = null;
+    if (body.expiresAt !== undefined) {
+      const date = new Date(body.expiresAt);
+      if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        res.status(400).json({ error: 'expiresAt must be a future date' });
+        return;
+      }
+      expiresAt = date.toISOString();
+    }
+
+    const { token, info } = await tokenService.createToken(body.name, [...new Set(body.scopes)], expiresAt);
+
+    res.status(201).json({
+      success: true,
+      token,
+      ...info,
+      message: 'Store this token now, it will not be shown again',
+    });
+  } catch (error) {
+    logger.error('Error creating token', { error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (req.auth?.tokenId === id) {
+      res.status(400).json({ error: 'A token cannot revoke itself' });
+      return;
+    }
+
+    const revoked = await tokenService.revokeToken(id);
+
+    if (!revoked) {
+      res.status(404).json({ error: 'Token not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Token revoked',
+    });
+  } catch (error) {
+    logger.error('Error revoking token', { error, id: req.params.id });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,89 +1,236 @@
+import crypto from 'crypto';
 import { Router, Request, Response } from 'express';
 import { storageService } from '../services/storage';
 import { verifyPassword } from '../services/password';
-import { renderMarkdown, getPageTemplate, getPasswordPageTemplate } from '../services/markdown';
+import {
+  getGonePageTemplate,
+  getGraphPageTemplate,
+  getPageTemplate,
+  getPasswordPageTemplate,
+  getSearchPageTemplate,
+} from '../services/markdown';
+import { getRenderedPublication } from '../services/render';
+import { searchService } from '../services/search';
+import { isInlineAttachment } from '../services/attachments';
+import { imageService } from '../services/images';
+import { viewCounter } from '../services/views';
+import { ExpiryReason, getExpiryReason } from '../services/expiry';
+import { shareLinkService } from '../services/shares';
+import { tombstoneService } from '../services/tombstones';
+import { slugify } from '../services/slugs';
+import { collectionService } from '../services/collections';
+import { linkGraph } from '../services/links';
 import { passwordLimiter } from '../middleware/rateLimit';
+import { isUnlocked, isVisibleTo, unlock, unlockWithShareLink } from '../middleware/reader';
 import { logger } from '../services/logger';
 import { config } from '../config';
+import { Publication } from '../models/publication';
 
 const router = Router();
 
-// Transform relative image paths to absolute URLs and encode spaces
-function transformImagePaths(content: string, hash: string): string {
-  // Replace ./images/filename with /p/hash/images/filename
-  // Also encode spaces in filenames as %20
-  return content.replace(
-      /!\[([^\]]*)\]\(\.\/images\/([^)]+)\)/g,
-      (match, alt, filename) => {
-        const encodedFilename = filename.replace(/ /g, '%20');
-        return `![${alt}](/p/${hash}/images/${encodedFilename})`;
-      }
-  );
+const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// Hash first, then slug; a slug the publication no longer uses redirects to its current address
+async function findPublication(
+    req: Request,
+    res: Response,
+    id: string
+): Promise<{ hash: string; publication: Publication } | null> {
+  const publication = await storageService.getPublicationByHash(id);
+  if (publication && !collectionService.isHidden(publication)) {
+    return { hash: id, publication };
+  }
+
+  const match = publication ? null : await storageService.getPublicationBySlug(slugify(id));
+  if (!match || collectionService.isHidden(match.publication)) {
+    // Deleted by the expiry sweeper: still gone rather than never there
+    const reason = publication ? null : tombstoneService.get(id);
+    if (reason) {
+      sendGone(res, reason);
+    } else {
+      res.status(404).send('Publication not found');
+    }
+    return null;
+  }
+
+  if (match.publication.slug !== id) {
+    const query = req.originalUrl.includes('?') ? req.originalUrl.slice(req.originalUrl.indexOf('?')) : '';
+    res.redirect(301, `${req.baseUrl}/${encodeURIComponent(match.publication.slug || match.hash)}${query}`);
+    return null;
+  }
+
+  return match;
+}
+
+// Shared caches must not hand a protected publication's images and files to readers who haven't unlocked it
+function getAttachmentCacheControl(publication: Publication): string {
+  return `${publication.passwordHash ? 'private' : 'public'}, max-age=${config.imageCacheMaxAge}`;
+}
+
+function sendGone(res: Response, reason: ExpiryReason): void {
+  res.status(410);
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.send(getGonePageTemplate(reason));
 }
 
-// View publication
-router.get('/:hash', async (req: Request, res: Response) => {
+// Search published content
+router.get('/search', async (req: Request, res: Response) => {
   try {
-    const { hash } = req.params;
-    const { raw } = req.query;
+    const query = typeof req.query.q === 'string' ? req.query.q.slice(0, MAX_SEARCH_QUERY_LENGTH).trim() : '';
+    const wantsJson = req.query.format === 'json' || req.accepts(['html', 'json']) === 'json';
 
-    if (!hash || hash.length < 10) {
-      res.status(400).send('Invalid publication ID');
+    const publications = await storageService.getAllPublications();
+
+    // Protected publications only show up once this session has unlocked them. Snippets would show the text of
+    // view-limited ones without counting a view, so those are left out like they are from embeds
+    const results = searchService.search(query, (hash) => !!publications[hash] && !publications[hash].maxViews
+        && isVisibleTo(req, hash, publications[hash]));
+
+    if (wantsJson) {
+      res.json({ query, results });
       return;
     }
 
-    const publication = await storageService.getPublicationByHash(hash);
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.send(getSearchPageTemplate(query, results));
+  } catch (error) {
+    logger.error('Error searching publications', { error });
+    res.status(500).send('Internal server error');
+  }
+});
 
-    if (!publication) {
-      res.status(404).send('Publication not found');
+// Link graph of the publications this reader can see, as JSON or an interactive page
+router.get('/graph', async (req: Request, res: Response) => {
+  try {
+    if (req.query.format === 'json' || req.accepts(['html', 'json']) === 'json') {
+      res.setHeader('Cache-Control', 'private, no-cache');
+      res.json(await linkGraph.getGraph((hash, publication) => isVisibleTo(req, hash, publication)));
       return;
     }
 
-    // Check if password protected
-    if (publication.passwordHash) {
-      const session = req.session as { unlockedHashes?: string[] };
-      const unlockedHashes = session.unlockedHashes || [];
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.send(getGraphPageTemplate());
+  } catch (error) {
+    logger.error('Error building link graph', { error });
+    res.status(500).send('Internal server error');
+  }
+});
 
-      if (!unlockedHashes.includes(hash)) {
-        res.setHeader('Content-Type', 'text/html; charset=utf-8');
-        res.send(getPasswordPageTemplate(hash));
-        return;
-      }
+// View publication, by hash or slug
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const { raw } = req.query;
+
+    const found = await findPublication(req, res, req.params.id);
+    if (!found) {
+      return;
     }
+    const { hash, publication } = found;
 
-    // Get content
-    let content = await storageService.getContent(hash);
+    const expiry = getExpiryReason(publication, viewCounter.get(hash));
+    if (expiry) {
+      sendGone(res, expiry);
+      return;
+    }
 
-    if (!content) {
-      res.status(404).send('Content not found');
+    // A share link unlocks the publication for the session, until it's revoked or expires
+    let shareLinkError: string | undefined;
+    if (typeof req.query.t === 'string') {
+      const link = shareLinkService.redeem(hash, req.query.t);
+      if (link) {
+        unlockWithShareLink(req, hash, link.id);
+        logger.info('Share link used', { hash, linkId: link.id, label: link.label, ip: req.ip });
+      } else {
+        shareLinkError = 'This share link is invalid, expired or revoked';
+      }
+    }
+
+    // Check if password protected
+    if (publication.passwordHash && !isUnlocked(req, hash)) {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(getPasswordPageTemplate(hash, shareLinkError));
       return;
     }
 
+    // Revalidated page loads are views too. Raw downloads only count against a view limit, they'd get around it otherwise
+    if (raw !== 'true' || publication.maxViews) {
+      const views = viewCounter.record(hash);
+
+      // Concurrent requests may all have passed the check above
+      if (publication.maxViews && views > publication.maxViews) {
+        sendGone(res, 'view-limit');
+        return;
+      }
+    }
+
+    res.setHeader('Cache-Control', publication.passwordHash ? 'private, no-cache' : 'no-cache');
+
     // Return raw markdown if requested
     if (raw === 'true') {
+      res.setHeader('ETag', `W/"${publication.revision || 1}-raw"`);
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+
+      const content = await storageService.getContent(hash);
+
+      if (!content) {
+        res.status(404).send('Content not found');
+        return;
+      }
+
       res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
       res.setHeader('Content-Disposition', `attachment; filename="${publication.filename}.md"`);
       res.send(content);
       return;
     }
 
-    // Transform image paths before rendering
-    content = transformImagePaths(content, hash);
+    // Render markdown to HTML, resolving links and embeds against published notes; cached until something changes
+    const rendered = await getRenderedPublication(hash, publication);
+
+    if (!rendered) {
+      res.status(404).send('Content not found');
+      return;
+    }
 
-    // Render markdown to HTML
-    const renderedContent = renderMarkdown(content);
+    const backlinks = await linkGraph.getBacklinks(hash, (source, linking) => isVisibleTo(req, source, linking));
+    const collection = collectionService.findForPublication(publication);
+    const navigation = collection
+        ? collectionService.getNavigation(
+            collection,
+            await storageService.getAllPublications(),
+            hash,
+            (member, memberPublication) => isVisibleTo(req, member, memberPublication)
+        )
+        : undefined;
+
+    // Conditional GET: the tag covers the notes the page links and embeds, and the backlinks and sidebar this reader
+    // gets, so it's the same on every instance and across restarts for as long as the page is
+    const variant = crypto.createHash('sha1')
+        .update(JSON.stringify([rendered.version, backlinks, navigation || null]))
+        .digest('base64url')
+        .slice(0, 16);
+    res.setHeader('ETag', `W/"${publication.revision || 1}-${variant}"`);
+
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
 
     const html = getPageTemplate(
         publication.title,
-        renderedContent,
+        rendered.html,
         publication.createdAt,
-        publication.updatedAt
+        publication.updatedAt,
+        { description: publication.description, tags: publication.tags, collection: navigation, backlinks, toc: rendered.toc }
     );
 
     res.setHeader('Content-Type', 'text/html; charset=utf-8');
     res.send(html);
   } catch (error) {
-    logger.error('Error viewing publication', { error, hash: req.params.hash });
+    logger.error('Error viewing publication', { error, id: req.params.id });
     res.status(500).send('Internal server error');
   }
 });
@@ -105,25 +252,51 @@ router.get('/:hash/images/:filename', async (req: Request, res: Response) => {
 
     const publication = await storageService.getPublicationByHash(hash);
 
-    if (!publication) {
+    if (!publication || collectionService.isHidden(publication)) {
       res.status(404).send('Publication not found');
       return;
     }
 
+    // Only the time limit applies here, the page view that used up a view limit still loads its attachments
+    if (getExpiryReason(publication, 0)) {
+      res.status(410).send('Publication has expired');
+      return;
+    }
+
     // Check if password protected
-    if (publication.passwordHash) {
-      const session = req.session as { unlockedHashes?: string[] };
-      const unlockedHashes = session.unlockedHashes || [];
+    if (publication.passwordHash && !isUnlocked(req, hash)) {
+      res.status(403).send('Access denied. Publication is password protected.');
+      return;
+    }
 
-      if (!unlockedHashes.includes(hash)) {
-        res.status(403).send('Access denied. Publication is password protected.');
+    // Decode URL-encoded filename
+    const decodedFilename = storageService.sanitizeImageFilename(decodeURIComponent(filename));
+
+    // Raster images are re-encoded, which drops EXIF/GPS data, in the best format the client accepts
+    if (imageService.isOptimizable(decodedFilename)) {
+      const format = imageService.negotiateFormat(req.get('Accept'), decodedFilename);
+      const width = imageService.parseWidth(req.query.w);
+
+      try {
+        const variant = await imageService.getVariant(hash, publication, decodedFilename, width, format);
+
+        if (!variant) {
+          res.status(404).send('Image not found');
+          return;
+        }
+
+        res.setHeader('Cache-Control', getAttachmentCacheControl(publication));
+        res.setHeader('Vary', 'Accept');
+        res.setHeader('Content-Type', variant.mimeType);
+        res.setHeader('Content-Length', variant.data.length);
+        res.send(variant.data);
         return;
+      } catch (error) {
+        // Corrupt or unsupported files are still served as uploaded
+        logger.warn('Image optimization failed', { hash, filename: decodedFilename, error: (error as Error).message });
       }
     }
 
-    // Decode URL-encoded filename
-    const decodedFilename = decodeURIComponent(filename);
-
     // Get image
     const image = await storageService.getImage(hash, decodedFilename);
 
@@ -133,7 +306,7 @@ router.get('/:hash/images/:filename', async (req: Request, res: Response) => {
     }
 
     // Set caching headers
-    res.setHeader('Cache-Control', `public, max-age=${config.imageCacheMaxAge}`);
+    res.setHeader('Cache-Control', getAttachmentCacheControl(publication));
     res.setHeader('Content-Type', image.mimeType);
     res.setHeader('Content-Length', image.data.length);
 
@@ -144,6 +317,99 @@ router.get('/:hash/images/:filename', async (req: Request, res: Response) => {
   }
 });
 
+// Serve attachments (PDF, audio, video, other files) with range support for media seeking
+router.get('/:hash/files/:filename', async (req: Request, res: Response) => {
+  try {
+    const { hash, filename } = req.params;
+
+    if (!hash || hash.length < 10) {
+      res.status(400).send('Invalid publication ID');
+      return;
+    }
+
+    if (!filename) {
+      res.status(400).send('Filename is required');
+      return;
+    }
+
+    const publication = await storageService.getPublicationByHash(hash);
+
+    if (!publication || collectionService.isHidden(publication)) {
+      res.status(404).send('Publication not found');
+      return;
+    }
+
+    // Only the time limit applies here, the page view that used up a view limit still loads its attachments
+    if (getExpiryReason(publication, 0)) {
+      res.status(410).send('Publication has expired');
+      return;
+    }
+
+    // Check if password protected
+    if (publication.passwordHash && !isUnlocked(req, hash)) {
+      res.status(403).send('Access denied. Publication is password protected.');
+      return;
+    }
+
+    const attachment = await storageService.getAttachment(hash, decodeURIComponent(filename));
+
+    if (!attachment) {
+      res.status(404).send('File not found');
+      return;
+    }
+
+    const ranges = req.range(attachment.size, { combine: true });
+
+    if (ranges === -1) {
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('Content-Range', `bytes */${attachment.size}`);
+      res.status(416).end();
+      return;
+    }
+
+    // Multiple ranges are rare for media, answering with the whole file is allowed
+    let range: { start: number; end: number } | undefined;
+    if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+    }
+
+    // Opened before any headers go out, the file may be gone since it was looked up
+    const stream = req.method === 'HEAD' ? null : await attachment.openReadStream(range);
+    if (req.method !== 'HEAD' && !stream) {
+      res.status(404).send('File not found');
+      return;
+    }
+
+    const disposition = isInlineAttachment(attachment.filename) ? 'inline' : 'attachment';
+    res.setHeader('Cache-Control', getAttachmentCacheControl(publication));
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Content-Disposition', `${disposition}; filename="${attachment.filename}"`);
+    res.setHeader('Accept-Ranges', 'bytes');
+
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${attachment.size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.setHeader('Content-Length', attachment.size);
+    }
+
+    if (!stream) {
+      res.end();
+      return;
+    }
+
+    stream.on('error', (error) => {
+      logger.error('Error streaming attachment', { error, hash, filename });
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    logger.error('Error serving attachment', { error, hash: req.params.hash, filename: req.params.filename });
+    res.status(500).send('Internal server error');
+  }
+});
+
 // Verify password
 router.post('/:hash/verify', async (req: Request, res: Response) => {
   try {
@@ -163,13 +429,13 @@ router.post('/:hash/verify', async (req: Request, res: Response) => {
 
     const publication = await storageService.getPublicationByHash(hash);
 
-    if (!publication) {
+    if (!publication || collectionService.isHidden(publication)) {
       res.status(404).send('Publication not found');
       return;
     }
 
     if (!publication.passwordHash) {
-      res.redirect(`/p/${hash}`);
+      res.redirect(`/p/${publication.slug ? encodeURIComponent(publication.slug) : hash}`);
       return;
     }
 
@@ -188,15 +454,11 @@ router.post('/:hash/verify', async (req: Request, res: Response) => {
       return;
     }
 
-    const session = req.session as { unlockedHashes?: string[] };
-    if (!session.unlockedHashes) {
-      session.unlockedHashes = [];
-    }
-    session.unlockedHashes.push(hash);
+    unlock(req, hash);
 
     logger.info('Publication unlocked', { hash });
 
-    res.redirect(`/p/${hash}`);
+    res.redirect(`/p/${publication.slug ? encodeURIComponent(publication.slug) : hash}`);
   } catch (error) {
     logger.error('Error verifying password', { error, hash: req.params.hash });
     res.status(500).send('Internal server error');
@@ -0,0 +1,455 @@
+import { Publication, PublicationSummary } from '../models/publication';
+import { escapeHtml } from './markdown';
+
+const TOC_OPTIONS = [
+  ['', 'Automatic, for pages with a few headings'],
+  ['on', 'Shown'],
+  ['sticky', 'Shown, kept in view on wide screens'],
+  ['off', 'Hidden'],
+];
+
+export interface AdminListItem {
+  summary: PublicationSummary;
+  views: number;
+}
+
+export interface AdminListPage {
+  items: AdminListItem[];
+  page: number;
+  totalPages: number;
+  total: number;
+  path: string;
+}
+
+export interface AdminPublicationPage {
+  hash: string;
+  publication: Publication;
+  etag: string;
+  views: number;
+  revisions: number;
+  url: string;
+}
+
+// Asked on a page of its own, inline confirm() handlers are blocked by the CSP
+export interface AdminConfirmPage {
+  hash: string;
+  publication: Publication;
+  // Path under /admin/p/:hash the confirmed form posts to
+  action: 'rotate' | 'delete';
+  question: string;
+  description: string;
+  button: string;
+}
+
+// Set when rendering pages for a logged in admin
+export interface AdminPageContext {
+  csrfToken: string;
+  notice?: string;
+  error?: string;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function csrfField(context: AdminPageContext): string {
+  return `<input type="hidden" name="_csrf" value="${escapeHtml(context.csrfToken)}">`;
+}
+
+function getAdminLayout(title: string, body: string, context?: AdminPageContext): string {
+  const header = context
+      ? `<header>
+      <a class="brand" href="/admin">Publications</a>
+      <form method="POST" action="/admin/logout">
+        ${csrfField(context)}
+        <button type="submit" class="link">Log out</button>
+      </form>
+    </header>`
+      : '';
+
+  const messages = [
+    context?.notice ? `<div class="notice">${escapeHtml(context.notice)}</div>` : '',
+    context?.error ? `<div class="error">${escapeHtml(context.error)}</div>` : '',
+  ].join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)} — Admin</title>
+  <meta name="robots" content="noindex">
+  <style>
+    :root {
+      --bg-color: #ffffff;
+      --text-color: #24292e;
+      --secondary-text: #586069;
+      --border-color: #e1e4e8;
+      --link-color: #0366d6;
+      --row-hover: #f6f8fa;
+      --error-color: #cb2431;
+      --notice-color: #22863a;
+      --button-bg: #2ea44f;
+      --button-hover: #2c974b;
+      --danger-bg: #d73a49;
+    }
+
+    @media (prefers-color-scheme: dark) {
+      :root {
+        --bg-color: #0d1117;
+        --text-color: #c9d1d9;
+        --secondary-text: #8b949e;
+        --border-color: #30363d;
+        --link-color: #58a6ff;
+        --row-hover: #161b22;
+        --error-color: #f85149;
+        --notice-color: #3fb950;
+        --button-bg: #238636;
+        --button-hover: #2ea043;
+        --danger-bg: #da3633;
+      }
+    }
+
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;
+      line-height: 1.5;
+      color: var(--text-color);
+      background-color: var(--bg-color);
+      margin: 0;
+    }
+
+    .container {
+      max-width: 1100px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+
+    header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding-bottom: 12px;
+      margin-bottom: 20px;
+      border-bottom: 1px solid var(--border-color);
+    }
+
+    a {
+      color: var(--link-color);
+      text-decoration: none;
+    }
+
+    .brand {
+      font-weight: 600;
+      font-size: 1.2em;
+      color: var(--text-color);
+    }
+
+    .notice, .error {
+      padding: 10px;
+      border-radius: 6px;
+      margin-bottom: 16px;
+    }
+
+    .notice {
+      color: var(--notice-color);
+      background: rgba(46, 164, 79, 0.1);
+    }
+
+    .error {
+      color: var(--error-color);
+      background: rgba(203, 36, 49, 0.1);
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    th, td {
+      text-align: left;
+      padding: 8px;
+      border-bottom: 1px solid var(--border-color);
+      vertical-align: top;
+    }
+
+    th {
+      color: var(--secondary-text);
+      font-weight: 600;
+      font-size: 0.9em;
+    }
+
+    tbody tr:hover {
+      background: var(--row-hover);
+    }
+
+    .muted {
+      color: var(--secondary-text);
+      font-size: 0.9em;
+    }
+
+    .number {
+      text-align: right;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .filters, .pagination {
+      display: flex;
+      gap: 8px;
+      align-items: center;
+      margin: 16px 0;
+    }
+
+    input[type="text"], input[type="password"], input[type="search"], select {
+      padding: 8px 10px;
+      font-size: 14px;
+      border: 1px solid var(--border-color);
+      border-radius: 6px;
+      background: var(--bg-color);
+      color: var(--text-color);
+      box-sizing: border-box;
+    }
+
+    label {
+      display: block;
+      font-weight: 600;
+      margin: 12px 0 6px 0;
+    }
+
+    button {
+      padding: 8px 14px;
+      font-size: 14px;
+      font-weight: 600;
+      color: #ffffff;
+      background-color: var(--button-bg);
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+
+    button:hover {
+      background-color: var(--button-hover);
+    }
+
+    button.secondary {
+      color: var(--text-color);
+      background: var(--bg-color);
+      border: 1px solid var(--border-color);
+    }
+
+    button.danger {
+      background-color: var(--danger-bg);
+    }
+
+    button.link {
+      padding: 0;
+      color: var(--link-color);
+      background: none;
+      font-weight: normal;
+    }
+
+    section {
+      border: 1px solid var(--border-color);
+      border-radius: 8px;
+      padding: 16px 20px;
+      margin-bottom: 20px;
+    }
+
+    section h2 {
+      margin: 0 0 8px 0;
+      font-size: 1.1em;
+    }
+
+    .wide {
+      width: 100%;
+      max-width: 500px;
+    }
+
+    .actions {
+      display: flex;
+      gap: 16px;
+      align-items: center;
+    }
+
+    .checkbox {
+      display: flex;
+      gap: 6px;
+      align-items: center;
+      font-weight: normal;
+    }
+
+    .preview {
+      width: 100%;
+      height: 600px;
+      border: 1px solid var(--border-color);
+      border-radius: 8px;
+    }
+
+    .login {
+      max-width: 400px;
+      margin: 10vh auto;
+      border: 1px solid var(--border-color);
+      border-radius: 12px;
+      padding: 40px;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.12);
+    }
+
+    .login input {
+      width: 100%;
+      margin-bottom: 16px;
+    }
+
+    .login button {
+      width: 100%;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    ${header}
+    ${messages}
+    ${body}
+  </div>
+</body>
+</html>`;
+}
+
+export function getAdminLoginTemplate(error?: string): string {
+  return getAdminLayout('Log in', `
+    <div class="login">
+      <h2>Admin</h2>
+      <p class="muted">Log in with the server's secret key or an API token with the admin scope.</p>
+      ${error ? `<div class="error">${escapeHtml(error)}</div>` : ''}
+      <form method="POST" action="/admin/login">
+        <label for="token">Key or token</label>
+        <input type="password" id="token" name="token" required autofocus autocomplete="current-password">
+        <button type="submit">Log in</button>
+      </form>
+    </div>`);
+}
+
+export function getAdminListTemplate(list: AdminListPage, context: AdminPageContext): string {
+  const rows = list.items.map(({ summary, views }) => `
+        <tr>
+          <td>
+            <a href="/admin/p/${escapeHtml(summary.hash)}">${escapeHtml(summary.title)}</a>
+            <div class="muted">${escapeHtml(summary.obsidianPath || summary.filename)}</div>
+          </td>
+          <td class="number">${views}</td>
+          <td>${summary.protected ? '🔒 Protected' : 'Public'}</td>
+          <td class="muted">${formatDate(summary.updatedAt)}</td>
+          <td><a href="${escapeHtml(summary.url)}" target="_blank" rel="noopener">Open ↗</a></td>
+        </tr>`).join('');
+
+  const pageLink = (page: number) => `/admin?page=${page}${list.path ? `&path=${encodeURIComponent(list.path)}` : ''}`;
+  const pagination = list.totalPages > 1
+      ? `<div class="pagination">
+      ${list.page > 1 ? `<a href="${escapeHtml(pageLink(list.page - 1))}">← Previous</a>` : ''}
+      <span class="muted">Page ${list.page} of ${list.totalPages}</span>
+      ${list.page < list.totalPages ? `<a href="${escapeHtml(pageLink(list.page + 1))}">Next →</a>` : ''}
+    </div>`
+      : '';
+
+  return getAdminLayout('Publications', `
+    <h1>Publications</h1>
+    <form class="filters" method="GET" action="/admin">
+      <input type="search" name="path" value="${escapeHtml(list.path)}" placeholder="Obsidian path prefix">
+      <button type="submit" class="secondary">Filter</button>
+      <span class="muted">${list.total} publication${list.total === 1 ? '' : 's'}</span>
+    </form>
+    <table>
+      <thead>
+        <tr>
+          <th>Title</th>
+          <th class="number">Views</th>
+          <th>Access</th>
+          <th>Updated</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>${rows}
+      </tbody>
+    </table>
+    ${pagination}`, context);
+}
+
+export function getAdminPublicationTemplate(page: AdminPublicationPage, context: AdminPageContext): string {
+  const { hash, publication } = page;
+  const action = `/admin/p/${escapeHtml(hash)}`;
+
+  return getAdminLayout(publication.title, `
+    <h1>${escapeHtml(publication.title)}</h1>
+    <table>
+      <tr><th>URL</th><td><a href="${escapeHtml(page.url)}" target="_blank" rel="noopener">${escapeHtml(page.url)}</a></td></tr>
+      <tr><th>Path</th><td>${escapeHtml(publication.obsidianPath || publication.filename)}</td></tr>
+      <tr><th>Access</th><td>${publication.passwordHash ? '🔒 Password protected' : 'Public'}</td></tr>
+      <tr><th>Views</th><td>${page.views}${publication.maxViews ? ` of ${publication.maxViews} allowed` : ''}</td></tr>
+      ${publication.expiresAt ? `<tr><th>Expires</th><td>${formatDate(publication.expiresAt)}</td></tr>` : ''}
+      <tr><th>Revision</th><td>${publication.revision || 1} (${page.revisions} kept)</td></tr>
+      <tr><th>Published</th><td>${formatDate(publication.createdAt)}</td></tr>
+      <tr><th>Updated</th><td>${formatDate(publication.updatedAt)}</td></tr>
+    </table>
+
+    <section>
+      <h2>Settings</h2>
+      <form method="POST" action="${action}">
+        ${csrfField(context)}
+        <input type="hidden" name="etag" value="${escapeHtml(page.etag)}">
+        <label for="title">Title</label>
+        <input type="text" id="title" name="title" class="wide" value="${escapeHtml(publication.title)}" required>
+        <label for="password">New password</label>
+        <input type="password" id="password" name="password" class="wide" autocomplete="new-password"
+          placeholder="${publication.passwordHash ? 'Leave empty to keep the current password' : 'Leave empty to keep it public'}">
+        ${publication.passwordHash
+          ? '<label class="checkbox"><input type="checkbox" name="removePassword" value="true"> Remove password protection</label>'
+          : ''}
+        <label for="toc">Table of contents</label>
+        <select id="toc" name="toc">
+          ${TOC_OPTIONS.map(([value, label]) => `<option value="${value}"${(publication.toc || '') === value ? ' selected' : ''}>${label}</option>`).join('')}
+        </select>
+        <p><button type="submit">Save</button></p>
+      </form>
+    </section>
+
+    <section>
+      <h2>Rotate link</h2>
+      <p class="muted">Moves the publication to a new random URL. The current URL stops working.</p>
+      <form method="GET" action="${action}/rotate">
+        <button type="submit" class="secondary">Rotate hash…</button>
+      </form>
+    </section>
+
+    <section>
+      <h2>Delete</h2>
+      <p class="muted">Removes the publication, its history and attachments that nothing else uses.</p>
+      <form method="GET" action="${action}/delete">
+        <button type="submit" class="danger">Delete publication…</button>
+      </form>
+    </section>
+
+    <section>
+      <h2>Preview</h2>
+      <iframe class="preview" src="${action}/preview" title="Preview"></iframe>
+    </section>`, context);
+}
+
+export function getAdminConfirmTemplate(page: AdminConfirmPage, context: AdminPageContext): string {
+  const publicationPath = `/admin/p/${escapeHtml(page.hash)}`;
+
+  return getAdminLayout(page.question, `
+    <h1>${escapeHtml(page.question)}</h1>
+    <section>
+      <h2>${escapeHtml(page.publication.title)}</h2>
+      <p class="muted">${escapeHtml(page.description)}</p>
+      <form method="POST" action="${publicationPath}/${page.action}" class="actions">
+        ${csrfField(context)}
+        <button type="submit" class="danger">${escapeHtml(page.button)}</button>
+        <a href="${publicationPath}">Cancel</a>
+      </form>
+    </section>`, context);
+}
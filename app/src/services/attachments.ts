@@ -0,0 +1,66 @@
+import path from 'path';
+import { config } from '../config';
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'video' | 'file';
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.bmp': 'image/bmp',
+  '.avif': 'image/avif',
+  '.pdf': 'application/pdf',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.ogv': 'video/ogg',
+  '.mov': 'video/quicktime',
+  '.canvas': 'application/json',
+  '.excalidraw': 'application/json',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.zip': 'application/zip',
+};
+
+// Only these are shown inline, everything else is served as a download
+const INLINE_KINDS: AttachmentKind[] = ['image', 'pdf', 'audio', 'video'];
+
+export function getMimeType(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
+// Obsidian treats ![[name.ext]] as a file embed when the extension isn't a note
+export function isAttachment(filename: string): boolean {
+  return path.extname(filename).toLowerCase() in MIME_TYPES;
+}
+
+export function getAttachmentKind(filename: string): AttachmentKind {
+  const mimeType = getMimeType(filename);
+
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'file';
+}
+
+export function isInlineAttachment(filename: string): boolean {
+  return INLINE_KINDS.includes(getAttachmentKind(filename));
+}
+
+export function isAllowedAttachmentType(mimeType: string): boolean {
+  return config.allowedAttachmentTypes.includes(mimeType);
+}
+
+// Images keep their own, usually smaller, limit
+export function getMaxAttachmentSize(mimeType: string): number {
+  return config.allowedImageTypes.includes(mimeType) ? config.maxImageSize : config.maxAttachmentSize;
+}
@@ -0,0 +1,311 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config';
+import { storageDriver, updateJson } from './drivers';
+import { logger } from './logger';
+
+export const BLOBS_DIR = 'blobs';
+const REFS_KEY = `${BLOBS_DIR}/refs.json`;
+// Uploads are staged on local disk whatever the storage driver
+const TEMP_DIR = path.join('tmp', 'uploads');
+
+// Unreferenced blobs are kept this long: uploads ahead of the publish that references them,
+// and released ones another instance may be about to reference again
+const UNREFERENCED_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+export const DIGEST_PATTERN = /^[a-f0-9]{64}$/;
+
+interface BlobEntry {
+  refs: number;
+  size: number;
+  // Stored, or last uploaded or released; starts the grace period while refs is 0
+  createdAt: string;
+}
+
+interface BlobIndex {
+  blobs: Record<string, BlobEntry>;
+}
+
+export function computeDigest(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+class BlobStore {
+  private tempPath: string;
+  private index: BlobIndex | null = null;
+  private indexVersion: string | null = null;
+  private saving: Promise<unknown> = Promise.resolve();
+  private pruneTimer: NodeJS.Timeout | null = null;
+  // A prune waits for stores in progress and new stores wait for it, so data stored again while
+  // its stale blob is being removed is never deleted with it
+  private storing = new Set<Promise<void>>();
+  private pruning: Promise<void> | null = null;
+
+  constructor() {
+    this.tempPath = path.join(config.dataDir, TEMP_DIR);
+  }
+
+  async initialize(): Promise<void> {
+    // Anything left in the temp dir is from uploads interrupted by a restart
+    await fs.rm(this.tempPath, { recursive: true, force: true });
+    await fs.mkdir(this.tempPath, { recursive: true });
+
+    await this.load();
+    await this.pruneUnreferenced();
+  }
+
+  // Released blobs are only deleted by pruning, so it runs on a timer too
+  startPruning(): void {
+    if (this.pruneTimer) return;
+
+    this.pruneTimer = setInterval(() => {
+      this.pruneUnreferenced().catch(error => logger.error('Failed to prune blobs', { error }));
+    }, PRUNE_INTERVAL);
+    this.pruneTimer.unref();
+  }
+
+  // Only reads the index, for tools running next to a live server
+  async load(): Promise<void> {
+    // A read error throws: starting empty would let the next release delete blobs that are still in use
+    const stored = await storageDriver.stat(REFS_KEY);
+    const data = await storageDriver.read(REFS_KEY);
+    if (data) {
+      this.index = JSON.parse(data.toString('utf-8'));
+      this.indexVersion = stored?.version || null;
+      logger.info('Blob index loaded', { count: Object.keys(this.index!.blobs).length });
+    } else {
+      await this.update(() => undefined);
+    }
+  }
+
+  // Pick up blobs stored by other instances sharing the same storage
+  async refresh(): Promise<void> {
+    if (!this.index) return;
+
+    const stored = await storageDriver.stat(REFS_KEY);
+    if (!stored || stored.version === this.indexVersion) return;
+
+    const data = await storageDriver.read(REFS_KEY);
+    if (!data) return;
+
+    this.index = JSON.parse(data.toString('utf-8'));
+    this.indexVersion = stored.version;
+  }
+
+  /**
+   * Apply a change to the stored index with a conditional write, so reference counts changed by other
+   * instances are never overwritten. change may run several times and must only touch the index.
+   */
+  private update<T>(change: (index: BlobIndex) => T): Promise<T> {
+    // Chain writes, this instance's own changes don't need to race each other
+    const saving = this.saving.catch(() => undefined).then(async () => {
+      let result: T;
+      const saved = await updateJson<BlobIndex>(storageDriver, REFS_KEY, (current) => {
+        const index = current || { blobs: {} };
+        result = change(index);
+        return index;
+      });
+
+      this.index = saved.value;
+      this.indexVersion = saved.version;
+      return result!;
+    });
+    this.saving = saving;
+    return saving;
+  }
+
+  getKey(digest: string): string {
+    return `${BLOBS_DIR}/${digest.slice(0, 2)}/${digest}`;
+  }
+
+  has(digest: string): boolean {
+    return DIGEST_PATTERN.test(digest) && !!this.index?.blobs[digest];
+  }
+
+  findMissing(digests: string[]): string[] {
+    return [...new Set(digests)].filter(digest => !this.has(digest));
+  }
+
+  /**
+   * Index a blob about to be referenced, writing its file first if no instance has it.
+   * An unreferenced one gets a new grace period, so a pending publish doesn't lose it to pruning.
+   */
+  private async store(digest: string, size: number, write: () => Promise<void>, discard: () => Promise<void>): Promise<void> {
+    if (!this.index) await this.initialize();
+
+    while (this.pruning) await this.pruning;
+
+    const stored = this.storeUnlessKnown(digest, size, write, discard);
+    this.storing.add(stored);
+    try {
+      await stored;
+    } finally {
+      this.storing.delete(stored);
+    }
+  }
+
+  private async storeUnlessKnown(digest: string, size: number, write: () => Promise<void>, discard: () => Promise<void>): Promise<void> {
+    const known = this.index!.blobs[digest];
+    if (known && known.refs > 0) {
+      await discard();
+      return;
+    }
+
+    const touch = (index: BlobIndex) => {
+      const entry = index.blobs[digest];
+      if (entry && entry.refs === 0) entry.createdAt = new Date().toISOString();
+      return !!entry;
+    };
+
+    if (known && await this.update(touch)) {
+      await discard();
+      return;
+    }
+
+    await write();
+    await this.update((index) => {
+      if (!touch(index)) index.blobs[digest] = { refs: 0, size, createdAt: new Date().toISOString() };
+    });
+    logger.debug('Blob stored', { digest, size });
+  }
+
+  // Store data under its SHA-256; the blob stays unreferenced until addRefs
+  async put(data: Buffer): Promise<string> {
+    const digest = computeDigest(data);
+
+    await this.store(digest, data.length, async () => {
+      await storageDriver.write(this.getKey(digest), data);
+    }, async () => undefined);
+
+    return digest;
+  }
+
+  // Local temp file for an upload in progress, handed to putFile once hashed
+  getTempPath(): string {
+    return path.join(this.tempPath, `${crypto.randomBytes(8).toString('hex')}.tmp`);
+  }
+
+  // Move an already hashed temp file into the store; the blob stays unreferenced until addRefs
+  async putFile(tempPath: string, digest: string, size: number): Promise<void> {
+    await this.store(digest, size, async () => {
+      await storageDriver.writeFile(this.getKey(digest), tempPath);
+    }, async () => {
+      await fs.rm(tempPath, { force: true });
+    });
+  }
+
+  async read(digest: string): Promise<Buffer | null> {
+    if (!this.has(digest)) return null;
+
+    return storageDriver.read(this.getKey(digest));
+  }
+
+  async addRefs(digests: string[]): Promise<void> {
+    if (digests.length === 0) return;
+    if (!this.index) await this.initialize();
+
+    const missing = await this.update((index) => {
+      const unknown: string[] = [];
+      for (const digest of digests) {
+        const entry = index.blobs[digest];
+        if (entry) entry.refs++;
+        else unknown.push(digest);
+      }
+      return unknown;
+    });
+
+    if (missing.length > 0) {
+      logger.warn('Referenced blobs missing from the index', { digests: missing });
+    }
+  }
+
+  // A blob whose last reference goes is left to pruning, not deleted here
+  async releaseRefs(digests: string[]): Promise<void> {
+    if (digests.length === 0) return;
+    if (!this.index) await this.initialize();
+
+    await this.update((index) => {
+      for (const digest of digests) {
+        const entry = index.blobs[digest];
+        if (!entry || entry.refs === 0) continue;
+
+        entry.refs--;
+        if (entry.refs === 0) entry.createdAt = new Date().toISOString();
+      }
+    });
+  }
+
+  // Reference count of every indexed blob, for integrity checks
+  getRefCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const [digest, entry] of Object.entries(this.index?.blobs || {})) {
+      counts[digest] = entry.refs;
+    }
+    return counts;
+  }
+
+  /**
+   * Overwrite index entries found wrong by an integrity check. null drops the entry (its file is gone);
+   * digests not in the index are added, for blob files the index lost track of.
+   */
+  async repairEntries(entries: Record<string, { refs: number; size?: number } | null>): Promise<void> {
+    if (!this.index) await this.load();
+
+    await this.update((index) => {
+      for (const [digest, entry] of Object.entries(entries)) {
+        if (!entry) {
+          delete index.blobs[digest];
+          continue;
+        }
+
+        const existing = index.blobs[digest];
+        index.blobs[digest] = {
+          refs: entry.refs,
+          size: entry.size ?? existing?.size ?? 0,
+          createdAt: existing?.createdAt || new Date().toISOString(),
+        };
+      }
+    });
+  }
+
+  // Drop blobs released or uploaded for a publish that never happened, once their grace period is over
+  async pruneUnreferenced(): Promise<void> {
+    if (!this.index) return;
+    if (this.pruning) return this.pruning;
+
+    this.pruning = Promise.allSettled([...this.storing])
+        .then(() => this.removeStale())
+        .finally(() => {
+          this.pruning = null;
+        });
+    return this.pruning;
+  }
+
+  private async removeStale(): Promise<void> {
+    const cutoff = Date.now() - UNREFERENCED_GRACE_PERIOD;
+    const isStale = (entry: BlobEntry) => entry.refs === 0 && new Date(entry.createdAt).getTime() < cutoff;
+    if (!Object.values(this.index!.blobs).some(isStale)) return;
+
+    // Out of the index first: from then on an upload of the same data stores the file again, once the files are gone
+    const removed = await this.update((index) => {
+      const stale = Object.keys(index.blobs).filter(digest => isStale(index.blobs[digest]));
+      for (const digest of stale) {
+        delete index.blobs[digest];
+      }
+      return stale;
+    });
+
+    for (const digest of removed) {
+      await storageDriver.delete(this.getKey(digest));
+      logger.debug('Blob removed', { digest });
+    }
+
+    if (removed.length > 0) {
+      logger.info('Unreferenced blobs pruned', { removed: removed.length });
+    }
+  }
+}
+
+export const blobStore = new BlobStore();
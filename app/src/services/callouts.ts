@@ -0,0 +1,110 @@
+import { TokenizerAndRendererExtension, Tokens } from 'marked';
+
+interface CalloutToken extends Tokens.Generic {
+  type: 'callout';
+  raw: string;
+  calloutType: string;
+  fold: '' | '+' | '-';
+  title: string;
+  titleTokens: Tokens.Generic[];
+  tokens: Tokens.Generic[];
+}
+
+// Obsidian callout aliases mapped to the type that defines their look
+const CALLOUT_ALIASES: Record<string, string> = {
+  summary: 'abstract',
+  tldr: 'abstract',
+  hint: 'tip',
+  important: 'tip',
+  check: 'success',
+  done: 'success',
+  help: 'question',
+  faq: 'question',
+  caution: 'warning',
+  attention: 'warning',
+  fail: 'failure',
+  missing: 'failure',
+  error: 'danger',
+  cite: 'quote',
+};
+
+const CALLOUT_ICONS: Record<string, string> = {
+  note: '✏️',
+  abstract: '📋',
+  info: 'ℹ️',
+  todo: '☑️',
+  tip: '🔥',
+  success: '✅',
+  question: '❓',
+  warning: '⚠️',
+  failure: '❌',
+  danger: '⚡',
+  bug: '🐞',
+  example: '📝',
+  quote: '💬',
+};
+
+function getCalloutKind(type: string): string {
+  const kind = CALLOUT_ALIASES[type] || type;
+  return CALLOUT_ICONS[kind] ? kind : 'note';
+}
+
+function getDefaultTitle(type: string): string {
+  return type.charAt(0).toUpperCase() + type.slice(1);
+}
+
+export function calloutExtension(escapeHtml: (text: string) => string): TokenizerAndRendererExtension {
+  return {
+    name: 'callout',
+    level: 'block',
+    childTokens: ['titleTokens', 'tokens'],
+    start(src: string) {
+      const index = src.search(/^ {0,3}>[ \t]*\[![\w-]+\]/m);
+      return index === -1 ? undefined : index;
+    },
+    tokenizer(src: string): CalloutToken | undefined {
+      const match = /^ {0,3}>[ \t]*\[!([\w-]+)\]([+-]?)[ \t]*(.*)(?:\n|$)((?: {0,3}>.*(?:\n|$))*)/.exec(src);
+      if (!match) return undefined;
+
+      const body = match[4]
+          .split('\n')
+          .map(line => line.replace(/^ {0,3}> ?/, ''))
+          .join('\n');
+
+      const token: CalloutToken = {
+        type: 'callout',
+        raw: match[0],
+        calloutType: match[1].toLowerCase(),
+        fold: match[2] as CalloutToken['fold'],
+        title: match[3].trim(),
+        titleTokens: [],
+        tokens: [],
+      };
+
+      this.lexer.inline(token.title, token.titleTokens);
+      // Nested callouts are tokenized by this same extension
+      this.lexer.blockTokens(body, token.tokens);
+
+      return token;
+    },
+    renderer(token: Tokens.Generic) {
+      const callout = token as CalloutToken;
+      const kind = getCalloutKind(callout.calloutType);
+      const title = callout.title
+          ? this.parser.parseInline(callout.titleTokens)
+          : escapeHtml(getDefaultTitle(callout.calloutType));
+      const content = callout.tokens.length > 0
+          ? `<div class="callout-content">\n${this.parser.parse(callout.tokens)}</div>\n`
+          : '';
+      const titleInner = `<span class="callout-icon" aria-hidden="true">${CALLOUT_ICONS[kind]}</span><span class="callout-title-inner">${title}</span>`;
+      const attributes = `class="callout callout-${kind}" data-callout="${escapeHtml(callout.calloutType)}"`;
+
+      if (callout.fold) {
+        const open = callout.fold === '+' ? ' open' : '';
+        return `<details ${attributes}${open}>\n<summary class="callout-title">${titleInner}</summary>\n${content}</details>\n`;
+      }
+
+      return `<div ${attributes}>\n<div class="callout-title">${titleInner}</div>\n${content}</div>\n`;
+    },
+  };
+}
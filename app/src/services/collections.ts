@@ -0,0 +1,293 @@
+import { nanoid } from 'nanoid';
+import { config } from '../config';
+import {
+  Collection,
+  CollectionInfo,
+  CollectionNavigation,
+  CollectionNavItem,
+  CollectionStore,
+  CollectionTreeNode,
+  UpdateCollectionRequest,
+} from '../models/collection';
+import { Publication } from '../models/publication';
+import { storageDriver, updateJson } from './drivers';
+import { getPublicationPath, toPublicationSummary } from './publications';
+import { logger } from './logger';
+
+const COLLECTIONS_FILE = 'collections.json';
+
+interface Member {
+  hash: string;
+  publication: Publication;
+}
+
+// Vault paths and order entries compare without slashes at the ends or the .md extension
+export function normalizeCollectionPath(value: string): string {
+  return value
+      .replace(/\\/g, '/')
+      .replace(/^\/+|\/+$/g, '')
+      .replace(/\.md$/i, '');
+}
+
+function compareNames(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+// Listed notes and folders come first in their listed order, the rest follow by name
+function sortTree(nodes: CollectionTreeNode[], order: string[], parentPath: string): void {
+  const rank = (node: CollectionTreeNode) => {
+    const nodePath = parentPath ? `${parentPath}/${node.name}` : node.name;
+    const index = order.findIndex(entry => entry === nodePath || entry.startsWith(`${nodePath}/`));
+    return index === -1 ? Infinity : index;
+  };
+
+  nodes.sort((a, b) => (rank(a) - rank(b)) || compareNames(a.name, b.name));
+
+  for (const node of nodes) {
+    sortTree(node.children, order, parentPath ? `${parentPath}/${node.name}` : node.name);
+  }
+}
+
+function buildTree(collection: Collection, members: Member[]): CollectionTreeNode[] {
+  const root: CollectionTreeNode = { name: '', item: null, children: [] };
+
+  for (const { hash, publication } of members) {
+    const relativePath = normalizeCollectionPath(publication.obsidianPath).slice(collection.pathPrefix.length + 1);
+
+    let node = root;
+    for (const name of relativePath.split('/')) {
+      let child = node.children.find(c => c.name === name);
+      if (!child) {
+        child = { name, item: null, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    }
+
+    node.item = { hash, title: publication.title, url: getPublicationPath(hash, publication) };
+  }
+
+  sortTree(root.children, collection.order, '');
+  return root.children;
+}
+
+// Reading order: a folder's own page, then its contents
+function flattenTree(nodes: CollectionTreeNode[]): CollectionNavItem[] {
+  return nodes.flatMap(node => [...(node.item ? [node.item] : []), ...flattenTree(node.children)]);
+}
+
+class CollectionService {
+  private store: CollectionStore | null = null;
+  private storeVersion: string | null = null;
+  // Bumped on every change, pages of member notes include it in their ETag
+  private generation = 0;
+  private saving: Promise<void> = Promise.resolve();
+
+  async initialize(): Promise<void> {
+    const data = await storageDriver.read(COLLECTIONS_FILE);
+
+    if (data) {
+      this.store = JSON.parse(data.toString('utf-8'));
+      this.storeVersion = (await storageDriver.stat(COLLECTIONS_FILE))?.version || null;
+      logger.info('Collections loaded', { count: Object.keys(this.store!.collections).length });
+    } else {
+      this.store = { collections: {} };
+    }
+  }
+
+  // Pick up collections changed by other instances sharing the same storage
+  async refresh(): Promise<void> {
+    if (!this.store) return;
+
+    const stored = await storageDriver.stat(COLLECTIONS_FILE);
+    if (!stored || stored.version === this.storeVersion) return;
+
+    const data = await storageDriver.read(COLLECTIONS_FILE);
+    if (!data) return;
+
+    this.store = JSON.parse(data.toString('utf-8'));
+    this.storeVersion = stored.version;
+    this.generation++;
+  }
+
+  /**
+   * Apply a change here and to the stored collections, with a conditional write so changes made
+   * by other instances in the meantime aren't lost.
+   */
+  private update(change: (store: CollectionStore) => void): Promise<void> {
+    change(this.store!);
+    this.generation++;
+
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      const saved = await updateJson<CollectionStore>(storageDriver, COLLECTIONS_FILE, (current) => {
+        const store = current || { collections: {} };
+        change(store);
+        return store;
+      });
+
+      this.store = saved.value;
+      this.storeVersion = saved.version;
+      this.generation++;
+    });
+    return this.saving;
+  }
+
+  getGeneration(): number {
+    return this.generation;
+  }
+
+  async listCollections(): Promise<Collection[]> {
+    if (!this.store) await this.initialize();
+
+    return Object.values(this.store!.collections).sort((a, b) => compareNames(a.title, b.title));
+  }
+
+  async getCollection(id: string): Promise<Collection | null> {
+    if (!this.store) await this.initialize();
+
+    return this.store!.collections[id] || null;
+  }
+
+  async findByPathPrefix(pathPrefix: string): Promise<Collection | null> {
+    if (!this.store) await this.initialize();
+
+    return Object.values(this.store!.collections).find(c => c.pathPrefix === pathPrefix) || null;
+  }
+
+  async createCollection(title: string, pathPrefix: string, order: string[], published: boolean): Promise<Collection> {
+    if (!this.store) await this.initialize();
+
+    const now = new Date().toISOString();
+    const collection: Collection = {
+      id: nanoid(12),
+      title,
+      pathPrefix,
+      order,
+      published,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.update((store) => {
+      store.collections[collection.id] = { ...collection };
+    });
+    logger.info('Collection created', { id: collection.id, title, pathPrefix });
+
+    return collection;
+  }
+
+  async updateCollection(id: string, changes: UpdateCollectionRequest & { published?: boolean }): Promise<Collection | null> {
+    if (!this.store) await this.initialize();
+
+    if (!this.store!.collections[id]) return null;
+
+    const updatedAt = new Date().toISOString();
+    await this.update((store) => {
+      const collection = store.collections[id];
+      if (!collection) return;
+
+      if (changes.title !== undefined) collection.title = changes.title;
+      if (changes.order !== undefined) collection.order = changes.order;
+      if (changes.published !== undefined) collection.published = changes.published;
+      collection.updatedAt = updatedAt;
+    });
+
+    // Deleted by another instance meanwhile
+    const collection = this.store!.collections[id] || null;
+    if (collection) logger.info('Collection updated', { id, published: collection.published });
+
+    return collection;
+  }
+
+  async deleteCollection(id: string): Promise<boolean> {
+    if (!this.store) await this.initialize();
+
+    const collection = this.store!.collections[id];
+    if (!collection) return false;
+
+    await this.update((store) => {
+      delete store.collections[id];
+    });
+    logger.info('Collection deleted', { id, pathPrefix: collection.pathPrefix });
+
+    return true;
+  }
+
+  // Collections can nest, a note belongs to the one with the longest matching prefix
+  findForPublication(publication: Publication): Collection | null {
+    if (!this.store || !publication.obsidianPath) return null;
+
+    const notePath = normalizeCollectionPath(publication.obsidianPath);
+    let match: Collection | null = null;
+
+    for (const collection of Object.values(this.store.collections)) {
+      if (notePath.startsWith(`${collection.pathPrefix}/`)
+          && (!match || collection.pathPrefix.length > match.pathPrefix.length)) {
+        match = collection;
+      }
+    }
+
+    return match;
+  }
+
+  // Unpublished collections this path lies in, nested ones included
+  private hasUnpublishedAncestor(path: string): boolean {
+    return Object.values(this.store?.collections || {})
+        .some(collection => !collection.published && path.startsWith(`${collection.pathPrefix}/`));
+  }
+
+  // Notes in an unpublished collection, or in one nested inside it, are treated as if they didn't exist
+  isHidden(publication: Publication): boolean {
+    return !!publication.obsidianPath && this.hasUnpublishedAncestor(normalizeCollectionPath(publication.obsidianPath));
+  }
+
+  // A published collection inside an unpublished one is hidden along with it
+  isCollectionHidden(collection: Collection): boolean {
+    return !collection.published || this.hasUnpublishedAncestor(collection.pathPrefix);
+  }
+
+  getMembers(collection: Collection, publications: Record<string, Publication>): Member[] {
+    return Object.entries(publications)
+        .filter(([, publication]) => this.findForPublication(publication)?.id === collection.id)
+        .map(([hash, publication]) => ({ hash, publication }));
+  }
+
+  /**
+   * Tree and prev/next links for a page of the collection, or its index page when currentHash is null.
+   * Only notes the reader could open are listed, so titles of protected ones stay hidden until unlocked.
+   */
+  getNavigation(
+      collection: Collection,
+      publications: Record<string, Publication>,
+      currentHash: string | null,
+      isVisible: (hash: string, publication: Publication) => boolean
+  ): CollectionNavigation {
+    const members = this.getMembers(collection, publications)
+        .filter(({ hash, publication }) => isVisible(hash, publication));
+    const tree = buildTree(collection, members);
+    const items = flattenTree(tree);
+    const index = currentHash ? items.findIndex(item => item.hash === currentHash) : -1;
+
+    return {
+      title: collection.title,
+      url: `/c/${collection.id}`,
+      tree,
+      currentHash,
+      previous: index > 0 ? items[index - 1] : null,
+      next: index !== -1 && index < items.length - 1 ? items[index + 1] : null,
+    };
+  }
+
+  toCollectionInfo(collection: Collection, publications: Record<string, Publication>): CollectionInfo {
+    const members = this.getMembers(collection, publications);
+    const hashes = flattenTree(buildTree(collection, members)).map(item => item.hash);
+
+    return {
+      ...collection,
+      url: `${config.baseUrl}/c/${collection.id}`,
+      members: hashes.map(hash => toPublicationSummary(hash, publications[hash])),
+    };
+  }
+}
+
+export const collectionService = new CollectionService();
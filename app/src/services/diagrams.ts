@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { marked, Tokens } from 'marked';
+import { instance as vizInstance } from '@viz-js/viz';
+import { config } from '../config';
+import { storageService } from './storage';
+import { logger } from './logger';
+
+export type DiagramLanguage = 'mermaid' | 'dot';
+
+export interface DiagramBlock {
+  language: DiagramLanguage;
+  source: string;
+}
+
+const FENCE_LANGUAGES: Record<string, DiagramLanguage> = {
+  mermaid: 'mermaid',
+  dot: 'dot',
+  graphviz: 'dot',
+};
+
+const CACHE_DIR = path.join('cache', 'diagrams');
+
+// Rendered SVGs kept in memory, the disk cache holds the rest
+const MAX_MEMORY_ENTRIES = 200;
+// Layout time grows quickly with size, larger blocks stay source
+const MAX_SOURCE_LENGTH = 50000;
+
+// Plain SVG text instead of <foreignObject> HTML labels, which the sanitizer strips
+const MERMAID_CONFIG = JSON.stringify({ htmlLabels: false, flowchart: { htmlLabels: false } });
+
+const execFileAsync = promisify(execFile);
+
+export function getDiagramLanguage(fenceLanguage: string | undefined): DiagramLanguage | null {
+  return FENCE_LANGUAGES[(fenceLanguage || '').trim().toLowerCase()] || null;
+}
+
+export function diagramKey(language: DiagramLanguage, source: string): string {
+  return crypto.createHash('sha256').update(`${language}\n${source}`).digest('hex');
+}
+
+// Diagram fences anywhere in the note, lists and callouts included, as marked will hand them to the renderer
+export function findDiagramBlocks(content: string): DiagramBlock[] {
+  const blocks: DiagramBlock[] = [];
+
+  marked.walkTokens(marked.lexer(content), (token) => {
+    if (token.type !== 'code') return;
+
+    const code = token as Tokens.Code;
+    const language = getDiagramLanguage(code.lang);
+    if (language) blocks.push({ language, source: code.text });
+  });
+
+  return blocks;
+}
+
+// Drop the XML declaration and doctype, the SVG is inlined into the page
+function toInlineSvg(output: string): string {
+  const start = output.indexOf('<svg');
+  if (start === -1) throw new Error('Renderer output contains no SVG');
+  return output.slice(start).trim();
+}
+
+class DiagramService {
+  private cachePath: string;
+  private memory = new Map<string, string>();
+  // Blocks that failed this run, shown as source until a restart instead of being retried on every view
+  private failed = new Set<string>();
+  private pending = new Map<string, Promise<string | null>>();
+  // One headless browser at a time
+  private mermaidQueue: Promise<unknown> = Promise.resolve();
+  private viz: ReturnType<typeof vizInstance> | null = null;
+
+  constructor() {
+    this.cachePath = path.join(config.dataDir, CACHE_DIR);
+
+    // Render on publish, so the first reader doesn't wait for it
+    storageService.on('publicationSaved', (hash, publication, content) => {
+      this.renderAll(content).catch(error => logger.warn('Failed to pre-render diagrams', { hash, error }));
+    });
+  }
+
+  async renderAll(content: string): Promise<Map<string, string>> {
+    const diagrams = new Map<string, string>();
+
+    for (const block of findDiagramBlocks(content)) {
+      const key = diagramKey(block.language, block.source);
+      if (diagrams.has(key)) continue;
+
+      const svg = await this.render(block.language, block.source);
+      if (svg) diagrams.set(key, svg);
+    }
+
+    return diagrams;
+  }
+
+  /**
+   * SVG for a diagram, from memory, the disk cache or a fresh render.
+   * Null when it can't be rendered; the page then shows the highlighted source.
+   */
+  async render(language: DiagramLanguage, source: string): Promise<string | null> {
+    const key = diagramKey(language, source);
+
+    const cached = this.memory.get(key);
+    if (cached !== undefined) {
+      // Re-insert to keep recently used entries at the end
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      return cached;
+    }
+
+    if (this.failed.has(key) || source.length > MAX_SOURCE_LENGTH) return null;
+
+    let rendering = this.pending.get(key);
+    if (!rendering) {
+      rendering = this.load(key, language, source).finally(() => this.pending.delete(key));
+      this.pending.set(key, rendering);
+    }
+
+    return rendering;
+  }
+
+  private remember(key: string, svg: string): void {
+    this.memory.set(key, svg);
+    if (this.memory.size > MAX_MEMORY_ENTRIES) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+
+  private async load(key: string, language: DiagramLanguage, source: string): Promise<string | null> {
+    const cacheFile = path.join(this.cachePath, key.slice(0, 2), `${key}.svg`);
+
+    try {
+      const svg = await fs.readFile(cacheFile, 'utf-8');
+      this.remember(key, svg);
+      return svg;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    try {
+      const started = Date.now();
+      const svg = language === 'dot' ? await this.renderDot(source) : await this.renderMermaid(key, source);
+
+      const tempPath = `${cacheFile}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+      await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+      await fs.writeFile(tempPath, svg);
+      await fs.rename(tempPath, cacheFile);
+
+      this.remember(key, svg);
+      logger.debug('Diagram rendered', { language, key, duration: `${Date.now() - started}ms` });
+      return svg;
+    } catch (error) {
+      this.failed.add(key);
+      logger.warn('Diagram rendering failed, showing its source', { language, key, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  private async renderDot(source: string): Promise<string> {
+    if (!this.viz) this.viz = vizInstance();
+
+    const result = (await this.viz).render(source, { format: 'svg' });
+    if (result.status !== 'success') {
+      throw new Error(result.errors.map(error => error.message).join('; ') || 'Graphviz failed');
+    }
+
+    return toInlineSvg(result.output);
+  }
+
+  private async renderMermaid(key: string, source: string): Promise<string> {
+    if (!config.mermaidCommand) throw new Error('MERMAID_COMMAND is not set');
+
+    const run = this.mermaidQueue.then(async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'diagram-'));
+
+      try {
+        const input = path.join(dir, 'input.mmd');
+        const output = path.join(dir, 'output.svg');
+        const configFile = path.join(dir, 'config.json');
+        await fs.writeFile(input, source);
+        await fs.writeFile(configFile, MERMAID_CONFIG);
+
+        // Unique ids, mermaid scopes each diagram's styles to its svg id
+        const args = ['-i', input, '-o', output, '-c', configFile, '--svgId', `mermaid-${key.slice(0, 12)}`, '-q'];
+        if (config.mermaidPuppeteerConfig) args.push('-p', config.mermaidPuppeteerConfig);
+
+        await execFileAsync(config.mermaidCommand, args, { timeout: config.diagramTimeout });
+        return toInlineSvg(await fs.readFile(output, 'utf-8'));
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    // A failure mustn't stall the diagrams queued behind it
+    this.mermaidQueue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const diagramService = new DiagramService();
@@ -0,0 +1,7 @@
+// Thrown by a conditional write when another writer got there first
+export class WriteConflictError extends Error {
+  constructor(public readonly key: string) {
+    super(`${key} was changed by another writer`);
+    this.name = 'WriteConflictError';
+  }
+}
@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import type { StorageDriver, StoredObject, WriteOptions } from './index';
+import { WriteConflictError } from './errors';
+
+// Conditional writes hold a lock file; one older than this was left by a process that died holding it
+const STALE_LOCK_AGE = 30000; // ms
+const LOCK_RETRY_DELAY = 10; // ms
+
+// Indexes with secrets or unpublished content in them, only readable by the app's user whoever writes them
+export const PRIVATE_KEYS = ['tokens.json', 'shares.json', 'collections.json'];
+
+// Every write renames a new file into place, so the inode changes even when mtime and size don't
+function getVersion(stats: { ino: number; mtimeMs: number; size: number }): string {
+  return `${stats.ino}-${stats.mtimeMs}-${stats.size}`;
+}
+
+export class FsDriver implements StorageDriver {
+  readonly name = 'fs';
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.root, ...key.split('/'));
+    if (resolved !== this.root && !resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Storage key outside data directory: ${key}`);
+    }
+    return resolved;
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(key: string, data: Buffer | string, options: WriteOptions = {}): Promise<string> {
+    const filePath = this.resolve(key);
+    // Unique temp names, two writers never share one
+    const tempPath = `${filePath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, data, { mode: PRIVATE_KEYS.includes(key) ? 0o600 : 0o644 });
+
+    if (options.ifMatch === undefined) {
+      await fs.rename(tempPath, filePath);
+      return getVersion(await fs.stat(filePath));
+    }
+
+    try {
+      return await this.withLock(filePath, async () => {
+        const current = await this.stat(key);
+        if ((current?.version ?? null) !== options.ifMatch) {
+          throw new WriteConflictError(key);
+        }
+
+        await fs.rename(tempPath, filePath);
+        return getVersion(await fs.stat(filePath));
+      });
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  // Other processes may share the data directory, so the lock is a file rather than a promise
+  private async withLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${filePath}.lock`;
+
+    for (;;) {
+      try {
+        await (await fs.open(lockPath, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const lock = await fs.stat(lockPath).catch(() => null);
+      if (lock && Date.now() - lock.mtimeMs > STALE_LOCK_AGE) {
+        await fs.rm(lockPath, { force: true });
+      } else {
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY));
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  async writeFile(key: string, sourcePath: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    try {
+      await fs.rename(sourcePath, filePath);
+    } catch (error) {
+      // Temp dir on another filesystem
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+      await fs.copyFile(sourcePath, filePath);
+      await fs.rm(sourcePath, { force: true });
+    }
+  }
+
+  async copy(sourceKey: string, targetKey: string): Promise<void> {
+    const source = this.resolve(sourceKey);
+    const target = this.resolve(targetKey);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Files are replaced via rename and removed via unlink, so a hard link keeps the old bytes
+    try {
+      await fs.rm(target, { force: true });
+      await fs.link(source, target);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw error;
+      await fs.copyFile(source, target);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+
+    const walk = async (dir: string, keyPrefix: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+        throw error;
+      }
+
+      for (const entry of entries) {
+        const key = keyPrefix ? `${keyPrefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), key);
+        } else if (entry.isFile() && !entry.name.endsWith('.lock')) {
+          keys.push(key);
+        }
+      }
+    };
+
+    const base = prefix.replace(/\/+$/, '');
+    await walk(this.resolve(base), base);
+    return keys;
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const stats = await fs.stat(this.resolve(key));
+      return { size: stats.size, version: getVersion(stats) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async openReadStream(key: string, range?: { start: number; end: number }): Promise<Readable | null> {
+    // Opened here rather than on the first read, so callers can still answer 404
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.resolve(key), 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+    return handle.createReadStream(range);
+  }
+}
@@ -0,0 +1,102 @@
+import { Readable } from 'stream';
+import { config } from '../../config';
+import { FsDriver } from './fs';
+import { S3Driver } from './s3';
+import { WriteConflictError } from './errors';
+
+export { WriteConflictError };
+
+export interface StoredObject {
+  size: number;
+  // Changes whenever the object is rewritten (mtime on disk, ETag on S3)
+  version: string;
+}
+
+export interface WriteOptions {
+  contentType?: string;
+  // Only write while the object is still at this version, or doesn't exist yet when null
+  ifMatch?: string | null;
+}
+
+
+/**
+ * Flat key-value view of the data directory. Keys are slash-separated paths such as
+ * "publications/<hash>/content.md"; the filesystem driver maps them to files under DATA_DIR.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  read(key: string): Promise<Buffer | null>;
+  // Replaces the object atomically, readers never see a partial write. Resolves to the new version
+  write(key: string, data: Buffer | string, options?: WriteOptions): Promise<string>;
+  // Moves a local temp file into the store
+  writeFile(key: string, sourcePath: string, options?: WriteOptions): Promise<void>;
+  copy(sourceKey: string, targetKey: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  deletePrefix(prefix: string): Promise<void>;
+  // Every key under prefix, recursively
+  list(prefix: string): Promise<string[]>;
+  stat(key: string): Promise<StoredObject | null>;
+  // Inclusive byte range, like HTTP Range; null when the key doesn't exist
+  openReadStream(key: string, range?: { start: number; end: number }): Promise<Readable | null>;
+}
+
+export type StorageDriverName = 'fs' | 's3';
+
+export const STORAGE_DRIVERS: StorageDriverName[] = ['fs', 's3'];
+
+export function createStorageDriver(name: StorageDriverName, dataDir = config.dataDir): StorageDriver {
+  switch (name) {
+    case 's3':
+      return new S3Driver(config.s3);
+    case 'fs':
+      return new FsDriver(dataDir);
+    default:
+      throw new Error(`Unknown storage driver: ${name}. Allowed: ${STORAGE_DRIVERS.join(', ')}`);
+  }
+}
+
+// Conflicting writers are spread out a little, so they don't keep colliding
+const MAX_UPDATE_ATTEMPTS = 20;
+const UPDATE_RETRY_DELAY = 50; // ms
+
+export interface JsonUpdate<T> {
+  value: T;
+  version: string;
+  // Version the change was applied to, null when the object was created
+  base: string | null;
+}
+
+/**
+ * Read-modify-write of a JSON object that every instance writes to. The write only lands if nobody else
+ * wrote the object in between; otherwise update runs again on what they wrote, so neither change is lost.
+ * update gets null when there is no object yet. It may run several times, so it must only change the value.
+ */
+export async function updateJson<T>(
+    driver: StorageDriver,
+    key: string,
+    update: (current: T | null) => T,
+    options: WriteOptions & { parse?: (data: Buffer) => T } = {}
+): Promise<JsonUpdate<T>> {
+  const { parse = (data: Buffer) => JSON.parse(data.toString('utf-8')) as T, ...writeOptions } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    // Version first: if the object changes before it's read, the write below fails and starts over
+    const stored = await driver.stat(key);
+    const data = stored ? await driver.read(key) : null;
+    const value = update(data ? parse(data) : null);
+
+    try {
+      const version = await driver.write(key, JSON.stringify(value, null, 2), {
+        contentType: 'application/json',
+        ...writeOptions,
+        ifMatch: stored?.version ?? null,
+      });
+      return { value, version, base: stored?.version ?? null };
+    } catch (error) {
+      if (!(error instanceof WriteConflictError) || attempt >= MAX_UPDATE_ATTEMPTS) throw error;
+      await new Promise(resolve => setTimeout(resolve, UPDATE_RETRY_DELAY * Math.random() * attempt));
+    }
+  }
+}
+
+export const storageDriver = createStorageDriver(config.storageDriver as StorageDriverName);
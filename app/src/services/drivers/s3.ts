@@ -0,0 +1,179 @@
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import { Readable } from 'stream';
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import type { StorageDriver, StoredObject, WriteOptions } from './index';
+import { WriteConflictError } from './errors';
+
+export interface S3DriverOptions {
+  bucket: string;
+  region: string;
+  // Set for MinIO and other S3-compatible services
+  endpoint?: string;
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Lets several deployments share one bucket
+  prefix: string;
+}
+
+// DeleteObjects accepts at most this many keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+function isNotFound(error: unknown): boolean {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return name === 'NoSuchKey' || name === 'NotFound' || $metadata?.httpStatusCode === 404;
+}
+
+// 412 when the condition didn't hold, 409 when another conditional write to the key was in progress
+function isConflict(error: unknown): boolean {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return name === 'PreconditionFailed' || name === 'ConditionalRequestConflict'
+      || $metadata?.httpStatusCode === 412 || $metadata?.httpStatusCode === 409;
+}
+
+export class S3Driver implements StorageDriver {
+  readonly name = 's3';
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+
+  constructor(options: S3DriverOptions) {
+    if (!options.bucket) {
+      throw new Error('S3_BUCKET is required for the s3 storage driver');
+    }
+
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ? `${options.prefix.replace(/\/+$/, '')}/` : '';
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  private toObjectKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.toObjectKey(key) }));
+      return Buffer.from(await response.Body!.transformToByteArray());
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  // PUT replaces the object as a whole, so it's atomic without temp keys; conditions use S3's If-Match/If-None-Match
+  async write(key: string, data: Buffer | string, options: WriteOptions = {}): Promise<string> {
+    try {
+      const response = await this.client.send(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toObjectKey(key),
+        Body: data,
+        ContentType: options.contentType,
+        IfMatch: options.ifMatch ?? undefined,
+        IfNoneMatch: options.ifMatch === null ? '*' : undefined,
+      }));
+      return response.ETag || '';
+    } catch (error) {
+      if (options.ifMatch !== undefined && isConflict(error)) throw new WriteConflictError(key);
+      throw error;
+    }
+  }
+
+  async writeFile(key: string, sourcePath: string, options: WriteOptions = {}): Promise<void> {
+    const { size } = await fs.stat(sourcePath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.toObjectKey(key),
+      Body: createReadStream(sourcePath),
+      ContentLength: size,
+      ContentType: options.contentType,
+    }));
+    await fs.rm(sourcePath, { force: true });
+  }
+
+  async copy(sourceKey: string, targetKey: string): Promise<void> {
+    await this.client.send(new CopyObjectCommand({
+      Bucket: this.bucket,
+      CopySource: `${this.bucket}/${encodeURIComponent(this.toObjectKey(sourceKey)).replace(/%2F/g, '/')}`,
+      Key: this.toObjectKey(targetKey),
+    }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.toObjectKey(key) }));
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    const keys = await this.list(prefix);
+
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      await this.client.send(new DeleteObjectsCommand({
+        Bucket: this.bucket,
+        Delete: { Objects: keys.slice(i, i + DELETE_BATCH_SIZE).map(key => ({ Key: this.toObjectKey(key) })), Quiet: true },
+      }));
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const base = prefix.replace(/\/+$/, '');
+    const objectPrefix = this.toObjectKey(base ? `${base}/` : '');
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: objectPrefix,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of response.Contents || []) {
+        if (object.Key) keys.push(object.Key.slice(this.prefix.length));
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return keys;
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.toObjectKey(key) }));
+      return { size: response.ContentLength || 0, version: response.ETag || '' };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async openReadStream(key: string, range?: { start: number; end: number }): Promise<Readable | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toObjectKey(key),
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      return response.Body as Readable;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+}
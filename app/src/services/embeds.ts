@@ -0,0 +1,215 @@
+import path from 'path';
+import { TokenizerAndRendererExtension, Tokens } from 'marked';
+import { NoteResolver, Wikilink, getWikilinkHref, headingSlug, parseWikilink } from './wikilinks';
+import { getAttachmentKind, isAttachment } from './attachments';
+
+// Maps an embedded file name to its URL, null when it wasn't uploaded
+export type AttachmentResolver = (name: string) => string | null;
+
+// Responsive variants of an uploaded image, null when it can't be resized
+export type ImageSetResolver = (name: string) => ImageSet | null;
+
+export interface ImageSet {
+  src: string;
+  srcset: string | null;
+  width: number;
+  height: number;
+}
+
+export interface EmbedSources {
+  resolveNote?: NoteResolver;
+  resolveAttachment?: AttachmentResolver;
+  resolveImageSet?: ImageSetResolver;
+  // Pre-rendered bodies of embedded notes, keyed by embedKey()
+  embeds?: Map<string, string>;
+}
+
+interface EmbedToken extends Tokens.Generic {
+  type: 'embed' | 'embedBlock';
+  raw: string;
+  link: Wikilink;
+  width: string | null;
+  height: string | null;
+}
+
+// Matches the 800px content column of the page template
+const IMAGE_SIZES = '(max-width: 800px) 100vw, 800px';
+
+export const EMBED_PATTERN = /!\[\[([^[\]\n]+?)\]\]/g;
+
+export function embedKey(link: Wikilink): string {
+  return `${link.target.toLowerCase()}#${(link.heading || '').toLowerCase()}`;
+}
+
+// Obsidian sizes image and video embeds with a trailing "|300" or "|300x200"
+function parseEmbed(inner: string): Pick<EmbedToken, 'link' | 'width' | 'height'> {
+  const link = parseWikilink(inner);
+  const size = link.alias ? /^(\d+)(?:x(\d+))?$/.exec(link.alias) : null;
+
+  if (!size) {
+    return { link, width: null, height: null };
+  }
+
+  return {
+    link: { ...link, alias: null },
+    width: size[1],
+    height: size[2] || null,
+  };
+}
+
+// Attributes for <img>: srcset and intrinsic size when known, lazy loading always
+export function imageAttributes(
+    set: ImageSet | null,
+    size: { width: string | null; height: string | null },
+    escapeHtml: (text: string) => string
+): string {
+  let attributes = '';
+
+  if (set?.srcset) {
+    attributes += ` srcset="${escapeHtml(set.srcset)}" sizes="${size.width ? `${size.width}px` : IMAGE_SIZES}"`;
+  }
+
+  if (size.width) {
+    attributes += ` width="${size.width}"`;
+    if (size.height) attributes += ` height="${size.height}"`;
+  } else if (set) {
+    attributes += ` width="${set.width}" height="${set.height}"`;
+  }
+
+  return `${attributes} loading="lazy" decoding="async"`;
+}
+
+// Extract the section under a heading, up to the next heading of the same or higher level
+export function extractSection(content: string, heading: string): string | null {
+  const lines = content.split('\n');
+  const slug = headingSlug(heading);
+  let start = -1;
+  let level = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(lines[i]);
+    if (!match) continue;
+
+    if (start === -1) {
+      if (headingSlug(match[2]) === slug) {
+        start = i;
+        level = match[1].length;
+      }
+    } else if (match[1].length <= level) {
+      return lines.slice(start, i).join('\n');
+    }
+  }
+
+  return start === -1 ? null : lines.slice(start).join('\n');
+}
+
+export function embedExtensions(
+    getSources: () => EmbedSources,
+    escapeHtml: (text: string) => string
+): TokenizerAndRendererExtension[] {
+  const renderAttachment = (token: EmbedToken, sources: EmbedSources): string => {
+    const { link } = token;
+    const src = sources.resolveAttachment ? sources.resolveAttachment(link.target) : null;
+    const name = escapeHtml(link.alias || path.basename(link.target));
+
+    if (!src) {
+      return `<span class="embed is-unresolved" title="File not found">${escapeHtml(link.target)}</span>`;
+    }
+
+    const width = token.width ? ` width="${token.width}"` : '';
+    const height = token.height ? ` height="${token.height}"` : '';
+
+    switch (getAttachmentKind(link.target)) {
+      case 'image': {
+        const set = sources.resolveImageSet ? sources.resolveImageSet(link.target) : null;
+        return `<img src="${escapeHtml(src)}" alt="${name}"${imageAttributes(set, token, escapeHtml)}>`;
+      }
+      case 'pdf': {
+        // ![[file.pdf#page=3]] opens the viewer at that page, ![[file.pdf#height=400]] sizes it
+        const page = link.heading && /^page=\d+$/.test(link.heading) ? `#${link.heading}` : '';
+        const pdfHeight = link.heading && /^height=\d+$/.test(link.heading) ? ` style="height: ${link.heading.slice(7)}px"` : '';
+        return `<iframe class="embed-pdf" src="${escapeHtml(src + page)}" title="${name}" loading="lazy"${pdfHeight}></iframe>`;
+      }
+      case 'audio':
+        return `<audio class="embed-audio" src="${escapeHtml(src)}" controls preload="metadata" title="${name}"></audio>`;
+      case 'video':
+        return `<video class="embed-video" src="${escapeHtml(src)}" controls preload="metadata" title="${name}"${width}${height}></video>`;
+      default:
+        return `<a class="embed-file" href="${escapeHtml(src)}" download>${name}</a>`;
+    }
+  };
+
+  const renderEmbed = (token: EmbedToken): string => {
+    const { link } = token;
+    const sources = getSources();
+
+    if (isAttachment(link.target)) {
+      return renderAttachment(token, sources);
+    }
+
+    const note = link.target && sources.resolveNote ? sources.resolveNote(link.target) : null;
+    const href = getWikilinkHref(link, note);
+    const body = sources.embeds?.get(embedKey(link));
+    const label = escapeHtml(link.alias || link.target);
+
+    if (!href) {
+      return `<span class="embed is-unresolved" title="Not published">${label}</span>`;
+    }
+
+    if (!body) {
+      // Protected, too deeply nested or cyclic embeds degrade to a plain link
+      return `<a href="${escapeHtml(href)}" class="internal-link">${label}</a>`;
+    }
+
+    return `<div class="markdown-embed">
+<div class="markdown-embed-title"><a href="${escapeHtml(href)}" class="internal-link">${escapeHtml(note?.title || link.target)}</a></div>
+<div class="markdown-embed-content">${body}</div>
+</div>`;
+  };
+
+  return [
+    {
+      // Note embeds on a line of their own render as a block instead of inside a <p>
+      name: 'embedBlock',
+      level: 'block',
+      start(src: string) {
+        const pattern = /^!\[\[([^[\]\n]+?)\]\]/gm;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(src)) !== null) {
+          if (!isAttachment(parseEmbed(match[1]).link.target)) return match.index;
+        }
+        return undefined;
+      },
+      tokenizer(src: string): EmbedToken | undefined {
+        const match = /^!\[\[([^[\]\n]+?)\]\][ \t]*(?:\n+|$)/.exec(src);
+        if (!match) return undefined;
+
+        const embed = parseEmbed(match[1]);
+        if (isAttachment(embed.link.target)) return undefined;
+
+        return { type: 'embedBlock', raw: match[0], ...embed };
+      },
+      renderer(token: Tokens.Generic) {
+        const html = renderEmbed(token as EmbedToken);
+        return html.startsWith('<div') ? `${html}\n` : `<p>${html}</p>\n`;
+      },
+    },
+    {
+      name: 'embed',
+      level: 'inline',
+      start(src: string) {
+        const index = src.indexOf('![[');
+        return index === -1 ? undefined : index;
+      },
+      tokenizer(src: string): EmbedToken | undefined {
+        const match = /^!\[\[([^[\]\n]+?)\]\]/.exec(src);
+        if (!match) return undefined;
+
+        return { type: 'embed', raw: match[0], ...parseEmbed(match[1]) };
+      },
+      renderer(token: Tokens.Generic) {
+        return renderEmbed(token as EmbedToken);
+      },
+    },
+  ];
+}
@@ -0,0 +1,65 @@
+import { Publication } from '../models/publication';
+import { storageService, getPublicationEtag, PreconditionFailedError } from './storage';
+import { viewCounter } from './views';
+import { tombstoneService } from './tombstones';
+import { logger } from './logger';
+
+export type ExpiryReason = 'expired' | 'view-limit';
+
+// Why a publication is no longer served, null while it still is
+export function getExpiryReason(publication: Publication, views: number, now = Date.now()): ExpiryReason | null {
+  if (publication.expiresAt && new Date(publication.expiresAt).getTime() <= now) {
+    return 'expired';
+  }
+  if (publication.maxViews && views >= publication.maxViews) {
+    return 'view-limit';
+  }
+  return null;
+}
+
+class ExpirySweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(interval: number): void {
+    if (this.timer || interval <= 0) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => logger.error('Failed to sweep expired publications', { error }));
+    }, interval);
+    this.timer.unref();
+  }
+
+  // Delete every publication past its expiry or view limit, returns how many were deleted
+  async sweep(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      const publications = await storageService.getAllPublications();
+      let deleted = 0;
+
+      for (const [hash, publication] of Object.entries(publications)) {
+        const reason = getExpiryReason(publication, viewCounter.get(hash));
+        if (!reason) continue;
+
+        // If-Match keeps an update that extended the limits meanwhile; another instance may also have got to it first
+        try {
+          if (await storageService.deletePublication(hash, getPublicationEtag(publication))) {
+            await tombstoneService.add(hash, reason, publication.slug);
+            deleted++;
+            logger.info('Expired publication deleted', { hash, reason });
+          }
+        } catch (error) {
+          if (!(error instanceof PreconditionFailedError)) throw error;
+        }
+      }
+
+      return deleted;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const expirySweeper = new ExpirySweeper();
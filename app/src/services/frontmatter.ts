@@ -0,0 +1,130 @@
+import { parse, parseDocument } from 'yaml';
+import { logger } from './logger';
+import { TocMode } from '../models/publication';
+
+export interface Frontmatter {
+  data: Record<string, unknown>;
+  body: string;
+}
+
+export interface FrontmatterOptions {
+  title?: string;
+  description?: string;
+  tags?: string[];
+  aliases?: string[];
+  date?: string;
+  slug?: string;
+  password?: string;
+  showProperties: boolean;
+  toc?: TocMode;
+}
+
+const FRONTMATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+// Keys prefixed with publish_ control the server and are never shown to readers
+export const PUBLISH_OPTION_PREFIX = 'publish_';
+
+const PASSWORD_OPTION = `${PUBLISH_OPTION_PREFIX}password`;
+
+export function parseFrontmatter(content: string): Frontmatter {
+  const match = FRONTMATTER_PATTERN.exec(content);
+  if (!match) {
+    return { data: {}, body: content };
+  }
+
+  const body = content.slice(match[0].length);
+
+  try {
+    const data = parse(match[1] || '');
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { data: {}, body };
+    }
+    return { data: data as Record<string, unknown>, body };
+  } catch (error) {
+    logger.warn('Invalid frontmatter', { error: (error as Error).message });
+    return { data: {}, body };
+  }
+}
+
+function getString(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim().length > 0) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+// Obsidian accepts both "tags: a, b" and a YAML list
+function getStringList(value: unknown): string[] | undefined {
+  const items = Array.isArray(value)
+      ? value.map(getString)
+      : (getString(value) || '').split(',');
+
+  const list = items
+      .filter((item): item is string => !!item)
+      .map(item => item.trim())
+      .filter(item => item.length > 0);
+
+  return list.length > 0 ? list : undefined;
+}
+
+// publish_toc: true, false or sticky
+function getTocMode(value: unknown): TocMode | undefined {
+  if (value === true) return 'on';
+  if (value === false) return 'off';
+  return value === 'sticky' ? 'sticky' : undefined;
+}
+
+function getDate(value: unknown): string | undefined {
+  const date = value instanceof Date ? value : new Date(getString(value) || NaN);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function getFrontmatterOptions(data: Record<string, unknown>): FrontmatterOptions {
+  return {
+    title: getString(data.title),
+    description: getString(data.description),
+    tags: getStringList(data.tags ?? data.tag)?.map(tag => tag.replace(/^#/, '')),
+    aliases: getStringList(data.aliases ?? data.alias),
+    date: getDate(data.date ?? data.created),
+    slug: getString(data.slug),
+    password: getString(data[PASSWORD_OPTION]),
+    showProperties: data[`${PUBLISH_OPTION_PREFIX}properties`] === true,
+    toc: getTocMode(data[`${PUBLISH_OPTION_PREFIX}toc`]),
+  };
+}
+
+function isWithoutPassword(yaml: string): boolean {
+  try {
+    const data = parse(yaml) ?? {};
+    return typeof data === 'object' && !(PASSWORD_OPTION in data);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * The note without its publish_password, which is only hashed into the record. Stored content ends up in
+ * revisions and raw downloads, so the plaintext must not; content without the key is returned as it was.
+ */
+export function removePassword(content: string): string {
+  const match = FRONTMATTER_PATTERN.exec(content);
+  if (!match || !match[1] || !(PASSWORD_OPTION in parseFrontmatter(content).data)) return content;
+
+  const opening = match[0].slice(0, match[0].indexOf('\n') + 1);
+  const newline = opening.endsWith('\r\n') ? '\r\n' : '\n';
+
+  // Drop the key's line and any indented lines continuing its value, leaving the rest as written
+  const lines = match[1].split(/\r?\n/);
+  const start = lines.findIndex(line => new RegExp(`^["']?${PASSWORD_OPTION}["']?\\s*:`).test(line));
+  let end = start + 1;
+  while (end < lines.length && /^[ \t]/.test(lines[end])) end++;
+
+  let yaml = [...lines.slice(0, start), ...lines.slice(end)].join(newline);
+  if (start < 0 || !isWithoutPassword(yaml)) {
+    // Written some other way, re-serialized without it
+    const document = parseDocument(match[1]);
+    document.delete(PASSWORD_OPTION);
+    yaml = document.toString().trimEnd();
+  }
+
+  return `${opening}${yaml ? `${yaml}${newline}` : ''}---${newline}${content.slice(match[0].length)}`;
+}
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { config } from '../config';
+import { Publication } from '../models/publication';
+import { blobStore, computeDigest } from './blobs';
+import { getMimeType } from './attachments';
+import { storageService } from './storage';
+import { logger } from './logger';
+
+export type ImageFormat = 'avif' | 'webp' | 'jpeg' | 'png';
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface ImageVariant {
+  data: Buffer;
+  mimeType: string;
+}
+
+const CACHE_DIR = path.join('cache', 'images');
+
+// SVG and GIF (often animated) are served as uploaded
+const OPTIMIZABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/avif'];
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+class ImageService {
+  private cachePath: string;
+  private dimensions = new Map<string, ImageDimensions>();
+  private pending = new Map<string, Promise<Buffer>>();
+
+  constructor() {
+    this.cachePath = path.join(config.dataDir, CACHE_DIR);
+  }
+
+  // Drop variants of blobs that no longer exist; images without a blob get regenerated on demand
+  async initialize(): Promise<void> {
+    let removed = 0;
+
+    try {
+      for (const prefix of await fs.readdir(this.cachePath)) {
+        for (const key of await fs.readdir(path.join(this.cachePath, prefix))) {
+          if (blobStore.has(key)) continue;
+          await fs.rm(path.join(this.cachePath, prefix, key), { recursive: true, force: true });
+          removed++;
+        }
+        // Only succeeds once the prefix directory is empty
+        await fs.rmdir(path.join(this.cachePath, prefix)).catch(() => undefined);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    if (removed > 0) {
+      logger.info('Stale image variants pruned', { removed });
+    }
+  }
+
+  isOptimizable(filename: string): boolean {
+    return config.imageOptimization && OPTIMIZABLE_TYPES.includes(getMimeType(filename));
+  }
+
+  // Widths are limited to the configured ones so the cache can't be filled with arbitrary sizes
+  parseWidth(value: unknown): number | null {
+    const width = typeof value === 'string' ? parseInt(value, 10) : NaN;
+    return config.imageVariantWidths.includes(width) ? width : null;
+  }
+
+  // Only formats the client names explicitly, since browsers send */* for images they can't decode
+  negotiateFormat(accept: string | undefined, filename: string): ImageFormat {
+    const accepted = (accept || '').toLowerCase();
+    if (accepted.includes('image/avif')) return 'avif';
+    if (accepted.includes('image/webp')) return 'webp';
+    return getMimeType(filename) === 'image/png' ? 'png' : 'jpeg';
+  }
+
+  private async getSource(
+      hash: string,
+      publication: Publication,
+      filename: string
+  ): Promise<{ key: string; load: () => Promise<Buffer | null> } | null> {
+    const load = async () => (await storageService.getImage(hash, filename))?.data || null;
+
+    const digest = publication.blobs?.[filename];
+    if (digest) {
+      return { key: digest, load };
+    }
+
+    // Images stored before the blob store have no digest to key the cache by
+    const data = await load();
+    return data ? { key: computeDigest(data), load: async () => data } : null;
+  }
+
+  private getCacheFile(key: string, name: string): string {
+    return path.join(this.cachePath, key.slice(0, 2), key, name);
+  }
+
+  private async writeCacheFile(filePath: string, data: Buffer | string): Promise<void> {
+    const tempPath = `${filePath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  }
+
+  // Size after EXIF orientation is applied, for srcset descriptors and width/height attributes
+  async getDimensions(hash: string, publication: Publication, filename: string): Promise<ImageDimensions | null> {
+    if (!this.isOptimizable(filename)) return null;
+
+    const memoKey = publication.blobs?.[filename] || `${hash}/${filename}@${publication.updatedAt}`;
+    const known = this.dimensions.get(memoKey);
+    if (known) return known;
+
+    try {
+      const source = await this.getSource(hash, publication, filename);
+      if (!source) return null;
+
+      const metaPath = this.getCacheFile(source.key, 'meta.json');
+      let dimensions: ImageDimensions;
+
+      try {
+        dimensions = JSON.parse(await fs.readFile(metaPath, 'utf-8'));
+      } catch (error) {
+        const data = await source.load();
+        if (!data) return null;
+
+        const metadata = await sharp(data).metadata();
+        if (!metadata.width || !metadata.height) return null;
+
+        const rotated = (metadata.orientation || 1) >= 5;
+        dimensions = rotated
+          ? { width: metadata.height, height: metadata.width }
+          : { width: metadata.width, height: metadata.height };
+        await this.writeCacheFile(metaPath, JSON.stringify(dimensions));
+      }
+
+      this.dimensions.set(memoKey, dimensions);
+      return dimensions;
+    } catch (error) {
+      logger.warn('Failed to read image dimensions', { hash, filename, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  /**
+   * Re-encoded image, resized to width when given. Output never carries EXIF/GPS metadata,
+   * which is why originals go through here too. Variants are cached on disk by source digest.
+   */
+  async getVariant(
+      hash: string,
+      publication: Publication,
+      filename: string,
+      width: number | null,
+      format: ImageFormat
+  ): Promise<ImageVariant | null> {
+    const source = await this.getSource(hash, publication, filename);
+    if (!source) return null;
+
+    const variantPath = this.getCacheFile(source.key, `${width || 'full'}.${format}`);
+    const mimeType = MIME_TYPES[format];
+
+    try {
+      return { data: await fs.readFile(variantPath), mimeType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    // Concurrent requests for a variant that isn't cached yet share one encode
+    let encoding = this.pending.get(variantPath);
+    if (!encoding) {
+      encoding = this.encode(source.load, width, format, variantPath)
+        .finally(() => this.pending.delete(variantPath));
+      this.pending.set(variantPath, encoding);
+    }
+
+    const data = await encoding;
+    return data.length > 0 ? { data, mimeType } : null;
+  }
+
+  private async encode(
+      load: () => Promise<Buffer | null>,
+      width: number | null,
+      format: ImageFormat,
+      variantPath: string
+  ): Promise<Buffer> {
+    const source = await load();
+    if (!source) return Buffer.alloc(0);
+
+    // rotate() applies the EXIF orientation before the metadata is dropped
+    let pipeline = sharp(source).rotate();
+    if (width) {
+      pipeline = pipeline.resize({ width, withoutEnlargement: true });
+    }
+
+    switch (format) {
+      case 'avif':
+        pipeline = pipeline.avif({ quality: 50 });
+        break;
+      case 'webp':
+        pipeline = pipeline.webp({ quality: 80 });
+        break;
+      case 'png':
+        pipeline = pipeline.png({ compressionLevel: 9 });
+        break;
+      default:
+        pipeline = pipeline.jpeg({ quality: 80, mozjpeg: true });
+    }
+
+    const data = await pipeline.toBuffer();
+    await this.writeCacheFile(variantPath, data);
+    logger.debug('Image variant generated', { variant: variantPath, size: data.length });
+
+    return data;
+  }
+}
+
+export const imageService = new ImageService();
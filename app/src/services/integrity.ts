@@ -0,0 +1,235 @@
+import { isDeepStrictEqual } from 'util';
+import { Publication } from '../models/publication';
+import { BLOBS_DIR, DIGEST_PATTERN, blobStore } from './blobs';
+import { storageDriver } from './drivers';
+import { metadataStore } from './metadata';
+import {
+  PUBLICATIONS_DIR,
+  RECORD_FILE,
+  REVISIONS_DIR,
+  getImageKey,
+  getRevisionKey,
+  storageService,
+} from './storage';
+
+export type IntegrityIssueType =
+  | 'missing-content'
+  | 'missing-record'
+  | 'invalid-record'
+  | 'record-mismatch'
+  | 'unindexed'
+  | 'orphaned-files'
+  | 'missing-attachment'
+  | 'stray-file'
+  | 'missing-blob'
+  | 'untracked-blob'
+  | 'blob-refs';
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  // Publication hash or blob digest
+  subject: string;
+  message: string;
+  // Whether it can be settled from what's stored; content and attachment bytes can't be brought back
+  repairable: boolean;
+}
+
+export interface IntegrityReport {
+  publications: number;
+  blobs: number;
+  issues: IntegrityIssue[];
+}
+
+interface StoredFiles {
+  content: boolean;
+  record: boolean;
+  images: Set<string>;
+  revisions: Set<number>;
+}
+
+// JSON round trip, the stored copies never have undefined fields
+function normalize(publication: Publication): Publication {
+  return JSON.parse(JSON.stringify(publication));
+}
+
+function isNewer(a: Publication, b: Publication): boolean {
+  const revisionA = a.revision || 1;
+  const revisionB = b.revision || 1;
+  return revisionA !== revisionB ? revisionA > revisionB : a.updatedAt > b.updatedAt;
+}
+
+async function listStoredFiles(): Promise<Map<string, StoredFiles>> {
+  const stored = new Map<string, StoredFiles>();
+
+  for (const key of await storageDriver.list(PUBLICATIONS_DIR)) {
+    const [, hash, name, ...rest] = key.split('/');
+    if (!hash || !name) continue;
+
+    let files = stored.get(hash);
+    if (!files) {
+      files = { content: false, record: false, images: new Set(), revisions: new Set() };
+      stored.set(hash, files);
+    }
+
+    if (rest.length === 0) {
+      if (name === 'content.md') files.content = true;
+      if (name === RECORD_FILE) files.record = true;
+    } else if (name === 'images' && rest.length === 1) {
+      files.images.add(rest[0]);
+    } else if (name === REVISIONS_DIR) {
+      const revision = parseInt(rest[0], 10);
+      if (!isNaN(revision)) files.revisions.add(revision);
+    }
+  }
+
+  return stored;
+}
+
+async function listBlobFiles(): Promise<Map<string, string>> {
+  const blobs = new Map<string, string>();
+
+  for (const key of await storageDriver.list(BLOBS_DIR)) {
+    const digest = key.slice(key.lastIndexOf('/') + 1);
+    if (DIGEST_PATTERN.test(digest)) blobs.set(digest, key);
+  }
+
+  return blobs;
+}
+
+/**
+ * Compare the index with the publication.json sidecars, attachment files and blob reference counts.
+ * With repair, whatever can be settled from the stored files is fixed: the newer of index entry and
+ * sidecar wins, unreferenced legacy images are deleted and blob counts are recomputed. Repairs assume
+ * no server is writing to the same storage meanwhile.
+ */
+export async function checkIntegrity(options: { repair: boolean }): Promise<IntegrityReport> {
+  const { repair } = options;
+  const issues: IntegrityIssue[] = [];
+  const report = (type: IntegrityIssueType, subject: string, message: string, repairable = false) => {
+    issues.push({ type, subject, message, repairable });
+  };
+
+  const indexed = metadataStore.getAll();
+  const stored = await listStoredFiles();
+  const blobFiles = await listBlobFiles();
+
+  // Every publication and revision record holds one reference per attachment
+  const expectedRefs: Record<string, number> = {};
+  const countRefs = (publication: Publication) => {
+    for (const digest of Object.values(publication.blobs || {})) {
+      expectedRefs[digest] = (expectedRefs[digest] || 0) + 1;
+    }
+  };
+
+  for (const hash of new Set([...Object.keys(indexed), ...stored.keys()])) {
+    const files = stored.get(hash) || { content: false, record: false, images: new Set<string>(), revisions: new Set<number>() };
+    const entry = indexed[hash] ? normalize(indexed[hash]) : null;
+
+    let sidecar: Publication | null = null;
+    if (files.record) {
+      try {
+        sidecar = await storageService.readRecord(hash);
+      } catch (error) {
+        report('invalid-record', hash, `${RECORD_FILE} is unreadable: ${(error as Error).message}`, !!entry);
+        if (repair && entry) await storageService.writeRecord(hash, entry);
+      }
+    }
+
+    let record: Publication | null = entry;
+
+    if (entry && !files.record) {
+      report('missing-record', hash, `Indexed but has no ${RECORD_FILE}`, true);
+      if (repair) await storageService.writeRecord(hash, entry);
+    } else if (entry && sidecar && !isDeepStrictEqual(entry, sidecar)) {
+      const sidecarIsNewer = isNewer(sidecar, entry);
+      report('record-mismatch', hash, `Index and ${RECORD_FILE} disagree, the ${sidecarIsNewer ? RECORD_FILE : 'index'} copy is newer`, true);
+
+      if (sidecarIsNewer) {
+        record = sidecar;
+        if (repair) await metadataStore.put(hash, sidecar);
+      } else if (repair) {
+        await storageService.writeRecord(hash, entry);
+      }
+    } else if (!entry && sidecar && files.content) {
+      report('unindexed', hash, `Has content.md and ${RECORD_FILE} but no index entry`, true);
+      record = sidecar;
+      if (repair) await metadataStore.put(hash, sidecar);
+    } else if (!entry) {
+      report('orphaned-files', hash, `Files without an index entry ${sidecar ? 'or content.md' : `or ${RECORD_FILE}`}`);
+    }
+
+    if (entry && !files.content) {
+      report('missing-content', hash, 'Indexed but content.md is missing');
+    }
+
+    if (record) {
+      countRefs(record);
+
+      const legacyImages = (record.images || []).filter(image => !record!.blobs?.[image]);
+      for (const image of legacyImages) {
+        if (!files.images.has(image)) report('missing-attachment', hash, `images/${image} is missing`);
+      }
+
+      for (const [filename, digest] of Object.entries(record.blobs || {})) {
+        if (!blobFiles.has(digest)) report('missing-attachment', hash, `${filename} (blob ${digest}) is missing`);
+      }
+
+      for (const image of files.images) {
+        if (legacyImages.includes(image)) continue;
+
+        report('stray-file', hash, `images/${image} is not referenced`, true);
+        if (repair) await storageDriver.delete(getImageKey(hash, image));
+      }
+    }
+
+    // Snapshots keep their blobs alive whatever state the publication itself is in
+    for (const revision of files.revisions) {
+      try {
+        const data = await storageDriver.read(`${getRevisionKey(hash, revision)}/${RECORD_FILE}`);
+        countRefs(JSON.parse(data!.toString('utf-8')));
+      } catch (error) {
+        report('invalid-record', hash, `Revision ${revision} has no readable ${RECORD_FILE}`);
+      }
+    }
+  }
+
+  const refCounts = blobStore.getRefCounts();
+  const repairs: Record<string, { refs: number; size?: number } | null> = {};
+
+  for (const [digest, refs] of Object.entries(refCounts)) {
+    const expected = expectedRefs[digest] || 0;
+
+    if (!blobFiles.has(digest)) {
+      // Dropping the entry makes clients upload the file again
+      report('missing-blob', digest, `Indexed with ${refs} reference(s) but the file is missing`, true);
+      repairs[digest] = null;
+    } else if (refs !== expected) {
+      report('blob-refs', digest, `Indexed with ${refs} reference(s), ${expected} found`, true);
+      repairs[digest] = { refs: expected };
+    }
+  }
+
+  for (const [digest, key] of blobFiles) {
+    if (digest in refCounts) continue;
+
+    const expected = expectedRefs[digest] || 0;
+    report('untracked-blob', digest, `Stored but missing from the blob index, ${expected} reference(s) found`, true);
+    repairs[digest] = { refs: expected, size: (await storageDriver.stat(key))?.size || 0 };
+  }
+
+  for (const digest of Object.keys(expectedRefs)) {
+    if (!blobFiles.has(digest) && !(digest in refCounts)) {
+      report('missing-blob', digest, `Referenced ${expectedRefs[digest]} time(s) but neither stored nor indexed`);
+    }
+  }
+
+  if (repair && Object.keys(repairs).length > 0) {
+    await blobStore.repairEntries(repairs);
+  }
+
+  return {
+    publications: Object.keys(metadataStore.getAll()).length,
+    blobs: blobFiles.size,
+    issues,
+  };
+}
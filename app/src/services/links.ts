@@ -0,0 +1,165 @@
+import { Publication } from '../models/publication';
+import { storageService } from './storage';
+import { collectionService } from './collections';
+import { parseFrontmatter } from './frontmatter';
+import { createNoteResolver, parseWikilink } from './wikilinks';
+import { isAttachment } from './attachments';
+import { getPublicationPath } from './publications';
+import { logger } from './logger';
+
+// [[links]] and ![[embeds]] alike, an embedded note counts as linked
+const LINK_PATTERN = /!?\[\[([^[\]\n]+?)\]\]/g;
+
+export interface LinkedNote {
+  hash: string;
+  title: string;
+  url: string;
+}
+
+export interface LinkGraph {
+  nodes: LinkedNote[];
+  edges: Array<{ source: string; target: string }>;
+}
+
+interface ResolvedLinks {
+  storageGeneration: number;
+  collectionGeneration: number;
+  version: number;
+  // Publication hash -> hashes of the publications linking to it
+  backlinks: Map<string, Set<string>>;
+}
+
+// Link targets as written; code isn't rendered as links, so it doesn't count
+function extractTargets(content: string): string[] {
+  const body = parseFrontmatter(content).body
+      .replace(/```[\s\S]*?```/g, '')
+      .replace(/`[^`\n]*`/g, '');
+
+  const targets = new Set<string>();
+  for (const match of body.matchAll(LINK_PATTERN)) {
+    const { target } = parseWikilink(match[1]);
+    if (target && !isAttachment(target)) targets.add(target);
+  }
+
+  return [...targets];
+}
+
+class LinkGraphService {
+  // Targets are kept unresolved, a link starts counting once the note it names is published
+  private targets = new Map<string, string[]>();
+  private version = 0;
+  private resolved: ResolvedLinks | null = null;
+
+  constructor() {
+    storageService.on('publicationSaved', (hash, publication, content) => {
+      this.indexPublication(hash, content);
+    });
+    storageService.on('publicationDeleted', (hash) => {
+      this.removePublication(hash);
+    });
+  }
+
+  async initialize(): Promise<void> {
+    const publications = await storageService.getAllPublications();
+
+    for (const hash of Object.keys(publications)) {
+      const content = await storageService.getContent(hash);
+      if (content !== null) {
+        this.indexPublication(hash, content);
+      }
+    }
+
+    logger.info('Link graph built', { publications: this.targets.size });
+  }
+
+  indexPublication(hash: string, content: string): void {
+    this.targets.set(hash, extractTargets(content));
+    this.version++;
+  }
+
+  removePublication(hash: string): void {
+    if (this.targets.delete(hash)) this.version++;
+  }
+
+  // Resolved the same way pages render their links, and again only once something changed
+  private resolve(publications: Record<string, Publication>): Map<string, Set<string>> {
+    const storageGeneration = storageService.getGeneration();
+    const collectionGeneration = collectionService.getGeneration();
+
+    if (this.resolved
+        && this.resolved.storageGeneration === storageGeneration
+        && this.resolved.collectionGeneration === collectionGeneration
+        && this.resolved.version === this.version) {
+      return this.resolved.backlinks;
+    }
+
+    const linkable = Object.fromEntries(
+        Object.entries(publications).filter(([, publication]) => !collectionService.isHidden(publication))
+    );
+    const resolveNote = createNoteResolver(linkable);
+    const backlinks = new Map<string, Set<string>>();
+
+    for (const [source, targets] of this.targets) {
+      if (!linkable[source]) continue;
+
+      for (const target of targets) {
+        const note = resolveNote(target);
+        if (!note || note.hash === source) continue;
+
+        if (!backlinks.has(note.hash)) backlinks.set(note.hash, new Set());
+        backlinks.get(note.hash)!.add(source);
+      }
+    }
+
+    this.resolved = { storageGeneration, collectionGeneration, version: this.version, backlinks };
+    return backlinks;
+  }
+
+  /**
+   * Publications linking to this one, by title.
+   * isVisible decides which linking publications the current reader may see.
+   */
+  async getBacklinks(hash: string, isVisible: (hash: string, publication: Publication) => boolean): Promise<LinkedNote[]> {
+    const publications = await storageService.getAllPublications();
+    const sources = this.resolve(publications).get(hash) || new Set<string>();
+
+    return [...sources]
+        .filter(source => isVisible(source, publications[source]))
+        .map(source => ({
+          hash: source,
+          title: publications[source].title,
+          url: getPublicationPath(source, publications[source]),
+        }))
+        .sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  // Every publication the reader may see, and the links between them
+  async getGraph(isVisible: (hash: string, publication: Publication) => boolean): Promise<LinkGraph> {
+    const publications = await storageService.getAllPublications();
+    const backlinks = this.resolve(publications);
+
+    const visible = new Set(
+        Object.entries(publications)
+            .filter(([hash, publication]) => !collectionService.isHidden(publication) && isVisible(hash, publication))
+            .map(([hash]) => hash)
+    );
+
+    const nodes = [...visible].map(hash => ({
+      hash,
+      title: publications[hash].title,
+      url: getPublicationPath(hash, publications[hash]),
+    }));
+
+    const edges: LinkGraph['edges'] = [];
+    for (const [target, sources] of backlinks) {
+      if (!visible.has(target)) continue;
+      for (const source of sources) {
+        if (visible.has(source)) edges.push({ source, target });
+      }
+    }
+
+    return { nodes, edges };
+  }
+}
+
+export const linkGraph = new LinkGraphService();
@@ -1,9 +1,61 @@
 import { marked } from 'marked';
-import { gfmHeadingId } from 'marked-gfm-heading-id';
+import { gfmHeadingId, getHeadingList } from 'marked-gfm-heading-id';
 import hljs from 'highlight.js';
 import { JSDOM } from 'jsdom';
 import createDOMPurify from 'dompurify';
 import katex from 'katex';
+import { NoteResolver, wikilinkExtension } from './wikilinks';
+import { AttachmentResolver, ImageSetResolver, embedExtensions, imageAttributes } from './embeds';
+import { calloutExtension } from './callouts';
+import { diagramKey, getDiagramLanguage } from './diagrams';
+import { PUBLISH_OPTION_PREFIX } from './frontmatter';
+import type { SearchResult } from './search';
+import type { ExpiryReason } from './expiry';
+import type { LinkedNote } from './links';
+import { CollectionNavigation, CollectionTreeNode } from '../models/collection';
+
+export interface RenderContext {
+  resolveNote?: NoteResolver;
+  resolveAttachment?: AttachmentResolver;
+  resolveImageSet?: ImageSetResolver;
+  // Pre-rendered bodies of embedded notes, keyed by embedKey()
+  embeds?: Map<string, string>;
+  // Pre-rendered SVGs of diagram fences, keyed by diagramKey()
+  diagrams?: Map<string, string>;
+  // Put in front of heading ids, so an embedded note's can't clash with those of the page it's in
+  headingIdPrefix?: string;
+}
+
+export interface TocHeading {
+  level: number;
+  id: string;
+  // Plain text, HTML-escaped
+  text: string;
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  // Headings of this document, not of the notes embedded in it
+  headings: TocHeading[];
+}
+
+export interface TableOfContents {
+  headings: TocHeading[];
+  sticky: boolean;
+}
+
+export interface PageOptions {
+  description?: string;
+  tags?: string[];
+  // Sidebar and prev/next links for notes in a collection
+  collection?: CollectionNavigation;
+  // Publications linking to this one, listed under "Linked from"
+  backlinks?: LinkedNote[];
+  toc?: TableOfContents;
+}
+
+// Context of the render in progress, read by extensions during the synchronous parse
+let activeContext: RenderContext = {};
 
 // Configure marked
 marked.use(gfmHeadingId());
@@ -18,19 +70,47 @@ const window = new JSDOM('').window;
 const DOMPurify = createDOMPurify(window);
 
 // Custom renderer for syntax highlighting
-const renderer = new marked.Renderer();
-
-renderer.code = (code: string, language: string | undefined) => {
-  const lang = language || '';
-  const validLang = lang && hljs.getLanguage(lang);
-  const highlighted = validLang
-      ? hljs.highlight(code, { language: lang }).value
-      : hljs.highlightAuto(code).value;
+// Registered through marked.use so it's merged with the gfmHeadingId renderer instead of replacing it
+marked.use({
+  renderer: {
+    code(code: string, language: string | undefined) {
+      // Diagrams that didn't render fall through to their highlighted source
+      const diagramLanguage = getDiagramLanguage(language);
+      const svg = diagramLanguage ? activeContext.diagrams?.get(diagramKey(diagramLanguage, code)) : undefined;
+      if (svg) {
+        return `<div class="diagram diagram-${diagramLanguage}">${svg}</div>\n`;
+      }
 
-  return `<pre><code class="hljs ${lang}">${highlighted}</code></pre>`;
-};
+      const lang = language || '';
+      const validLang = lang && hljs.getLanguage(lang);
+      const highlighted = validLang
+          ? hljs.highlight(code, { language: lang }).value
+          : hljs.highlightAuto(code).value;
+
+      return `<pre><code class="hljs ${lang}">${highlighted}</code></pre>`;
+    },
+    // ![alt](./images/x.png) gets the same responsive variants as ![[x.png]]
+    image(href: string, title: string | null, text: string) {
+      const match = /^\/p\/[^/]+\/images\/([^/?#]+)$/.exec(href);
+      const set = match && activeContext.resolveImageSet
+        ? activeContext.resolveImageSet(decodeURIComponent(match[1]))
+        : null;
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+      const attributes = imageAttributes(set && set.src === href ? set : null, { width: null, height: null }, escapeHtml);
+
+      return `<img src="${escapeHtml(href)}" alt="${text}"${titleAttribute}${attributes}>`;
+    },
+  },
+});
 
-marked.setOptions({ renderer });
+// Obsidian [[wikilinks]], ![[embeds]] and > [!callouts]
+marked.use({
+  extensions: [
+    calloutExtension(escapeHtml),
+    ...embedExtensions(() => activeContext, escapeHtml),
+    wikilinkExtension(() => activeContext.resolveNote, escapeHtml),
+  ],
+});
 
 // Math formula processing
 function renderMathFormulas(content: string): string {
@@ -66,25 +146,125 @@ function renderMathFormulas(content: string): string {
   return content;
 }
 
-export function renderMarkdown(content: string): string {
+// Permalink shown on hover; headings of embedded notes already have theirs, and their prefixed ids
+function addHeadingAnchors(html: string, prefix: string): string {
+  return html.replace(/<h([1-6]) id="([^"]+)">([\s\S]*?)<\/h\1>/g, (match, level, id, text) => {
+    if (text.includes('class="heading-anchor"')) return match;
+    const prefixed = `${prefix}${id}`;
+    return `<h${level} id="${prefixed}">${text}<a class="heading-anchor" href="#${prefixed}" aria-label="Link to this section">#</a></h${level}>`;
+  });
+}
+
+export function renderMarkdown(content: string, context: RenderContext = {}): RenderedMarkdown {
   // First, render math formulas before markdown processing
   // to avoid markdown parser interfering with LaTeX syntax
   const contentWithMath = renderMathFormulas(content);
 
-  const html = marked.parse(contentWithMath, { async: false }) as string;
+  let html: string;
+  let headings: TocHeading[];
+  activeContext = context;
+  try {
+    html = marked.parse(contentWithMath, { async: false }) as string;
+    headings = getHeadingList().map(heading => ({
+      level: heading.level,
+      id: `${context.headingIdPrefix || ''}${heading.id}`,
+      text: DOMPurify.sanitize(heading.text, { ALLOWED_TAGS: [] }).trim(),
+    }));
+  } finally {
+    activeContext = {};
+  }
+
+  return {
+    html: DOMPurify.sanitize(addHeadingAnchors(html, context.headingIdPrefix || ''), {
+      ADD_TAGS: ['iframe', 'span', 'annotation', 'semantics', 'mrow', 'mi', 'mo', 'mn', 'msup', 'msub', 'mfrac', 'mroot', 'msqrt', 'munder', 'mover', 'munderover', 'mtable', 'mtr', 'mtd', 'mtext', 'mspace'],
+      ADD_ATTR: ['target', 'rel', 'class', 'style', 'aria-hidden', 'encoding', 'xmlns'],
+    }),
+    headings,
+  };
+}
+
+function formatPropertyValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return escapeHtml(value.toISOString());
+  if (Array.isArray(value)) {
+    return value.map(item => `<span class="property-item">${formatPropertyValue(item)}</span>`).join(' ');
+  }
+  if (typeof value === 'object') return escapeHtml(JSON.stringify(value));
+  return escapeHtml(String(value));
+}
+
+// Note properties table, shown when the frontmatter sets publish_properties: true
+export function renderPropertiesTable(data: Record<string, unknown>): string {
+  const rows = Object.entries(data)
+      .filter(([key]) => !key.startsWith(PUBLISH_OPTION_PREFIX))
+      .map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${formatPropertyValue(value)}</td></tr>`);
 
-  return DOMPurify.sanitize(html, {
-    ADD_TAGS: ['iframe', 'span', 'annotation', 'semantics', 'mrow', 'mi', 'mo', 'mn', 'msup', 'msub', 'mfrac', 'mroot', 'msqrt', 'munder', 'mover', 'munderover', 'mtable', 'mtr', 'mtd', 'mtext', 'mspace'],
-    ADD_ATTR: ['target', 'rel', 'class', 'style', 'aria-hidden', 'encoding', 'xmlns'],
+  if (rows.length === 0) return '';
+
+  return `<table class="properties">\n<tbody>\n${rows.join('\n')}\n</tbody>\n</table>\n`;
+}
+
+function renderCollectionTree(nodes: CollectionTreeNode[], currentHash: string | null): string {
+  const items = nodes.map(node => {
+    const label = node.item
+        ? `<a href="${escapeHtml(node.item.url)}"${node.item.hash === currentHash ? ' aria-current="page"' : ''}>${escapeHtml(node.item.title)}</a>`
+        : `<span class="folder">${escapeHtml(node.name)}</span>`;
+    const children = node.children.length > 0 ? renderCollectionTree(node.children, currentHash) : '';
+    return `<li>${label}${children}</li>`;
+  });
+
+  return `<ul>${items.join('')}</ul>`;
+}
+
+function renderTableOfContents(headings: TocHeading[]): string {
+  const topLevel = Math.min(...headings.map(heading => heading.level));
+  const items = headings.map(heading => {
+    const depth = Math.min(heading.level - topLevel, 3);
+    return `<li class="toc-depth-${depth}"><a href="#${escapeHtml(heading.id)}">${heading.text}</a></li>`;
   });
+
+  return `<nav class="toc" aria-label="Table of contents">
+      <details open>
+        <summary>Contents</summary>
+        <ul>${items.join('')}</ul>
+      </details>
+    </nav>`;
+}
+
+function renderBacklinks(backlinks: LinkedNote[]): string {
+  const items = backlinks.map(note => `<li><a href="${escapeHtml(note.url)}">${escapeHtml(note.title)}</a></li>`);
+
+  return `<section class="backlinks">
+      <h2>Linked from</h2>
+      <ul>${items.join('')}</ul>
+    </section>`;
+}
+
+function renderCollectionPager(collection: CollectionNavigation): string {
+  const previous = collection.previous
+      ? `<a class="previous" href="${escapeHtml(collection.previous.url)}" rel="prev"><span>Previous</span>${escapeHtml(collection.previous.title)}</a>`
+      : '<span></span>';
+  const next = collection.next
+      ? `<a class="next" href="${escapeHtml(collection.next.url)}" rel="next"><span>Next</span>${escapeHtml(collection.next.title)}</a>`
+      : '<span></span>';
+
+  return `<nav class="collection-pager">${previous}${next}</nav>`;
 }
 
 export function getPageTemplate(
     title: string,
     content: string,
     publishedAt: string,
-    updatedAt: string
+    updatedAt: string,
+    options: PageOptions = {}
 ): string {
+  const description = options.description || 'Published from Obsidian';
+  const collection = options.collection;
+  const toc = options.toc;
+  const tags = options.tags && options.tags.length > 0
+      ? `<div class="tags">${options.tags.map(tag => `<span class="tag">#${escapeHtml(tag)}</span>`).join(' ')}</div>`
+      : '';
+
   const formattedPublished = new Date(publishedAt).toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
@@ -105,10 +285,10 @@ export function getPageTemplate(
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>${escapeHtml(title)}</title>
-  <meta name="description" content="Published from Obsidian">
+  <meta name="description" content="${escapeHtml(description)}">
   <meta property="og:title" content="${escapeHtml(title)}">
   <meta property="og:type" content="article">
-  <meta property="og:description" content="Published from Obsidian">
+  <meta property="og:description" content="${escapeHtml(description)}">
   <link rel="stylesheet" href="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/styles/github.min.css" media="(prefers-color-scheme: light)">
   <link rel="stylesheet" href="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/styles/github-dark.min.css" media="(prefers-color-scheme: dark)">
   <link rel="stylesheet" href="https://cdnjs.cloudflare.com/ajax/libs/KaTeX/0.16.9/katex.min.css">
@@ -122,6 +302,19 @@ export function getPageTemplate(
       --code-text: #24292e;
       --link-color: #0366d6;
       --blockquote-border: #dfe2e5;
+      --callout-bg-alpha: 0.08;
+      --callout-note: 8, 109, 221;
+      --callout-abstract: 0, 152, 150;
+      --callout-todo: 8, 109, 221;
+      --callout-tip: 0, 152, 150;
+      --callout-success: 26, 127, 55;
+      --callout-question: 191, 93, 0;
+      --callout-warning: 191, 93, 0;
+      --callout-failure: 207, 34, 46;
+      --callout-danger: 207, 34, 46;
+      --callout-bug: 207, 34, 46;
+      --callout-example: 110, 64, 201;
+      --callout-quote: 110, 119, 129;
     }
 
     @media (prefers-color-scheme: dark) {
@@ -134,6 +327,19 @@ export function getPageTemplate(
         --code-text: #e6edf3;
         --link-color: #58a6ff;
         --blockquote-border: #3b434b;
+        --callout-bg-alpha: 0.12;
+        --callout-note: 88, 166, 255;
+        --callout-abstract: 57, 197, 187;
+        --callout-todo: 88, 166, 255;
+        --callout-tip: 57, 197, 187;
+        --callout-success: 63, 185, 80;
+        --callout-question: 219, 109, 40;
+        --callout-warning: 210, 153, 34;
+        --callout-failure: 248, 81, 73;
+        --callout-danger: 248, 81, 73;
+        --callout-bug: 248, 81, 73;
+        --callout-example: 163, 113, 247;
+        --callout-quote: 139, 148, 158;
       }
     }
 
@@ -141,6 +347,11 @@ export function getPageTemplate(
       box-sizing: border-box;
     }
 
+    /* Headings opened from a link or the contents don't land flush against the top edge */
+    html {
+      scroll-padding-top: 20px;
+    }
+
     body {
       font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;
       line-height: 1.6;
@@ -173,10 +384,44 @@ export function getPageTemplate(
       font-size: 0.9em;
     }
 
+    .tags {
+      margin-top: 8px;
+    }
+
+    .tag {
+      display: inline-block;
+      padding: 0 8px;
+      font-size: 0.85em;
+      color: var(--link-color);
+      background-color: var(--code-bg);
+      border-radius: 10px;
+    }
+
     .content {
       word-wrap: break-word;
     }
 
+    .content table.properties {
+      width: auto;
+      font-size: 0.9em;
+    }
+
+    .content table.properties th {
+      text-align: left;
+      color: var(--secondary-text);
+    }
+
+    .content table.properties tr {
+      background-color: transparent;
+    }
+
+    .content .property-item {
+      display: inline-block;
+      padding: 0 6px;
+      background-color: var(--code-bg);
+      border-radius: 4px;
+    }
+
     .content h1, .content h2, .content h3, 
     .content h4, .content h5, .content h6 {
       margin-top: 24px;
@@ -192,6 +437,24 @@ export function getPageTemplate(
     .content h5 { font-size: 0.875em; }
     .content h6 { font-size: 0.85em; color: var(--secondary-text); }
 
+    .content .heading-anchor {
+      margin-left: 0.3em;
+      color: var(--secondary-text);
+      font-weight: 400;
+      text-decoration: none;
+      opacity: 0;
+    }
+
+    .content h1:hover .heading-anchor, .content h2:hover .heading-anchor, .content h3:hover .heading-anchor,
+    .content h4:hover .heading-anchor, .content h5:hover .heading-anchor, .content h6:hover .heading-anchor,
+    .content .heading-anchor:focus {
+      opacity: 1;
+    }
+
+    .content :target {
+      background-color: var(--code-bg);
+    }
+
     .content p {
       margin-top: 0;
       margin-bottom: 16px;
@@ -206,6 +469,31 @@ export function getPageTemplate(
       text-decoration: underline;
     }
 
+    .content .internal-link.is-unresolved,
+    .content .embed.is-unresolved {
+      color: var(--secondary-text);
+      border-bottom: 1px dashed var(--border-color);
+      cursor: help;
+    }
+
+    .content .markdown-embed {
+      margin: 0 0 16px 0;
+      padding: 8px 16px;
+      border-left: 0.25em solid var(--link-color);
+      background-color: var(--code-bg);
+      border-radius: 0 6px 6px 0;
+    }
+
+    .content .markdown-embed-title {
+      font-size: 0.85em;
+      font-weight: 600;
+      margin-bottom: 8px;
+    }
+
+    .content .markdown-embed-content > :last-child {
+      margin-bottom: 0;
+    }
+
     .content code {
       background-color: var(--code-bg);
       color: var(--code-text);
@@ -237,6 +525,64 @@ export function getPageTemplate(
       border-left: 0.25em solid var(--blockquote-border);
     }
 
+    /* Obsidian callouts */
+    .content .callout {
+      --callout-color: var(--callout-note);
+      margin: 0 0 16px 0;
+      padding: 12px 16px;
+      border-left: 0.25em solid rgb(var(--callout-color));
+      border-radius: 0 6px 6px 0;
+      background-color: rgba(var(--callout-color), var(--callout-bg-alpha));
+    }
+
+    .content .callout-abstract { --callout-color: var(--callout-abstract); }
+    .content .callout-info { --callout-color: var(--callout-note); }
+    .content .callout-todo { --callout-color: var(--callout-todo); }
+    .content .callout-tip { --callout-color: var(--callout-tip); }
+    .content .callout-success { --callout-color: var(--callout-success); }
+    .content .callout-question { --callout-color: var(--callout-question); }
+    .content .callout-warning { --callout-color: var(--callout-warning); }
+    .content .callout-failure { --callout-color: var(--callout-failure); }
+    .content .callout-danger { --callout-color: var(--callout-danger); }
+    .content .callout-bug { --callout-color: var(--callout-bug); }
+    .content .callout-example { --callout-color: var(--callout-example); }
+    .content .callout-quote { --callout-color: var(--callout-quote); }
+
+    .content .callout-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-weight: 600;
+      color: rgb(var(--callout-color));
+    }
+
+    .content summary.callout-title {
+      cursor: pointer;
+      list-style: none;
+    }
+
+    .content summary.callout-title::-webkit-details-marker {
+      display: none;
+    }
+
+    .content summary.callout-title::after {
+      content: '▸';
+      margin-left: auto;
+      transition: transform 0.15s ease;
+    }
+
+    .content details.callout[open] > summary.callout-title::after {
+      transform: rotate(90deg);
+    }
+
+    .content .callout-content {
+      margin-top: 8px;
+    }
+
+    .content .callout-content > :last-child {
+      margin-bottom: 0;
+    }
+
     .content ul, .content ol {
       padding-left: 2em;
       margin-bottom: 16px;
@@ -276,6 +622,29 @@ export function getPageTemplate(
       border-radius: 6px;
     }
 
+    .content .embed-pdf {
+      display: block;
+      width: 100%;
+      height: 600px;
+      border: 1px solid var(--border-color);
+      border-radius: 6px;
+    }
+
+    .content .embed-audio {
+      display: block;
+      width: 100%;
+    }
+
+    .content .embed-video {
+      max-width: 100%;
+      height: auto;
+      border-radius: 6px;
+    }
+
+    .content .embed-file::before {
+      content: "📎 ";
+    }
+
     .content hr {
       height: 0.25em;
       padding: 0;
@@ -307,6 +676,21 @@ export function getPageTemplate(
       text-align: center;
     }
 
+    .content .diagram {
+      margin-bottom: 16px;
+      padding: 16px;
+      overflow-x: auto;
+      text-align: center;
+      background-color: #ffffff;
+      border: 1px solid var(--border-color);
+      border-radius: 6px;
+    }
+
+    .content .diagram svg {
+      max-width: 100%;
+      height: auto;
+    }
+
     .content .math-error {
       color: var(--error-color, #cb2431);
       background-color: rgba(203, 36, 49, 0.1);
@@ -360,6 +744,224 @@ export function getPageTemplate(
       text-decoration: none;
     }
 
+    .container.with-sidebar,
+    .container.with-sticky-toc {
+      display: grid;
+      column-gap: 40px;
+    }
+
+    .container.with-sidebar {
+      grid-template-columns: 240px minmax(0, 800px);
+      max-width: 1120px;
+    }
+
+    .container.with-sticky-toc {
+      grid-template-columns: minmax(0, 800px) 220px;
+      max-width: 1100px;
+    }
+
+    .container.with-sidebar.with-sticky-toc {
+      grid-template-columns: 220px minmax(0, 800px) 200px;
+      max-width: 1340px;
+    }
+
+    .with-sticky-toc > * {
+      grid-column: 1;
+    }
+
+    .with-sidebar > * {
+      grid-column: 2;
+    }
+
+    .with-sidebar > .collection-nav {
+      grid-column: 1;
+    }
+
+    .with-sticky-toc > .toc {
+      grid-column: -2;
+      grid-row: 1 / span 10;
+      align-self: start;
+      position: sticky;
+      top: 20px;
+      max-height: calc(100vh - 40px);
+      overflow-y: auto;
+    }
+
+    .collection-nav {
+      grid-row: 1 / span 10;
+      align-self: start;
+      position: sticky;
+      top: 20px;
+      max-height: calc(100vh - 40px);
+      overflow-y: auto;
+      font-size: 0.9em;
+    }
+
+    .collection-nav .collection-title {
+      display: block;
+      font-weight: 600;
+      margin-bottom: 8px;
+      color: var(--text-color);
+      text-decoration: none;
+    }
+
+    .collection-nav ul {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+    .collection-nav ul ul {
+      padding-left: 14px;
+      border-left: 1px solid var(--border-color);
+    }
+
+    .collection-nav li {
+      margin: 4px 0;
+    }
+
+    .collection-nav a {
+      color: var(--link-color);
+      text-decoration: none;
+    }
+
+    .collection-nav a[aria-current="page"] {
+      color: var(--text-color);
+      font-weight: 600;
+    }
+
+    .collection-nav .folder {
+      color: var(--secondary-text);
+    }
+
+    .backlinks {
+      margin-top: 40px;
+      padding-top: 20px;
+      border-top: 1px solid var(--border-color);
+    }
+
+    .backlinks h2 {
+      margin: 0 0 8px 0;
+      font-size: 0.85em;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: var(--secondary-text);
+    }
+
+    .backlinks ul {
+      margin: 0;
+      padding-left: 20px;
+    }
+
+    .backlinks a {
+      color: var(--link-color);
+      text-decoration: none;
+    }
+
+    .backlinks a:hover {
+      text-decoration: underline;
+    }
+
+    .collection-pager {
+      display: flex;
+      justify-content: space-between;
+      gap: 16px;
+      margin-top: 40px;
+    }
+
+    .collection-pager a {
+      display: block;
+      max-width: 48%;
+      padding: 10px 14px;
+      border: 1px solid var(--border-color);
+      border-radius: 6px;
+      color: var(--link-color);
+      text-decoration: none;
+    }
+
+    .collection-pager .next {
+      text-align: right;
+    }
+
+    .collection-pager a span {
+      display: block;
+      font-size: 0.8em;
+      color: var(--secondary-text);
+    }
+
+    .toc {
+      margin-bottom: 30px;
+      font-size: 0.9em;
+    }
+
+    .toc summary {
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .toc ul {
+      list-style: none;
+      margin: 8px 0 0 0;
+      padding: 0;
+    }
+
+    .toc li {
+      margin: 4px 0;
+    }
+
+    .toc .toc-depth-1 { padding-left: 14px; }
+    .toc .toc-depth-2 { padding-left: 28px; }
+    .toc .toc-depth-3 { padding-left: 42px; }
+
+    .toc a {
+      color: var(--link-color);
+      text-decoration: none;
+    }
+
+    .toc a:hover {
+      text-decoration: underline;
+    }
+
+    @media (max-width: 1100px) {
+      .container.with-sticky-toc:not(.with-sidebar) {
+        display: block;
+        max-width: 800px;
+      }
+
+      .container.with-sidebar.with-sticky-toc {
+        grid-template-columns: 240px minmax(0, 800px);
+        max-width: 1120px;
+      }
+
+      .container.with-sticky-toc > .toc {
+        grid-column: auto;
+        grid-row: auto;
+        position: static;
+        max-height: none;
+      }
+
+      .container.with-sidebar.with-sticky-toc > .toc {
+        grid-column: 2;
+      }
+    }
+
+    @media (max-width: 900px) {
+      .container.with-sidebar,
+      .container.with-sidebar.with-sticky-toc {
+        display: block;
+        max-width: 800px;
+      }
+
+      .collection-nav {
+        position: static;
+        max-height: none;
+        margin-bottom: 20px;
+        padding-bottom: 20px;
+        border-bottom: 1px solid var(--border-color);
+      }
+    }
+
     @media (max-width: 600px) {
       .container {
         padding: 15px;
@@ -372,7 +974,11 @@ export function getPageTemplate(
   </style>
 </head>
 <body>
-  <div class="container">
+  <div class="container${collection ? ' with-sidebar' : ''}${toc?.sticky ? ' with-sticky-toc' : ''}">
+    ${collection ? `<nav class="collection-nav" aria-label="${escapeHtml(collection.title)}">
+      <a class="collection-title" href="${escapeHtml(collection.url)}">${escapeHtml(collection.title)}</a>
+      ${renderCollectionTree(collection.tree, collection.currentHash)}
+    </nav>` : ''}
     <header>
       <h1>${escapeHtml(title)}</h1>
       <div class="meta">
@@ -380,11 +986,14 @@ export function getPageTemplate(
         <span> • </span>
         <span>Updated: ${formattedUpdated}</span>
       </div>
+      ${tags}
     </header>
-    
+    ${toc ? renderTableOfContents(toc.headings) : ''}
     <main class="content">
       ${content}
     </main>
+    ${options.backlinks && options.backlinks.length > 0 ? renderBacklinks(options.backlinks) : ''}
+    ${collection ? renderCollectionPager(collection) : ''}
     <footer>
       Published with <a target="_blank" href="https://github.com/IvanShishkin/obsidian-pub-plugin">Obsidian Publishing Plugin🍻</a>
     </footer>
@@ -523,7 +1132,559 @@ export function getPasswordPageTemplate(hash: string, error?: string): string {
 </html>`;
 }
 
-function escapeHtml(text: string): string {
+export function getGonePageTemplate(reason: ExpiryReason): string {
+  const message = reason === 'expired'
+      ? 'This publication has expired and is no longer available.'
+      : 'This publication has reached its view limit and is no longer available.';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>No Longer Available</title>
+  <meta name="robots" content="noindex">
+  <style>
+    :root {
+      --bg-color: #ffffff;
+      --text-color: #24292e;
+      --secondary-text: #586069;
+      --border-color: #e1e4e8;
+    }
+
+    @media (prefers-color-scheme: dark) {
+      :root {
+        --bg-color: #0d1117;
+        --text-color: #c9d1d9;
+        --secondary-text: #8b949e;
+        --border-color: #30363d;
+      }
+    }
+
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;
+      background-color: var(--bg-color);
+      color: var(--text-color);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      margin: 0;
+      padding: 20px;
+    }
+
+    .gone {
+      border: 1px solid var(--border-color);
+      border-radius: 12px;
+      padding: 40px;
+      max-width: 400px;
+      width: 100%;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.12);
+    }
+
+    h2 {
+      margin: 0 0 10px 0;
+      font-size: 1.5em;
+    }
+
+    p {
+      color: var(--secondary-text);
+      margin: 0;
+    }
+  </style>
+</head>
+<body>
+  <div class="gone">
+    <h2>⌛ No Longer Available</h2>
+    <p>${message}</p>
+  </div>
+</body>
+</html>`;
+}
+
+export function getSearchPageTemplate(query: string, results: SearchResult[]): string {
+  const items = results.map(result => `
+      <li class="result">
+        <a href="${escapeHtml(result.url)}">${escapeHtml(result.title)}</a>
+        <p>${result.snippet}</p>
+      </li>`).join('');
+
+  let summary = '';
+  if (query) {
+    summary = results.length > 0
+        ? `<p class="summary">${results.length} result${results.length === 1 ? '' : 's'} for “${escapeHtml(query)}”</p>`
+        : `<p class="summary">Nothing found for “${escapeHtml(query)}”</p>`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${query ? `${escapeHtml(query)} — Search` : 'Search'}</title>
+  <meta name="robots" content="noindex">
+  <style>
+    :root {
+      --bg-color: #ffffff;
+      --text-color: #24292e;
+      --secondary-text: #586069;
+      --border-color: #e1e4e8;
+      --link-color: #0366d6;
+      --mark-bg: #fff3b0;
+    }
+
+    @media (prefers-color-scheme: dark) {
+      :root {
+        --bg-color: #0d1117;
+        --text-color: #c9d1d9;
+        --secondary-text: #8b949e;
+        --border-color: #30363d;
+        --link-color: #58a6ff;
+        --mark-bg: #5c4b00;
+      }
+    }
+
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;
+      line-height: 1.6;
+      color: var(--text-color);
+      background-color: var(--bg-color);
+      margin: 0;
+    }
+
+    .container {
+      max-width: 800px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+
+    form {
+      display: flex;
+      gap: 8px;
+      margin-bottom: 24px;
+    }
+
+    input[type="search"] {
+      flex: 1;
+      padding: 10px 12px;
+      font-size: 16px;
+      border: 1px solid var(--border-color);
+      border-radius: 6px;
+      background: var(--bg-color);
+      color: var(--text-color);
+    }
+
+    button {
+      padding: 10px 16px;
+      font-size: 14px;
+      border: 1px solid var(--border-color);
+      border-radius: 6px;
+      background: var(--bg-color);
+      color: var(--text-color);
+      cursor: pointer;
+    }
+
+    .summary {
+      color: var(--secondary-text);
+    }
+
+    .results {
+      list-style: none;
+      padding: 0;
+    }
+
+    .result {
+      padding: 12px 0;
+      border-bottom: 1px solid var(--border-color);
+    }
+
+    .result a {
+      font-size: 1.15em;
+      font-weight: 600;
+      color: var(--link-color);
+      text-decoration: none;
+    }
+
+    .result p {
+      margin: 4px 0 0 0;
+      color: var(--secondary-text);
+    }
+
+    mark {
+      background-color: var(--mark-bg);
+      color: inherit;
+      border-radius: 2px;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>Search</h1>
+    <form method="GET" action="/p/search">
+      <input type="search" name="q" value="${escapeHtml(query)}" placeholder="Search publications" autofocus>
+      <button type="submit">Search</button>
+    </form>
+    ${summary}
+    <ul class="results">${items}
+    </ul>
+  </div>
+</body>
+</html>`;
+}
+
+export function getCollectionPageTemplate(collection: CollectionNavigation): string {
+  const tree = collection.tree.length > 0
+      ? renderCollectionTree(collection.tree, null)
+      : '<p class="empty">No notes have been published in this collection yet.</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(collection.title)}</title>
+  <meta property="og:title" content="${escapeHtml(collection.title)}">
+  <meta property="og:type" content="website">
+  <style>
+    :root {
+      --bg-color: #ffffff;
+      --text-color: #24292e;
+      --secondary-text: #586069;
+      --border-color: #e1e4e8;
+      --link-color: #0366d6;
+    }
+
+    @media (prefers-color-scheme: dark) {
+      :root {
+        --bg-color: #0d1117;
+        --text-color: #c9d1d9;
+        --secondary-text: #8b949e;
+        --border-color: #30363d;
+        --link-color: #58a6ff;
+      }
+    }
+
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;
+      line-height: 1.6;
+      color: var(--text-color);
+      background-color: var(--bg-color);
+      margin: 0;
+    }
+
+    .container {
+      max-width: 800px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+
+    h1 {
+      padding-bottom: 20px;
+      border-bottom: 1px solid var(--border-color);
+    }
+
+    .tree ul {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+    .tree ul ul {
+      padding-left: 20px;
+      border-left: 1px solid var(--border-color);
+    }
+
+    .tree li {
+      margin: 6px 0;
+    }
+
+    .tree a {
+      color: var(--link-color);
+      text-decoration: none;
+    }
+
+    .tree a:hover {
+      text-decoration: underline;
+    }
+
+    .tree .folder,
+    .empty {
+      color: var(--secondary-text);
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${escapeHtml(collection.title)}</h1>
+    <nav class="tree">
+      ${tree}
+    </nav>
+  </div>
+</body>
+</html>`;
+}
+
+// Force-directed view of /p/graph?format=json, drawn on a canvas without external libraries
+export function getGraphPageTemplate(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Graph</title>
+  <meta name="robots" content="noindex">
+  <style>
+    :root {
+      --bg-color: #ffffff;
+      --text-color: #24292e;
+      --secondary-text: #586069;
+      --border-color: #e1e4e8;
+      --link-color: #0366d6;
+    }
+
+    @media (prefers-color-scheme: dark) {
+      :root {
+        --bg-color: #0d1117;
+        --text-color: #c9d1d9;
+        --secondary-text: #8b949e;
+        --border-color: #30363d;
+        --link-color: #58a6ff;
+      }
+    }
+
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;
+      color: var(--text-color);
+      background-color: var(--bg-color);
+      margin: 0;
+      display: flex;
+      flex-direction: column;
+      height: 100vh;
+    }
+
+    header {
+      display: flex;
+      align-items: baseline;
+      gap: 16px;
+      padding: 12px 20px;
+      border-bottom: 1px solid var(--border-color);
+    }
+
+    h1 {
+      margin: 0;
+      font-size: 1.25em;
+    }
+
+    .summary {
+      color: var(--secondary-text);
+      font-size: 0.9em;
+    }
+
+    canvas {
+      flex: 1;
+      width: 100%;
+      min-height: 0;
+      cursor: grab;
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>Graph</h1>
+    <span class="summary" id="summary">Loading…</span>
+  </header>
+  <canvas id="graph"></canvas>
+  <script>
+    (function () {
+      var canvas = document.getElementById('graph');
+      var summary = document.getElementById('summary');
+      var context = canvas.getContext('2d');
+      var colors = getComputedStyle(document.documentElement);
+      var nodes = [];
+      var edges = [];
+      var hovered = null;
+      var dragged = null;
+      var moved = false;
+      var heat = 1;
+
+      function resize() {
+        var ratio = window.devicePixelRatio || 1;
+        canvas.width = canvas.clientWidth * ratio;
+        canvas.height = canvas.clientHeight * ratio;
+        context.setTransform(ratio, 0, 0, ratio, 0, 0);
+        draw();
+      }
+
+      // Nodes repel each other, links pull their ends together, everything drifts to the center
+      function step() {
+        var width = canvas.clientWidth;
+        var height = canvas.clientHeight;
+        var i, j, a, b, dx, dy, distance, force;
+
+        for (i = 0; i < nodes.length; i++) {
+          a = nodes[i];
+          for (j = i + 1; j < nodes.length; j++) {
+            b = nodes[j];
+            dx = a.x - b.x;
+            dy = a.y - b.y;
+            distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+            force = 800 / (distance * distance);
+            a.vx += dx / distance * force;
+            a.vy += dy / distance * force;
+            b.vx -= dx / distance * force;
+            b.vy -= dy / distance * force;
+          }
+          a.vx += (width / 2 - a.x) * 0.002;
+          a.vy += (height / 2 - a.y) * 0.002;
+        }
+
+        edges.forEach(function (edge) {
+          dx = edge.target.x - edge.source.x;
+          dy = edge.target.y - edge.source.y;
+          distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+          force = (distance - 80) * 0.01;
+          edge.source.vx += dx / distance * force;
+          edge.source.vy += dy / distance * force;
+          edge.target.vx -= dx / distance * force;
+          edge.target.vy -= dy / distance * force;
+        });
+
+        nodes.forEach(function (node) {
+          if (node === dragged) return;
+          node.x += node.vx * heat;
+          node.y += node.vy * heat;
+          node.vx *= 0.6;
+          node.vy *= 0.6;
+        });
+      }
+
+      function draw() {
+        context.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight);
+
+        context.strokeStyle = colors.getPropertyValue('--border-color');
+        context.lineWidth = 1;
+        edges.forEach(function (edge) {
+          context.beginPath();
+          context.moveTo(edge.source.x, edge.source.y);
+          context.lineTo(edge.target.x, edge.target.y);
+          context.stroke();
+        });
+
+        context.font = '12px -apple-system, BlinkMacSystemFont, sans-serif';
+        context.textAlign = 'center';
+        nodes.forEach(function (node) {
+          context.fillStyle = node === hovered ? colors.getPropertyValue('--link-color') : colors.getPropertyValue('--secondary-text');
+          context.beginPath();
+          context.arc(node.x, node.y, node.radius, 0, Math.PI * 2);
+          context.fill();
+
+          if (node === hovered || nodes.length <= 50) {
+            context.fillStyle = colors.getPropertyValue('--text-color');
+            context.fillText(node.title, node.x, node.y + node.radius + 14);
+          }
+        });
+      }
+
+      // Cools down so an idle page stops using the CPU
+      function animate() {
+        step();
+        draw();
+        heat *= 0.99;
+        if (heat > 0.02 || dragged) requestAnimationFrame(animate);
+      }
+
+      function nodeAt(event) {
+        var rect = canvas.getBoundingClientRect();
+        var x = event.clientX - rect.left;
+        var y = event.clientY - rect.top;
+        for (var i = nodes.length - 1; i >= 0; i--) {
+          var dx = nodes[i].x - x;
+          var dy = nodes[i].y - y;
+          if (dx * dx + dy * dy <= Math.pow(nodes[i].radius + 4, 2)) return nodes[i];
+        }
+        return null;
+      }
+
+      canvas.addEventListener('mousemove', function (event) {
+        if (dragged) {
+          var rect = canvas.getBoundingClientRect();
+          dragged.x = event.clientX - rect.left;
+          dragged.y = event.clientY - rect.top;
+          moved = true;
+          return;
+        }
+        var node = nodeAt(event);
+        if (node !== hovered) {
+          hovered = node;
+          canvas.style.cursor = node ? 'pointer' : 'grab';
+          draw();
+        }
+      });
+
+      canvas.addEventListener('mousedown', function (event) {
+        var node = nodeAt(event);
+        if (!node) return;
+
+        var idle = heat <= 0.02;
+        dragged = node;
+        moved = false;
+        heat = Math.max(heat, 0.3);
+        if (idle) requestAnimationFrame(animate);
+      });
+
+      window.addEventListener('mouseup', function () {
+        if (dragged && !moved) window.location.href = dragged.url;
+        dragged = null;
+      });
+
+      window.addEventListener('resize', resize);
+
+      fetch('/p/graph?format=json', { headers: { Accept: 'application/json' }, credentials: 'same-origin' })
+          .then(function (response) { return response.json(); })
+          .then(function (graph) {
+            var byHash = {};
+            var width = canvas.clientWidth;
+            var height = canvas.clientHeight;
+
+            nodes = graph.nodes.map(function (node, index) {
+              var angle = index * 2.4;
+              var distance = 10 * Math.sqrt(index);
+              byHash[node.hash] = {
+                title: node.title,
+                url: node.url,
+                x: width / 2 + Math.cos(angle) * distance,
+                y: height / 2 + Math.sin(angle) * distance,
+                vx: 0,
+                vy: 0,
+                radius: 4,
+              };
+              return byHash[node.hash];
+            });
+
+            edges = graph.edges.map(function (edge) {
+              return { source: byHash[edge.source], target: byHash[edge.target] };
+            });
+
+            // Notes with more links draw larger
+            edges.forEach(function (edge) {
+              edge.source.radius = Math.min(edge.source.radius + 0.5, 12);
+              edge.target.radius = Math.min(edge.target.radius + 0.5, 12);
+            });
+
+            summary.textContent = nodes.length + ' notes, ' + edges.length + ' links';
+            resize();
+            requestAnimationFrame(animate);
+          })
+          .catch(function () {
+            summary.textContent = 'The graph could not be loaded';
+          });
+    })();
+  </script>
+</body>
+</html>`;
+}
+
+export function escapeHtml(text: string): string {
   const map: Record<string, string> = {
     '&': '&amp;',
     '<': '&lt;',
@@ -0,0 +1,7 @@
+// Thrown when the index exists but can't be parsed; storage rebuilds it from the publication files
+export class MetadataCorruptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataCorruptError';
+  }
+}
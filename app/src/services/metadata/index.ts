@@ -0,0 +1,45 @@
+import { config } from '../../config';
+import { Publication } from '../../models/publication';
+import { JsonMetadataStore } from './json';
+import { SqliteMetadataStore } from './sqlite';
+
+/**
+ * Index of every publication record, keyed by hash. Reads are synchronous against what the store
+ * has loaded; writes resolve once the change is durable.
+ */
+export interface MetadataStore {
+  readonly name: string;
+  // Loads the index, creating it when there is none. Throws MetadataCorruptError when it exists but can't be parsed
+  initialize(): Promise<void>;
+  // Reloads after another process changed the index; true when anything was reloaded
+  refresh(): Promise<boolean>;
+  get(hash: string): Publication | null;
+  findByFilename(filename: string): { hash: string; publication: Publication } | null;
+  // Matches current and previous slugs
+  findBySlug(slug: string): { hash: string; publication: Publication } | null;
+  // Replaced rather than mutated by refresh, so callers can diff against an older result
+  getAll(): Record<string, Publication>;
+  put(hash: string, publication: Publication): Promise<void>;
+  delete(hash: string): Promise<void>;
+  // Swaps in a whole new index, for recovery
+  replaceAll(publications: Record<string, Publication>): Promise<void>;
+}
+
+export { MetadataCorruptError } from './errors';
+
+export type MetadataStoreName = 'json' | 'sqlite';
+
+export const METADATA_STORES: MetadataStoreName[] = ['json', 'sqlite'];
+
+export function createMetadataStore(name: MetadataStoreName): MetadataStore {
+  switch (name) {
+    case 'sqlite':
+      return new SqliteMetadataStore(config.metadataDbPath);
+    case 'json':
+      return new JsonMetadataStore();
+    default:
+      throw new Error(`Unknown metadata store: ${name}. Allowed: ${METADATA_STORES.join(', ')}`);
+  }
+}
+
+export const metadataStore = createMetadataStore(config.metadataStore as MetadataStoreName);
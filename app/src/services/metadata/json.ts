@@ -0,0 +1,169 @@
+import { MetadataFile, Publication } from '../../models/publication';
+import { storageDriver, updateJson } from '../drivers';
+import { MetadataCorruptError } from './errors';
+import type { MetadataStore } from './index';
+
+export const METADATA_KEY = 'metadata.json';
+
+export function parseMetadataFile(data: Buffer): MetadataFile {
+  let metadata: MetadataFile;
+  try {
+    metadata = JSON.parse(data.toString('utf-8')) as MetadataFile;
+  } catch (error) {
+    throw new MetadataCorruptError(`${METADATA_KEY} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!metadata || typeof metadata.publications !== 'object' || typeof metadata.filenameIndex !== 'object') {
+    throw new MetadataCorruptError(`${METADATA_KEY} is not a publication index`);
+  }
+  return metadata;
+}
+
+function emptyMetadata(): MetadataFile {
+  return { publications: {}, filenameIndex: {} };
+}
+
+/**
+ * The whole index in one file. Each change is applied to the stored file with a conditional write,
+ * so instances sharing the storage don't overwrite each other's publications.
+ */
+export class JsonMetadataStore implements MetadataStore {
+  readonly name = 'json';
+  private metadata: MetadataFile = emptyMetadata();
+  // Version of metadata.json this instance last read or wrote
+  private version: string | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  // Counts local changes, a refresh racing one of them must not swap in the older file
+  private changes = 0;
+  private unsaved = 0;
+  // Slug -> hash, built from the records on first lookup after a change
+  private slugIndex: Map<string, string> | null = null;
+
+  async initialize(): Promise<void> {
+    const stored = await storageDriver.stat(METADATA_KEY);
+    const data = await storageDriver.read(METADATA_KEY);
+
+    if (data === null) {
+      // Another instance may be creating it at the same time, whichever comes second keeps the first one's
+      const created = await updateJson<MetadataFile>(storageDriver, METADATA_KEY, current => current || emptyMetadata(), {
+        parse: parseMetadataFile,
+      });
+      this.metadata = created.value;
+      this.version = created.version;
+      return;
+    }
+
+    this.metadata = parseMetadataFile(data);
+    this.version = stored?.version || null;
+  }
+
+  async refresh(): Promise<boolean> {
+    if (this.unsaved > 0) return false;
+
+    const stored = await storageDriver.stat(METADATA_KEY);
+    if (!stored || stored.version === this.version) return false;
+
+    const changes = this.changes;
+    const data = await storageDriver.read(METADATA_KEY);
+    if (!data || changes !== this.changes) return false;
+
+    this.metadata = parseMetadataFile(data);
+    this.version = stored.version;
+    this.slugIndex = null;
+    return true;
+  }
+
+  // Applies the change here right away, then to the stored index
+  private save(change: (metadata: MetadataFile) => void, replace = false): Promise<void> {
+    change(this.metadata);
+    this.changes++;
+    this.unsaved++;
+    this.slugIndex = null;
+
+    // Chain writes, this instance's own changes don't need to race each other
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      const saved = await updateJson<MetadataFile>(storageDriver, METADATA_KEY, current => {
+        const metadata = current || emptyMetadata();
+        change(metadata);
+        return metadata;
+      }, {
+        // A replacement doesn't depend on what was stored, which may be the unreadable file being recovered
+        parse: replace ? emptyMetadata : parseMetadataFile,
+      });
+
+      // When other instances wrote in between, their changes are left for refresh, which reports them as events
+      if (replace || saved.base === this.version) this.version = saved.version;
+    }).finally(() => {
+      this.unsaved--;
+    });
+    return this.saving;
+  }
+
+  get(hash: string): Publication | null {
+    return this.metadata.publications[hash] || null;
+  }
+
+  findByFilename(filename: string): { hash: string; publication: Publication } | null {
+    const hash = this.metadata.filenameIndex[filename];
+    const publication = hash ? this.metadata.publications[hash] : undefined;
+    return publication ? { hash, publication } : null;
+  }
+
+  findBySlug(slug: string): { hash: string; publication: Publication } | null {
+    if (!this.slugIndex) {
+      this.slugIndex = new Map();
+      // Current slugs go last so they win over another publication's old one
+      for (const [hash, publication] of Object.entries(this.metadata.publications)) {
+        for (const previous of publication.previousSlugs || []) this.slugIndex.set(previous, hash);
+      }
+      for (const [hash, publication] of Object.entries(this.metadata.publications)) {
+        if (publication.slug) this.slugIndex.set(publication.slug, hash);
+      }
+    }
+
+    const hash = this.slugIndex.get(slug);
+    const publication = hash ? this.metadata.publications[hash] : undefined;
+    return publication ? { hash: hash!, publication } : null;
+  }
+
+  getAll(): Record<string, Publication> {
+    return this.metadata.publications;
+  }
+
+  async put(hash: string, publication: Publication): Promise<void> {
+    await this.save((metadata) => {
+      const previous = metadata.publications[hash];
+      if (previous && previous.filename !== publication.filename && metadata.filenameIndex[previous.filename] === hash) {
+        delete metadata.filenameIndex[previous.filename];
+      }
+
+      metadata.publications[hash] = publication;
+      metadata.filenameIndex[publication.filename] = hash;
+    });
+  }
+
+  async delete(hash: string): Promise<void> {
+    if (!this.metadata.publications[hash]) return;
+
+    await this.save((metadata) => {
+      const publication = metadata.publications[hash];
+      if (!publication) return;
+
+      if (metadata.filenameIndex[publication.filename] === hash) {
+        delete metadata.filenameIndex[publication.filename];
+      }
+      delete metadata.publications[hash];
+    });
+  }
+
+  async replaceAll(publications: Record<string, Publication>): Promise<void> {
+    const filenameIndex: Record<string, string> = {};
+    for (const [hash, publication] of Object.entries(publications)) {
+      filenameIndex[publication.filename] = hash;
+    }
+
+    await this.save((metadata) => {
+      metadata.publications = publications;
+      metadata.filenameIndex = filenameIndex;
+    }, true);
+  }
+}
@@ -0,0 +1,258 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { Publication } from '../../models/publication';
+import { storageDriver } from '../drivers';
+import { logger } from '../logger';
+import { MetadataCorruptError } from './errors';
+import { METADATA_KEY, parseMetadataFile } from './json';
+import type { MetadataStore } from './index';
+
+// Applied in order and never edited once released; user_version counts how many have run
+const MIGRATIONS: string[] = [
+  `CREATE TABLE publications (
+     hash TEXT PRIMARY KEY,
+     filename TEXT NOT NULL,
+     obsidian_path TEXT NOT NULL,
+     title TEXT NOT NULL,
+     revision INTEGER NOT NULL,
+     created_at TEXT NOT NULL,
+     updated_at TEXT NOT NULL,
+     record TEXT NOT NULL
+   );
+   CREATE INDEX publications_filename ON publications (filename);
+   CREATE INDEX publications_obsidian_path ON publications (obsidian_path);
+   CREATE TABLE store_info (
+     key TEXT PRIMARY KEY,
+     value TEXT NOT NULL
+   );`,
+  `CREATE TABLE publication_slugs (
+     slug TEXT PRIMARY KEY,
+     hash TEXT NOT NULL,
+     current INTEGER NOT NULL
+   );
+   CREATE INDEX publication_slugs_hash ON publication_slugs (hash);
+   INSERT OR REPLACE INTO publication_slugs (slug, hash, current)
+     SELECT previous.value, publications.hash, 0 FROM publications, json_each(publications.record, '$.previousSlugs') AS previous;
+   INSERT OR REPLACE INTO publication_slugs (slug, hash, current)
+     SELECT json_extract(record, '$.slug'), hash, 1 FROM publications WHERE json_extract(record, '$.slug') IS NOT NULL;`,
+];
+
+const INSERT_PUBLICATION = `INSERT INTO publications
+    (hash, filename, obsidian_path, title, revision, created_at, updated_at, record)
+    VALUES (@hash, @filename, @obsidianPath, @title, @revision, @createdAt, @updatedAt, @record)`;
+
+const INSERT_SLUG = 'INSERT OR REPLACE INTO publication_slugs (slug, hash, current) VALUES (?, ?, ?)';
+
+// Errors that mean the file itself is damaged, as opposed to locked or from a newer version
+const CORRUPTION_CODES = ['SQLITE_CORRUPT', 'SQLITE_NOTADB'];
+
+interface PublicationRow {
+  hash: string;
+  record: string;
+}
+
+// Current slug last, so it replaces another publication's old one
+function insertSlugs(db: Database.Database, hash: string, publication: Publication): void {
+  const insert = db.prepare(INSERT_SLUG);
+  for (const previous of publication.previousSlugs || []) insert.run(previous, hash, 0);
+  if (publication.slug) insert.run(publication.slug, hash, 1);
+}
+
+function toRow(hash: string, publication: Publication) {
+  return {
+    hash,
+    filename: publication.filename,
+    obsidianPath: publication.obsidianPath || '',
+    title: publication.title,
+    revision: publication.revision || 1,
+    createdAt: publication.createdAt,
+    updatedAt: publication.updatedAt,
+    record: JSON.stringify(publication),
+  };
+}
+
+// One row per publication, so a save only writes the publication that changed
+export class SqliteMetadataStore implements MetadataStore {
+  readonly name = 'sqlite';
+  private db: Database.Database | null = null;
+  // getAll() result, dropped when another connection commits
+  private all: Record<string, Publication> | null = null;
+  private dataVersion = 0;
+
+  constructor(private filePath: string) {}
+
+  private get database(): Database.Database {
+    if (!this.db) throw new Error('Metadata store is not initialized');
+    return this.db;
+  }
+
+  private open(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const db = new Database(this.filePath, { timeout: 5000 });
+    try {
+      // Readers in other processes (the CLI, a second instance) don't block on writes
+      db.pragma('journal_mode = WAL');
+      this.migrate(db);
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+
+    this.db = db;
+  }
+
+  private migrate(db: Database.Database): void {
+    const applied = db.pragma('user_version', { simple: true }) as number;
+    if (applied > MIGRATIONS.length) {
+      throw new Error(`${this.filePath} has schema version ${applied}, this server only knows ${MIGRATIONS.length}`);
+    }
+
+    for (let version = applied; version < MIGRATIONS.length; version++) {
+      db.transaction(() => {
+        db.exec(MIGRATIONS[version]);
+        db.pragma(`user_version = ${version + 1}`);
+      })();
+      logger.info('Metadata schema migrated', { version: version + 1 });
+    }
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      this.open();
+    } catch (error) {
+      if (!CORRUPTION_CODES.includes((error as { code?: string }).code || '')) throw error;
+
+      // Keep the unreadable file for inspection and start over, the caller recovers from the publication files
+      const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, corruptPath);
+      for (const suffix of ['-wal', '-shm']) {
+        fs.rmSync(`${this.filePath}${suffix}`, { force: true });
+      }
+      logger.error('Metadata database unreadable, moved aside', { path: corruptPath, error });
+
+      this.open();
+      throw new MetadataCorruptError(`Metadata database unreadable: ${(error as Error).message}`);
+    }
+
+    if (!this.getInfo('created_at')) {
+      await this.importJson();
+    }
+    this.dataVersion = this.readDataVersion();
+  }
+
+  // One-time import of the index kept by the json store; metadata.json stays as it was
+  private async importJson(): Promise<void> {
+    const data = await storageDriver.read(METADATA_KEY);
+    const publications = data ? parseMetadataFile(data).publications : {};
+
+    this.replaceRows(publications);
+    if (data) {
+      logger.info('Metadata imported from JSON', { count: Object.keys(publications).length });
+    }
+  }
+
+  private getInfo(key: string): string | null {
+    const row = this.database.prepare('SELECT value FROM store_info WHERE key = ?').get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  private readDataVersion(): number {
+    return this.database.pragma('data_version', { simple: true }) as number;
+  }
+
+  private replaceRows(publications: Record<string, Publication>): void {
+    const db = this.database;
+    const insert = db.prepare(INSERT_PUBLICATION);
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM publications').run();
+      db.prepare('DELETE FROM publication_slugs').run();
+      for (const [hash, publication] of Object.entries(publications)) {
+        insert.run(toRow(hash, publication));
+        insertSlugs(db, hash, publication);
+      }
+      db.prepare('INSERT OR IGNORE INTO store_info (key, value) VALUES (?, ?)').run('created_at', new Date().toISOString());
+    })();
+
+    this.all = null;
+  }
+
+  // data_version only changes when another connection commits
+  async refresh(): Promise<boolean> {
+    const version = this.readDataVersion();
+    if (version === this.dataVersion) return false;
+
+    this.dataVersion = version;
+    this.all = null;
+    return true;
+  }
+
+  get(hash: string): Publication | null {
+    const row = this.database.prepare('SELECT hash, record FROM publications WHERE hash = ?').get(hash) as PublicationRow | undefined;
+    return row ? JSON.parse(row.record) : null;
+  }
+
+  findByFilename(filename: string): { hash: string; publication: Publication } | null {
+    const row = this.database
+        .prepare('SELECT hash, record FROM publications WHERE filename = ? ORDER BY updated_at DESC LIMIT 1')
+        .get(filename) as PublicationRow | undefined;
+    return row ? { hash: row.hash, publication: JSON.parse(row.record) } : null;
+  }
+
+  findBySlug(slug: string): { hash: string; publication: Publication } | null {
+    const row = this.database
+        .prepare(`SELECT publications.hash, publications.record FROM publication_slugs
+            JOIN publications ON publications.hash = publication_slugs.hash
+            WHERE publication_slugs.slug = ?`)
+        .get(slug) as PublicationRow | undefined;
+    return row ? { hash: row.hash, publication: JSON.parse(row.record) } : null;
+  }
+
+  getAll(): Record<string, Publication> {
+    if (!this.all) {
+      const rows = this.database.prepare('SELECT hash, record FROM publications').all() as PublicationRow[];
+      this.all = {};
+      for (const row of rows) {
+        this.all[row.hash] = JSON.parse(row.record);
+      }
+    }
+    return this.all;
+  }
+
+  async put(hash: string, publication: Publication): Promise<void> {
+    const db = this.database;
+
+    db.transaction(() => {
+      db.prepare(`${INSERT_PUBLICATION}
+          ON CONFLICT (hash) DO UPDATE SET
+            filename = excluded.filename,
+            obsidian_path = excluded.obsidian_path,
+            title = excluded.title,
+            revision = excluded.revision,
+            created_at = excluded.created_at,
+            updated_at = excluded.updated_at,
+            record = excluded.record`).run(toRow(hash, publication));
+      db.prepare('DELETE FROM publication_slugs WHERE hash = ?').run(hash);
+      insertSlugs(db, hash, publication);
+    })();
+
+    if (this.all) this.all[hash] = publication;
+  }
+
+  async delete(hash: string): Promise<void> {
+    const db = this.database;
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM publications WHERE hash = ?').run(hash);
+      db.prepare('DELETE FROM publication_slugs WHERE hash = ?').run(hash);
+    })();
+
+    if (this.all) delete this.all[hash];
+  }
+
+  async replaceAll(publications: Record<string, Publication>): Promise<void> {
+    this.replaceRows(publications);
+  }
+}
@@ -0,0 +1,77 @@
+import path from 'path';
+import { config } from '../config';
+import type { StorageDriver } from './drivers';
+
+// Local-only data, rebuilt on demand by every instance
+const SKIPPED_PREFIXES = ['tmp/', 'cache/'];
+
+// Indexes are copied last, so a target that's already serving never points at objects that aren't there yet
+const INDEX_KEYS = ['blobs/refs.json', 'tokens.json', 'shares.json', 'views.json', 'tombstones.json', 'collections.json', 'metadata.json'];
+
+// Blobs are content-addressed and revision snapshots never rewritten, so one the target has is the same object.
+// Anything else, content.md and publication.json included, may have changed since an earlier run
+const IMMUTABLE_PATTERN = /^(?:blobs\/[0-9a-f]{2}\/|publications\/[^/]+\/revisions\/)/;
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+  // Copy blobs and revisions the target already has too
+  overwrite?: boolean;
+  // Called for every object copied, or that would be on a dry run
+  onCopy?: (key: string) => void;
+}
+
+export interface MigrationReport {
+  // Objects found in the source, minus local-only data
+  total: number;
+  copied: number;
+  skipped: number;
+}
+
+// Every key worth copying, indexes last
+async function listMigratedKeys(source: StorageDriver): Promise<string[]> {
+  const keys = (await source.list(''))
+      .filter(key => !SKIPPED_PREFIXES.some(prefix => key.startsWith(prefix)))
+      .filter(key => !key.endsWith('.tmp'))
+      // The SQLite metadata store is per instance, its -wal/-shm files included
+      .filter(key => !key.startsWith(path.basename(config.metadataDbPath)));
+
+  return [
+    ...keys.filter(key => !INDEX_KEYS.includes(key)),
+    ...INDEX_KEYS.filter(key => keys.includes(key)),
+  ];
+}
+
+/**
+ * Copy a data directory, or any other store, into another backend. Blobs and revisions the target already has
+ * are skipped, everything else is copied again so it reflects the source. Safe to run again after an interrupted migration.
+ */
+export async function migrateStorage(
+    source: StorageDriver,
+    target: StorageDriver,
+    options: MigrationOptions = {}
+): Promise<MigrationReport> {
+  const keys = await listMigratedKeys(source);
+  let copied = 0;
+  let skipped = 0;
+
+  for (const key of keys) {
+    const sourceObject = await source.stat(key);
+    const targetObject = await target.stat(key);
+
+    if (targetObject && targetObject.size === sourceObject?.size && !options.overwrite && IMMUTABLE_PATTERN.test(key)) {
+      skipped++;
+      continue;
+    }
+
+    if (!options.dryRun) {
+      const data = await source.read(key);
+      if (data === null) continue;
+      await target.write(key, data);
+    }
+
+    copied++;
+    options.onCopy?.(key);
+  }
+
+  return { total: keys.length, copied, skipped };
+}
@@ -0,0 +1,77 @@
+import { config } from '../config';
+import {
+  Publication,
+  PublicationListQuery,
+  PublicationListResponse,
+  PublicationSummary,
+} from '../models/publication';
+import { storageService } from './storage';
+
+// Site-relative path, for links between pages
+export function getPublicationPath(hash: string, publication: Publication): string {
+  return `/p/${publication.slug ? encodeURIComponent(publication.slug) : hash}`;
+}
+
+export function getPublicationUrl(hash: string, publication: Publication): string {
+  return `${config.baseUrl}${getPublicationPath(hash, publication)}`;
+}
+
+export function toPublicationSummary(hash: string, publication: Publication): PublicationSummary {
+  return {
+    hash,
+    url: getPublicationUrl(hash, publication),
+    slug: publication.slug || null,
+    filename: publication.filename,
+    title: publication.title,
+    obsidianPath: publication.obsidianPath,
+    tags: publication.tags || [],
+    protected: !!publication.passwordHash,
+    createdAt: publication.createdAt,
+    updatedAt: publication.updatedAt,
+  };
+}
+
+function matchesQuery(publication: Publication, query: PublicationListQuery): boolean {
+  if (query.pathPrefix !== undefined && !publication.obsidianPath.startsWith(query.pathPrefix)) {
+    return false;
+  }
+
+  if (query.protected !== undefined && !!publication.passwordHash !== query.protected) {
+    return false;
+  }
+
+  if (query.tag !== undefined) {
+    const tag = query.tag.replace(/^#/, '').toLowerCase();
+    if (!(publication.tags || []).some(t => t.toLowerCase() === tag)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export async function listPublications(query: PublicationListQuery): Promise<PublicationListResponse> {
+  const publications = await storageService.getAllPublications();
+  const direction = query.order === 'asc' ? 1 : -1;
+
+  const summaries = Object.entries(publications)
+      .filter(([, publication]) => matchesQuery(publication, query))
+      .map(([hash, publication]) => toPublicationSummary(hash, publication))
+      .sort((a, b) => {
+        const result = query.sort === 'title'
+            ? a.title.localeCompare(b.title)
+            : new Date(a[query.sort]).getTime() - new Date(b[query.sort]).getTime();
+        // Hash as tie-breaker keeps pages stable
+        return (result || a.hash.localeCompare(b.hash)) * direction;
+      });
+
+  const start = (query.page - 1) * query.limit;
+
+  return {
+    publications: summaries.slice(start, start + query.limit),
+    page: query.page,
+    limit: query.limit,
+    total: summaries.length,
+    totalPages: Math.ceil(summaries.length / query.limit),
+  };
+}
@@ -0,0 +1,300 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Publication } from '../models/publication';
+import { storageService } from './storage';
+import { RenderedMarkdown, TableOfContents, TocHeading, renderMarkdown, renderPropertiesTable } from './markdown';
+import { parseFrontmatter, getFrontmatterOptions } from './frontmatter';
+import { NoteResolver, ResolvedNote, createNoteResolver, parseWikilink } from './wikilinks';
+import { EMBED_PATTERN, AttachmentResolver, ImageSet, ImageSetResolver, embedKey, extractSection } from './embeds';
+import { getAttachmentKind, isAttachment } from './attachments';
+import { imageService } from './images';
+import { diagramKey, diagramService, findDiagramBlocks } from './diagrams';
+import { collectionService } from './collections';
+import { getExpiryReason } from './expiry';
+import { RenderDependencies, renderCache } from './renderCache';
+import { slugify } from './slugs';
+import { logger } from './logger';
+import { config } from '../config';
+
+// Bump whenever rendering changes, so pages cached by an older version are rendered again
+const RENDERER_VERSION = 1;
+
+// How many levels of ![[note]] transclusion are inlined before falling back to links
+const MAX_EMBED_DEPTH = 3;
+
+// Without a toc setting, pages get a table of contents from this many headings on
+const AUTO_TOC_MIN_HEADINGS = 3;
+const MAX_TOC_LEVEL = 4;
+
+export interface RenderedPublication {
+  html: string;
+  toc?: TableOfContents;
+}
+
+export interface CurrentRender extends RenderedPublication {
+  // Digest of the revision and the linked notes the page was rendered with, changes whenever the html does
+  version: string;
+}
+
+// Collected while rendering, to tell later whether a cached copy still holds
+interface RenderTracker {
+  links: Map<string, string>;
+  embeds: Map<string, string>;
+  // A diagram fell back to its source; such pages stay off disk so it's retried after a restart
+  partial: boolean;
+}
+
+interface Linkable {
+  generation: string;
+  // Earliest expiry among the linkable notes, the set changes then without any save
+  expiresAt: number;
+  publications: Record<string, Publication>;
+  resolveNote: NoteResolver;
+}
+
+let linkable: Linkable | null = null;
+
+function createTracker(): RenderTracker {
+  return { links: new Map(), embeds: new Map(), partial: false };
+}
+
+function getRevisionTag(publication: Publication): string {
+  return `${publication.revision || 1}@${publication.updatedAt}`;
+}
+
+function describeNote(note: ResolvedNote | null): string {
+  return note ? `${note.hash} ${note.title}` : '';
+}
+
+function trackResolver(resolveNote: NoteResolver, tracker: RenderTracker): NoteResolver {
+  return (target: string) => {
+    const note = resolveNote(target);
+    tracker.links.set(target, describeNote(note));
+    return note;
+  };
+}
+
+// Views of notes inlined into another page aren't counted, so view-limited notes are left out along with expired ones
+function isLinkable(publication: Publication, now: number): boolean {
+  return !collectionService.isHidden(publication) && !publication.maxViews && !getExpiryReason(publication, 0, now);
+}
+
+// Notes pages can link to and embed, rebuilt once a publication or collection changed or one of them expired
+async function getLinkable(): Promise<Linkable> {
+  const generation = `${storageService.getGeneration()}.${collectionService.getGeneration()}`;
+  const now = Date.now();
+
+  if (linkable?.generation !== generation || now >= linkable.expiresAt) {
+    const publications = Object.fromEntries(
+        Object.entries(await storageService.getAllPublications())
+            .filter(([, publication]) => isLinkable(publication, now))
+    );
+    const expiresAt = Object.values(publications).reduce((earliest, publication) =>
+      publication.expiresAt ? Math.min(earliest, new Date(publication.expiresAt).getTime()) : earliest, Infinity);
+
+    linkable = { generation, expiresAt, publications, resolveNote: createNoteResolver(publications) };
+  }
+
+  return linkable;
+}
+
+// Transform relative image paths to absolute URLs and encode spaces
+function transformImagePaths(content: string, hash: string): string {
+  // Replace ./images/filename with /p/hash/images/filename
+  // Also encode spaces in filenames as %20
+  return content.replace(
+      /!\[([^\]]*)\]\(\.\/images\/([^)]+)\)/g,
+      (match, alt, filename) => {
+        const encodedFilename = filename.replace(/ /g, '%20');
+        return `![${alt}](/p/${hash}/images/${encodedFilename})`;
+      }
+  );
+}
+
+// Map ![[file.ext]] embeds to the attachments stored with the publication
+function createAttachmentResolver(hash: string, publication: Publication): AttachmentResolver {
+  return (name: string) => {
+    const filename = storageService.sanitizeImageFilename(path.posix.basename(name.replace(/\\/g, '/')));
+
+    if (publication.images && !publication.images.includes(filename)) {
+      return null;
+    }
+
+    const route = getAttachmentKind(filename) === 'image' ? 'images' : 'files';
+    return `/p/${hash}/${route}/${encodeURIComponent(filename)}`;
+  };
+}
+
+// Image sizes are read up front as well, srcset descriptors need each image's real width
+async function loadImageSets(hash: string, publication: Publication): Promise<ImageSetResolver> {
+  const sets = new Map<string, ImageSet>();
+
+  for (const filename of publication.images || []) {
+    const dimensions = await imageService.getDimensions(hash, publication, filename);
+    if (!dimensions) continue;
+
+    const src = `/p/${hash}/images/${encodeURIComponent(filename)}`;
+    const candidates = config.imageVariantWidths
+        .filter(width => width < dimensions.width)
+        .map(width => `${src}?w=${width} ${width}w`);
+
+    sets.set(filename, {
+      src,
+      srcset: candidates.length > 0 ? [...candidates, `${src} ${dimensions.width}w`].join(', ') : null,
+      ...dimensions,
+    });
+  }
+
+  return (name: string) => {
+    const filename = storageService.sanitizeImageFilename(path.posix.basename(name.replace(/\\/g, '/')));
+    return sets.get(filename) || null;
+  };
+}
+
+// Render every embedded note up front, since marked renders synchronously
+async function loadEmbeds(
+    content: string,
+    publications: Record<string, Publication>,
+    resolveNote: NoteResolver,
+    chain: string[],
+    tracker: RenderTracker,
+    headingIdPrefix: string
+): Promise<Map<string, string>> {
+  const embeds = new Map<string, string>();
+
+  if (chain.length > MAX_EMBED_DEPTH) {
+    return embeds;
+  }
+
+  for (const match of content.matchAll(EMBED_PATTERN)) {
+    const link = parseWikilink(match[1]);
+    const key = embedKey(link);
+
+    if (!link.target || isAttachment(link.target) || embeds.has(key)) continue;
+
+    const note = resolveNote(link.target);
+    if (!note || chain.includes(note.hash)) continue;
+
+    const publication = publications[note.hash];
+    tracker.embeds.set(note.hash, getRevisionTag(publication));
+
+    // Never leak protected content into another page
+    if (publication.passwordHash) continue;
+
+    const noteContent = await storageService.getContent(note.hash);
+    if (!noteContent) continue;
+
+    const noteBody = parseFrontmatter(noteContent).body;
+    const section = link.heading ? extractSection(noteBody, link.heading) : noteBody;
+    if (section === null) continue;
+
+    const rendered = await renderBody(note.hash, publication, section, publications, resolveNote, [...chain, note.hash], tracker,
+        `${headingIdPrefix}embed-${slugify(key)}-`);
+    embeds.set(key, rendered.html);
+  }
+
+  return embeds;
+}
+
+async function renderBody(
+    hash: string,
+    publication: Publication,
+    content: string,
+    publications: Record<string, Publication>,
+    resolveNote: NoteResolver,
+    chain: string[],
+    tracker: RenderTracker,
+    headingIdPrefix = ''
+): Promise<RenderedMarkdown> {
+  const transformed = transformImagePaths(content, hash);
+
+  // Rendered up front as well, same as embeds
+  const diagrams = await diagramService.renderAll(transformed);
+  const blocks = new Set(findDiagramBlocks(transformed).map(block => diagramKey(block.language, block.source)));
+  if (diagrams.size < blocks.size) tracker.partial = true;
+
+  return renderMarkdown(transformed, {
+    resolveNote,
+    resolveAttachment: createAttachmentResolver(hash, publication),
+    resolveImageSet: await loadImageSets(hash, publication),
+    embeds: await loadEmbeds(transformed, publications, resolveNote, chain, tracker, headingIdPrefix),
+    diagrams,
+    headingIdPrefix,
+  });
+}
+
+function getTableOfContents(publication: Publication, headings: TocHeading[]): TableOfContents | undefined {
+  const listed = headings.filter(heading => heading.level <= MAX_TOC_LEVEL);
+
+  if (publication.toc === 'off' || listed.length === 0) return undefined;
+  if (!publication.toc && listed.length < AUTO_TOC_MIN_HEADINGS) return undefined;
+
+  return { headings: listed, sticky: publication.toc === 'sticky' };
+}
+
+async function renderPage(
+    hash: string,
+    publication: Publication,
+    content: string,
+    publications: Record<string, Publication>,
+    resolveNote: NoteResolver,
+    tracker: RenderTracker
+): Promise<RenderedPublication> {
+  const { data, body } = parseFrontmatter(content);
+  const { html, headings } = await renderBody(hash, publication, body, publications, resolveNote, [hash], tracker);
+
+  return {
+    html: getFrontmatterOptions(data).showProperties ? renderPropertiesTable(data) + html : html,
+    toc: getTableOfContents(publication, headings),
+  };
+}
+
+// Renders without the cache, for previews and earlier revisions
+export async function renderPublication(hash: string, publication: Publication, content: string): Promise<RenderedPublication> {
+  const { publications: visible } = await getLinkable();
+  // Hidden notes can still be previewed by admins, and link to themselves
+  const publications = visible[hash] ? visible : { ...visible, [hash]: publication };
+
+  return renderPage(hash, publication, content, publications, createNoteResolver(publications), createTracker());
+}
+
+function getCacheKey(publication: Publication): string {
+  return `v${RENDERER_VERSION}:${getRevisionTag(publication)}:${config.imageVariantWidths.join(',')}`;
+}
+
+function getVersion(key: string, dependencies: RenderDependencies): string {
+  return crypto.createHash('sha1').update(`${key}\n${JSON.stringify(dependencies)}`).digest('base64url').slice(0, 16);
+}
+
+function isCurrent(dependencies: RenderDependencies, linkable: Linkable): boolean {
+  return dependencies.links.every(([target, note]) => describeNote(linkable.resolveNote(target)) === note)
+      && dependencies.embeds.every(([hash, revision]) =>
+        !!linkable.publications[hash] && getRevisionTag(linkable.publications[hash]) === revision);
+}
+
+/**
+ * Current revision of a visible publication, from the render cache as long as the notes it links to and embeds
+ * are unchanged. Null when its content is missing.
+ */
+export async function getRenderedPublication(hash: string, publication: Publication): Promise<CurrentRender | null> {
+  const current = await getLinkable();
+  const key = getCacheKey(publication);
+
+  const cached = await renderCache.get(hash, key, dependencies => isCurrent(dependencies, current));
+  if (cached) {
+    return { html: cached.html, toc: cached.toc, version: getVersion(key, cached.dependencies) };
+  }
+
+  const content = await storageService.getContent(hash);
+  if (!content) return null;
+
+  const started = Date.now();
+  const tracker = createTracker();
+  const rendered = await renderPage(hash, publication, content, current.publications, trackResolver(current.resolveNote, tracker), tracker);
+  logger.debug('Publication rendered', { hash, duration: `${Date.now() - started}ms` });
+
+  const dependencies: RenderDependencies = { links: [...tracker.links], embeds: [...tracker.embeds] };
+  await renderCache.set(hash, { key, ...rendered, dependencies }, !tracker.partial);
+
+  return { ...rendered, version: getVersion(key, dependencies) };
+}
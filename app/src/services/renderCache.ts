@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config';
+import type { TableOfContents } from './markdown';
+import { storageService } from './storage';
+import { logger } from './logger';
+
+const CACHE_DIR = path.join('cache', 'render');
+
+// What a rendered page depends on besides its own revision
+export interface RenderDependencies {
+  // Link and embed targets, and the note each resolved to ('' when unresolved)
+  links: Array<[target: string, note: string]>;
+  // Embedded publications and the revision that was inlined
+  embeds: Array<[hash: string, revision: string]>;
+}
+
+export interface CachedRender {
+  // Publication revision and renderer version the page was rendered from
+  key: string;
+  html: string;
+  toc?: TableOfContents;
+  dependencies: RenderDependencies;
+}
+
+export interface RenderCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  disk: boolean;
+}
+
+class RenderCacheService {
+  private cachePath: string;
+  // One page per publication, in least recently used order
+  private memory = new Map<string, CachedRender>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor() {
+    this.cachePath = path.join(config.dataDir, CACHE_DIR);
+
+    storageService.on('publicationSaved', (hash) => {
+      this.invalidate(hash).catch(error => logger.warn('Failed to invalidate rendered page', { hash, error }));
+    });
+    storageService.on('publicationDeleted', (hash) => {
+      this.invalidate(hash).catch(error => logger.warn('Failed to invalidate rendered page', { hash, error }));
+    });
+  }
+
+  private get enabled(): boolean {
+    return config.renderCacheSize > 0;
+  }
+
+  // Drop pages of publications deleted while the server was down, or all of them once the disk cache is turned off
+  async initialize(): Promise<void> {
+    if (!this.enabled || !config.renderCacheDisk) {
+      await fs.rm(this.cachePath, { recursive: true, force: true });
+      return;
+    }
+
+    const publications = await storageService.getAllPublications();
+    let removed = 0;
+
+    try {
+      for (const file of await fs.readdir(this.cachePath)) {
+        if (publications[path.basename(file, '.json')]) continue;
+        await fs.rm(path.join(this.cachePath, file), { force: true });
+        removed++;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    if (removed > 0) {
+      logger.info('Stale rendered pages pruned', { removed });
+    }
+  }
+
+  private getCacheFile(hash: string): string {
+    return path.join(this.cachePath, `${hash}.json`);
+  }
+
+  /**
+   * Rendered page for this key, from memory or the disk cache.
+   * isCurrent checks the links and embeds it was rendered with against the publications now published.
+   */
+  async get(hash: string, key: string, isCurrent: (dependencies: RenderDependencies) => boolean): Promise<CachedRender | null> {
+    if (!this.enabled) return null;
+
+    let entry = this.memory.get(hash);
+    let source = 'memory';
+
+    if (!entry && config.renderCacheDisk) {
+      try {
+        entry = JSON.parse(await fs.readFile(this.getCacheFile(hash), 'utf-8')) as CachedRender;
+        source = 'disk';
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.warn('Unreadable rendered page in cache', { hash, error: (error as Error).message });
+        }
+      }
+    }
+
+    let reason: string | null = null;
+    if (!entry) reason = 'not cached';
+    else if (entry.key !== key) reason = 'outdated';
+    else if (!isCurrent(entry.dependencies)) reason = 'linked notes changed';
+
+    if (reason) {
+      this.misses++;
+      logger.debug('Render cache miss', { hash, reason });
+      return null;
+    }
+
+    this.hits++;
+    logger.debug('Render cache hit', { hash, source });
+    this.remember(hash, entry!);
+    return entry!;
+  }
+
+  // persist is false for pages that should be rendered again after a restart
+  async set(hash: string, entry: CachedRender, persist: boolean): Promise<void> {
+    if (!this.enabled) return;
+
+    this.remember(hash, entry);
+    if (!config.renderCacheDisk || !persist) return;
+
+    try {
+      const cacheFile = this.getCacheFile(hash);
+      const tempPath = `${cacheFile}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+      await fs.mkdir(this.cachePath, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(entry));
+      await fs.rename(tempPath, cacheFile);
+    } catch (error) {
+      logger.warn('Failed to cache rendered page', { hash, error: (error as Error).message });
+    }
+  }
+
+  private remember(hash: string, entry: CachedRender): void {
+    // Re-insert to keep recently used entries at the end
+    this.memory.delete(hash);
+    this.memory.set(hash, entry);
+    if (this.memory.size > config.renderCacheSize) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+
+  async invalidate(hash: string): Promise<void> {
+    this.memory.delete(hash);
+    if (config.renderCacheDisk) {
+      await fs.rm(this.getCacheFile(hash), { force: true });
+    }
+  }
+
+  getStats(): RenderCacheStats {
+    return { hits: this.hits, misses: this.misses, entries: this.memory.size, disk: config.renderCacheDisk };
+  }
+}
+
+export const renderCache = new RenderCacheService();
@@ -0,0 +1,222 @@
+import { Publication } from '../models/publication';
+import { storageService } from './storage';
+import { parseFrontmatter } from './frontmatter';
+import { escapeHtml } from './markdown';
+import { getPublicationPath } from './publications';
+import { logger } from './logger';
+
+export interface SearchResult {
+  hash: string;
+  title: string;
+  url: string;
+  // HTML-escaped excerpt with matches wrapped in <mark>
+  snippet: string;
+  score: number;
+}
+
+interface IndexedDocument {
+  title: string;
+  url: string;
+  text: string;
+  termFrequencies: Map<string, number>;
+  titleTerms: Set<string>;
+  length: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_BOOST = 2;
+
+const SNIPPET_LENGTH = 200;
+const MAX_QUERY_TERMS = 10;
+const MIN_PREFIX_LENGTH = 2;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+function normalizeTerm(term: string): string {
+  return term.normalize('NFKC').toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) || []).map(normalizeTerm);
+}
+
+// Strip markdown syntax so snippets read like the rendered page
+function toPlainText(markdown: string): string {
+  return parseFrontmatter(markdown).body
+      .replace(/```[^\n]*\n/g, '')
+      .replace(/!\[\[[^\]]*\]\]/g, '')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[\[([^\]|]*)\|([^\]]*)\]\]/g, '$2')
+      .replace(/\[\[([^\]]*)\]\]/g, '$1')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .replace(/^\s{0,3}(?:#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+      .replace(/\[![\w-]+\][+-]?/g, '')
+      .replace(/[*_~`=]+/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+}
+
+class SearchService {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  constructor() {
+    storageService.on('publicationSaved', (hash, publication, content) => {
+      this.indexPublication(hash, publication, content);
+    });
+    storageService.on('publicationDeleted', (hash) => {
+      this.removePublication(hash);
+    });
+  }
+
+  async initialize(): Promise<void> {
+    const publications = await storageService.getAllPublications();
+
+    for (const [hash, publication] of Object.entries(publications)) {
+      const content = await storageService.getContent(hash);
+      if (content !== null) {
+        this.indexPublication(hash, publication, content);
+      }
+    }
+
+    logger.info('Search index built', { documents: this.documents.size, terms: this.postings.size });
+  }
+
+  indexPublication(hash: string, publication: Publication, content: string): void {
+    this.removePublication(hash);
+
+    const text = toPlainText(content);
+    const terms = tokenize(text);
+    const titleTerms = new Set(tokenize(publication.title));
+    const termFrequencies = new Map<string, number>();
+
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+    }
+
+    for (const term of new Set([...termFrequencies.keys(), ...titleTerms])) {
+      if (!this.postings.has(term)) this.postings.set(term, new Set());
+      this.postings.get(term)!.add(hash);
+    }
+
+    this.documents.set(hash, {
+      title: publication.title,
+      url: getPublicationPath(hash, publication),
+      text,
+      termFrequencies,
+      titleTerms,
+      length: terms.length,
+    });
+    this.totalLength += terms.length;
+  }
+
+  removePublication(hash: string): void {
+    const document = this.documents.get(hash);
+    if (!document) return;
+
+    for (const term of new Set([...document.termFrequencies.keys(), ...document.titleTerms])) {
+      const hashes = this.postings.get(term);
+      hashes?.delete(hash);
+      if (hashes && hashes.size === 0) this.postings.delete(term);
+    }
+
+    this.documents.delete(hash);
+    this.totalLength -= document.length;
+  }
+
+  // The last term also matches as a prefix, so results show up while typing
+  private expandTerms(queryTerms: string[]): string[][] {
+    return queryTerms.map((term, index) => {
+      if (index < queryTerms.length - 1 || term.length < MIN_PREFIX_LENGTH) return [term];
+      return [...this.postings.keys()].filter(indexed => indexed.startsWith(term));
+    });
+  }
+
+  search(query: string, isVisible: (hash: string) => boolean, limit = 20): SearchResult[] {
+    const queryTerms = [...new Set(tokenize(query))].slice(0, MAX_QUERY_TERMS);
+    if (queryTerms.length === 0 || this.documents.size === 0) return [];
+
+    const expanded = this.expandTerms(queryTerms);
+    const matchTerms = new Set(expanded.flat());
+    const averageLength = this.totalLength / this.documents.size || 1;
+    const scores = new Map<string, number>();
+
+    // Every query term has to match (AND semantics)
+    const matchesPerTerm = expanded.map(variants => {
+      const matches = new Set<string>();
+      for (const term of variants) {
+        this.postings.get(term)?.forEach(hash => matches.add(hash));
+      }
+      return matches;
+    });
+    const candidates = [...matchesPerTerm[0]].filter(hash => matchesPerTerm.every(matches => matches.has(hash)));
+
+    for (const hash of candidates) {
+      if (!isVisible(hash)) continue;
+
+      const document = this.documents.get(hash)!;
+      let score = 0;
+
+      for (const term of matchTerms) {
+        const documentFrequency = this.postings.get(term)?.size || 0;
+        if (documentFrequency === 0) continue;
+
+        const idf = Math.log(1 + (this.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        const tf = document.termFrequencies.get(term) || 0;
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * document.length / averageLength));
+
+        if (document.titleTerms.has(term)) {
+          score += idf * TITLE_BOOST;
+        }
+      }
+
+      scores.set(hash, score);
+    }
+
+    return [...scores.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([hash, score]) => {
+          const document = this.documents.get(hash)!;
+          return {
+            hash,
+            title: document.title,
+            url: document.url,
+            snippet: this.getSnippet(document.text, matchTerms),
+            score,
+          };
+        });
+  }
+
+  private getSnippet(text: string, terms: Set<string>): string {
+    let firstMatch = -1;
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      if (terms.has(normalizeTerm(match[0]))) {
+        firstMatch = match.index!;
+        break;
+      }
+    }
+
+    const start = Math.max(0, firstMatch - SNIPPET_LENGTH / 4);
+    const excerpt = text.slice(start, start + SNIPPET_LENGTH);
+
+    let html = '';
+    let position = 0;
+    for (const match of excerpt.matchAll(WORD_PATTERN)) {
+      if (!terms.has(normalizeTerm(match[0]))) continue;
+      html += escapeHtml(excerpt.slice(position, match.index));
+      html += `<mark>${escapeHtml(match[0])}</mark>`;
+      position = match.index! + match[0].length;
+    }
+    html += escapeHtml(excerpt.slice(position));
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = start + SNIPPET_LENGTH < text.length ? '…' : '';
+    return `${prefix}${html}${suffix}`;
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+import { nanoid } from 'nanoid';
+import { config } from '../config';
+import { ShareLink, ShareLinkInfo, ShareLinkStore } from '../models/share';
+import { storageDriver, updateJson } from './drivers';
+import { storageService } from './storage';
+import { logger } from './logger';
+
+const SHARES_FILE = 'shares.json';
+
+// Usage is recorded on every page view, so it's written in batches
+const USAGE_SAVE_DELAY = 60000;
+
+// Binds the link to its publication, so a token can't be replayed against another one
+function sign(id: string, hash: string): string {
+  return crypto.createHmac('sha256', config.secretKey).update(`share:${id}:${hash}`).digest('base64url');
+}
+
+function isActive(link: ShareLink, now = Date.now()): boolean {
+  return !link.revokedAt && (!link.expiresAt || new Date(link.expiresAt).getTime() > now);
+}
+
+function toShareLinkInfo(link: ShareLink): ShareLinkInfo {
+  return {
+    ...link,
+    url: `${config.baseUrl}/p/${link.hash}?t=${link.id}.${sign(link.id, link.hash)}`,
+    active: isActive(link),
+  };
+}
+
+class ShareLinkService {
+  private store: ShareLinkStore | null = null;
+  private storeVersion: string | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  // Link id -> uses this instance hasn't written yet
+  private pendingUsage: Record<string, { uses: number; lastUsedAt: string }> = {};
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    // Also covers hash rotation, which is meant to cut off every URL that leaked
+    storageService.on('publicationDeleted', (hash) => {
+      this.removeForPublication(hash).catch(error => logger.error('Failed to remove share links', { error, hash }));
+    });
+  }
+
+  async initialize(): Promise<void> {
+    const data = await storageDriver.read(SHARES_FILE);
+
+    if (data) {
+      this.store = JSON.parse(data.toString('utf-8'));
+      this.storeVersion = (await storageDriver.stat(SHARES_FILE))?.version || null;
+      logger.info('Share links loaded', { count: Object.keys(this.store!.links).length });
+    } else {
+      this.store = { links: {} };
+    }
+  }
+
+  // Pick up links created or revoked by other instances sharing the same storage
+  async refresh(): Promise<void> {
+    if (!this.store) return;
+
+    const stored = await storageDriver.stat(SHARES_FILE);
+    if (!stored || stored.version === this.storeVersion) return;
+
+    const data = await storageDriver.read(SHARES_FILE);
+    if (!data) return;
+
+    this.store = this.applyUsage(JSON.parse(data.toString('utf-8')), this.pendingUsage);
+    this.storeVersion = stored.version;
+  }
+
+  // Uses not written yet, on top of links read from storage
+  private applyUsage(store: ShareLinkStore, usage: Record<string, { uses: number; lastUsedAt: string }>): ShareLinkStore {
+    for (const [id, { uses, lastUsedAt }] of Object.entries(usage)) {
+      const link = store.links[id];
+      if (!link) continue;
+      link.uses += uses;
+      if (!link.lastUsedAt || lastUsedAt > link.lastUsedAt) link.lastUsedAt = lastUsedAt;
+    }
+    return store;
+  }
+
+  /**
+   * Apply a change here and to the stored links, with a conditional write so links created or revoked
+   * by other instances in the meantime aren't lost. Usage is already counted here, only the stored copy needs it.
+   */
+  private update(change: (store: ShareLinkStore) => void, applyHere = true): Promise<void> {
+    if (applyHere) change(this.store!);
+
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      const saved = await updateJson<ShareLinkStore>(storageDriver, SHARES_FILE, (current) => {
+        const store = current || { links: {} };
+        change(store);
+        return store;
+      });
+
+      this.store = this.applyUsage(saved.value, this.pendingUsage);
+      this.storeVersion = saved.version;
+    });
+    return this.saving;
+  }
+
+  private async saveUsage(): Promise<void> {
+    const usage = this.pendingUsage;
+    this.pendingUsage = {};
+
+    try {
+      await this.update(store => this.applyUsage(store, usage), false);
+    } catch (error) {
+      for (const [id, { uses, lastUsedAt }] of Object.entries(usage)) {
+        const pending = this.pendingUsage[id];
+        this.pendingUsage[id] = pending ? { uses: pending.uses + uses, lastUsedAt: pending.lastUsedAt } : { uses, lastUsedAt };
+      }
+      throw error;
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saveUsage().catch(error => logger.error('Failed to save share links', { error }));
+    }, USAGE_SAVE_DELAY);
+    this.saveTimer.unref();
+  }
+
+  async createLink(hash: string, label: string, expiresAt: string | null): Promise<ShareLinkInfo> {
+    if (!this.store) await this.initialize();
+
+    const link: ShareLink = {
+      id: nanoid(12),
+      hash,
+      label,
+      createdAt: new Date().toISOString(),
+      expiresAt,
+      revokedAt: null,
+      lastUsedAt: null,
+      uses: 0,
+    };
+
+    await this.update((store) => {
+      store.links[link.id] = { ...link };
+    });
+    logger.info('Share link created', { hash, linkId: link.id, label });
+
+    return toShareLinkInfo(link);
+  }
+
+  async listLinks(hash: string): Promise<ShareLinkInfo[]> {
+    if (!this.store) await this.initialize();
+
+    return Object.values(this.store!.links)
+        .filter(link => link.hash === hash)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(toShareLinkInfo);
+  }
+
+  async revokeLink(hash: string, id: string): Promise<ShareLinkInfo | null> {
+    if (!this.store) await this.initialize();
+
+    const link = this.store!.links[id];
+    if (!link || link.hash !== hash) return null;
+
+    if (!link.revokedAt) {
+      const revokedAt = new Date().toISOString();
+      await this.update((store) => {
+        if (store.links[id] && !store.links[id].revokedAt) store.links[id].revokedAt = revokedAt;
+      });
+      logger.info('Share link revoked', { hash, linkId: id, label: link.label });
+    }
+
+    return toShareLinkInfo(this.store!.links[id] || link);
+  }
+
+  /**
+   * Check a ?t= token against the publication it was presented for and count the use.
+   * Returns the link when it's valid, unexpired and not revoked.
+   */
+  redeem(hash: string, token: string): ShareLink | null {
+    if (!this.store) return null;
+
+    const [id, signature] = token.split('.');
+    if (!id || !signature) return null;
+
+    const expected = Buffer.from(sign(id, hash));
+    const presented = Buffer.from(signature);
+    if (presented.length !== expected.length || !crypto.timingSafeEqual(presented, expected)) return null;
+
+    const link = this.store.links[id];
+    if (!link || link.hash !== hash || !isActive(link)) return null;
+
+    link.uses++;
+    link.lastUsedAt = new Date().toISOString();
+    this.pendingUsage[id] = { uses: (this.pendingUsage[id]?.uses || 0) + 1, lastUsedAt: link.lastUsedAt };
+    this.scheduleSave();
+
+    return link;
+  }
+
+  // Checked on every request a share link unlocked, so revoking it cuts off readers who already opened it
+  isLinkActive(hash: string, id: string): boolean {
+    const link = this.store?.links[id];
+    return !!link && link.hash === hash && isActive(link);
+  }
+
+  private async removeForPublication(hash: string): Promise<void> {
+    if (!this.store) return;
+
+    const ids = Object.keys(this.store.links).filter(id => this.store!.links[id].hash === hash);
+    if (ids.length === 0) return;
+
+    await this.update((store) => {
+      for (const id of ids) {
+        delete store.links[id];
+      }
+    });
+  }
+}
+
+export const shareLinkService = new ShareLinkService();
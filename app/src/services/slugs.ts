@@ -0,0 +1,28 @@
+import { Publication } from '../models/publication';
+
+const MAX_SLUG_LENGTH = 100;
+
+// Paths under /p that a slug would shadow
+export const RESERVED_SLUGS = ['search', 'graph'];
+
+// Lowercase letters and digits in any script, runs of anything else become one hyphen
+export function slugify(value: string): string {
+  return value
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .slice(0, MAX_SLUG_LENGTH)
+      .replace(/^-+|-+$/g, '');
+}
+
+// Slug fields after changing the slug, the one being replaced keeps redirecting
+export function withSlug(publication: Publication | null, slug: string | null): Pick<Publication, 'slug' | 'previousSlugs'> {
+  const previousSlugs = new Set(publication?.previousSlugs || []);
+  if (publication?.slug && publication.slug !== slug) previousSlugs.add(publication.slug);
+  if (slug) previousSlugs.delete(slug);
+
+  return {
+    slug: slug || undefined,
+    previousSlugs: previousSlugs.size > 0 ? [...previousSlugs] : undefined,
+  };
+}
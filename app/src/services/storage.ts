@@ -1,139 +1,275 @@
-import fs from 'fs/promises';
-import path from 'path';
+import { EventEmitter } from 'events';
+import { nanoid } from 'nanoid';
+import { Readable } from 'stream';
 import { config } from '../config';
-import { MetadataStore, Publication, ImageData } from '../models/publication';
+import { Publication, ImageData, Revision, RevisionInfo } from '../models/publication';
+import { blobStore } from './blobs';
+import { storageDriver } from './drivers';
+import { MetadataCorruptError, metadataStore } from './metadata';
+import { getMaxAttachmentSize, getMimeType, isAllowedAttachmentType } from './attachments';
+import { removePassword } from './frontmatter';
 import { logger } from './logger';
 
-const METADATA_FILE = 'metadata.json';
-const PUBLICATIONS_DIR = 'publications';
+export const PUBLICATIONS_DIR = 'publications';
+export const REVISIONS_DIR = 'revisions';
+// Full Publication record kept next to content.md, and in every revision
+export const RECORD_FILE = 'publication.json';
 
-class StorageService {
-  private metadataPath: string;
-  private publicationsPath: string;
-  private metadata: MetadataStore | null = null;
+export function getPublicationKey(hash: string): string {
+  return `${PUBLICATIONS_DIR}/${hash}`;
+}
+
+// Only publications saved before the blob store keep images under their own key
+export function getImageKey(hash: string, filename: string): string {
+  return `${getPublicationKey(hash)}/images/${filename}`;
+}
 
-  constructor() {
-    this.metadataPath = path.join(config.dataDir, METADATA_FILE);
-    this.publicationsPath = path.join(config.dataDir, PUBLICATIONS_DIR);
+export function getRevisionKey(hash: string, revision: number): string {
+  return `${getPublicationKey(hash)}/${REVISIONS_DIR}/${revision}`;
+}
+
+// Thrown when an If-Match precondition doesn't hold against the stored publication
+export class PreconditionFailedError extends Error {
+  constructor(public readonly current: Publication | null) {
+    super('Publication was modified by another request');
+    this.name = 'PreconditionFailedError';
   }
+}
 
-  async initialize(): Promise<void> {
-    await fs.mkdir(config.dataDir, { recursive: true });
-    await fs.mkdir(this.publicationsPath, { recursive: true });
+export function getPublicationEtag(publication: Publication): string {
+  return `"r${publication.revision || 1}"`;
+}
+
+// Strong comparison as required for If-Match; "*" matches any existing publication
+function matchesIfMatch(ifMatch: string, publication: Publication | null): boolean {
+  if (!publication) return false;
+  if (ifMatch.trim() === '*') return true;
 
+  const etag = getPublicationEtag(publication);
+  return ifMatch.split(',').some(tag => tag.trim() === etag);
+}
+
+export interface StoredAttachment {
+  filename: string;
+  size: number;
+  mimeType: string;
+  // null when the file was removed after it was looked up
+  openReadStream(range?: { start: number; end: number }): Promise<Readable | null>;
+}
+
+export interface StorageEvents {
+  publicationSaved: [hash: string, publication: Publication, content: string];
+  publicationDeleted: [hash: string, publication: Publication];
+  // Hash rotated; followed by publicationDeleted and publicationSaved for the two hashes
+  publicationMoved: [from: string, to: string, publication: Publication];
+}
+
+class StorageService extends EventEmitter<StorageEvents> {
+  private initialized = false;
+  private locks = new Map<string, Promise<unknown>>();
+  // Bumped on every save and delete, rendered pages depend on other publications too
+  private generation = Date.now();
+
+  async initialize(): Promise<void> {
     try {
-      const data = await fs.readFile(this.metadataPath, 'utf-8');
-      this.metadata = JSON.parse(data);
-      logger.info('Metadata loaded successfully');
+      await metadataStore.initialize();
+      logger.info('Metadata loaded successfully', { store: metadataStore.name, driver: storageDriver.name });
     } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        this.metadata = {
-          publications: {},
-          filenameIndex: {},
-        };
-        await this.saveMetadata();
-        logger.info('Created new metadata file');
-      } else {
-        logger.error('Failed to load metadata, attempting recovery', { error });
-        await this.recoverMetadata();
-      }
+      // Storage that can't be reached is not a reason to rewrite the index other instances share
+      if (!(error instanceof MetadataCorruptError)) throw error;
+      logger.error('Failed to load metadata, attempting recovery', { error: error.message });
+      await this.recoverMetadata();
     }
+    this.initialized = true;
   }
 
+  // Pick up publications saved or deleted by other instances sharing the same storage
+  async refresh(): Promise<void> {
+    if (!this.initialized || this.locks.size > 0) return;
+
+    const previous = metadataStore.getAll();
+    if (!(await metadataStore.refresh())) return;
+
+    const current = metadataStore.getAll();
+    this.generation++;
+
+    for (const [hash, publication] of Object.entries(current)) {
+      const known = previous[hash];
+      if (known && known.revision === publication.revision && known.updatedAt === publication.updatedAt) continue;
+
+      const content = await this.getContent(hash);
+      if (content !== null) this.emit('publicationSaved', hash, publication, content);
+    }
+
+    for (const [hash, publication] of Object.entries(previous)) {
+      if (!current[hash]) this.emit('publicationDeleted', hash, publication);
+    }
+
+    logger.info('Metadata refreshed from storage', { publications: Object.keys(current).length });
+  }
+
+  // Rebuild the index from the publication.json written next to every content.md
   private async recoverMetadata(): Promise<void> {
     logger.warn('Recovering metadata from files...');
-    this.metadata = {
-      publications: {},
-      filenameIndex: {},
-    };
+    const publications: Record<string, Publication> = {};
+    let skipped = 0;
 
     try {
-      const items = await fs.readdir(this.publicationsPath, { withFileTypes: true });
-      for (const item of items) {
-        if (item.isDirectory()) {
-          const hash = item.name;
-          const contentPath = path.join(this.publicationsPath, hash, 'content.md');
-          try {
-            await fs.access(contentPath);
-            this.metadata.publications[hash] = {
-              filename: hash,
-              title: hash,
-              obsidianPath: '',
-              passwordHash: null,
-              createdAt: new Date().toISOString(),
-              updatedAt: new Date().toISOString(),
-              images: [],
-            };
-          } catch {
-            // No content.md, skip
-          }
+      for (const hash of await this.listPublicationsWith('content.md')) {
+        let record: Publication | null = null;
+        try {
+          record = await this.readRecord(hash);
+        } catch (error) {
+          logger.warn('Unreadable publication record', { hash, error: (error as Error).message });
+        }
+
+        // Without its record there's no telling whether the note was password protected, so it stays unpublished
+        if (!record) {
+          logger.warn('Publication has no record, left out of the index', { hash });
+          skipped++;
+          continue;
         }
+
+        publications[hash] = record;
       }
-      await this.saveMetadata();
-      logger.info('Metadata recovered', { count: Object.keys(this.metadata.publications).length });
+      await metadataStore.replaceAll(publications);
+      logger.info('Metadata recovered', { count: Object.keys(publications).length, skipped });
     } catch (error) {
       logger.error('Failed to recover metadata', { error });
       throw error;
     }
   }
 
-  private async saveMetadata(): Promise<void> {
-    if (!this.metadata) return;
+  // Hashes with publications/<hash>/<name>, indexed or not
+  private async listPublicationsWith(name: string): Promise<string[]> {
+    const hashes: string[] = [];
 
-    const tempPath = `${this.metadataPath}.tmp`;
-    await fs.writeFile(tempPath, JSON.stringify(this.metadata, null, 2), 'utf-8');
-    await fs.rename(tempPath, this.metadataPath);
+    for (const key of await storageDriver.list(PUBLICATIONS_DIR)) {
+      // Revisions have their own content.md and publication.json deeper down
+      const [, hash, file, ...rest] = key.split('/');
+      if (file === name && rest.length === 0) hashes.push(hash);
+    }
+    return hashes;
   }
 
-  private getPublicationDir(hash: string): string {
-    return path.join(this.publicationsPath, hash);
+  // The publication.json sidecar; null when there is none, throws when it can't be parsed
+  async readRecord(hash: string): Promise<Publication | null> {
+    const data = await storageDriver.read(`${getPublicationKey(hash)}/${RECORD_FILE}`);
+    if (data === null) return null;
+
+    const record = JSON.parse(data.toString('utf-8')) as Publication;
+    if (!record || typeof record.filename !== 'string' || typeof record.title !== 'string') {
+      throw new Error(`${RECORD_FILE} is not a publication record`);
+    }
+    return record;
   }
 
-  private getImagesDir(hash: string): string {
-    return path.join(this.getPublicationDir(hash), 'images');
+  async writeRecord(hash: string, publication: Publication): Promise<void> {
+    await storageDriver.write(`${getPublicationKey(hash)}/${RECORD_FILE}`, JSON.stringify(publication, null, 2), {
+      contentType: 'application/json',
+    });
+  }
+
+  // Publications saved before sidecars existed get one, so they survive a recovery too
+  async backfillRecords(): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const existing = new Set(await this.listPublicationsWith(RECORD_FILE));
+
+    let written = 0;
+    for (const hash of Object.keys(metadataStore.getAll())) {
+      if (existing.has(hash)) continue;
+
+      await this.withLock(hash, async () => {
+        // Re-read under the lock, it may have been saved or deleted since
+        const current = metadataStore.get(hash);
+        if (current) await this.writeRecord(hash, current);
+      });
+      written++;
+    }
+
+    if (written > 0) {
+      logger.info('Publication records written', { count: written });
+    }
+  }
+
+  // Serialize writes to the same publication so If-Match checks can't race
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.locks.set(key, run);
+
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(key) === run) {
+        this.locks.delete(key);
+      }
+    }
+  }
+
+  getGeneration(): number {
+    return this.generation;
   }
 
   async getPublicationByFilename(filename: string): Promise<{ hash: string; publication: Publication } | null> {
-    if (!this.metadata) await this.initialize();
+    if (!this.initialized) await this.initialize();
     
-    const hash = this.metadata!.filenameIndex[filename];
-    if (!hash) return null;
-
-    const publication = this.metadata!.publications[hash];
-    if (!publication) return null;
+    return metadataStore.findByFilename(filename);
+  }
 
-    return { hash, publication };
+  // Also finds publications by a slug they used to have
+  async getPublicationBySlug(slug: string): Promise<{ hash: string; publication: Publication } | null> {
+    if (!this.initialized) await this.initialize();
+    return metadataStore.findBySlug(slug);
   }
 
   async getPublicationByHash(hash: string): Promise<Publication | null> {
-    if (!this.metadata) await this.initialize();
-    return this.metadata!.publications[hash] || null;
+    if (!this.initialized) await this.initialize();
+    return metadataStore.get(hash);
   }
 
   async savePublication(
     hash: string,
     content: string,
     publication: Publication,
-    images?: ImageData[]
+    images?: ImageData[],
+    ifMatch?: string
   ): Promise<number> {
-    if (!this.metadata) await this.initialize();
+    if (!this.initialized) await this.initialize();
 
-    const pubDir = this.getPublicationDir(hash);
-    const imagesDir = this.getImagesDir(hash);
+    return this.withLock(hash, async () => {
+      const current = metadataStore.get(hash);
+      if (ifMatch !== undefined && !matchesIfMatch(ifMatch, current)) {
+        throw new PreconditionFailedError(current);
+      }
+
+      return this.writePublication(hash, content, publication, images);
+    });
+  }
 
-    // Create publication directory
-    await fs.mkdir(pubDir, { recursive: true });
-    await fs.mkdir(imagesDir, { recursive: true });
+  private async writePublication(
+    hash: string,
+    content: string,
+    publication: Publication,
+    images?: ImageData[]
+  ): Promise<number> {
+    // Keep the version being replaced
+    const previous = metadataStore.get(hash);
+    if (previous) {
+      await this.snapshotRevision(hash, previous);
+    }
+    publication.revision = previous ? (previous.revision || 1) + 1 : 1;
+    content = removePassword(content);
 
     // Save content file
-    const contentPath = path.join(pubDir, 'content.md');
-    const tempContentPath = `${contentPath}.tmp`;
-    await fs.writeFile(tempContentPath, content, 'utf-8');
-    await fs.rename(tempContentPath, contentPath);
+    await storageDriver.write(`${getPublicationKey(hash)}/content.md`, content, {
+      contentType: 'text/markdown; charset=utf-8',
+    });
 
-    // Process images
+    // Process images, stored once in the blob store and referenced by digest
     let imagesUploaded = 0;
-    const newImageFilenames: string[] = [];
+    const newBlobs: Record<string, string> = {};
 
     if (images && images.length > 0) {
       // Validate number of images
@@ -143,61 +279,310 @@ class StorageService {
 
       for (const image of images) {
         // Validate MIME type
-        if (!config.allowedImageTypes.includes(image.mimeType)) {
-          logger.warn('Invalid image type', { filename: image.filename, mimeType: image.mimeType });
+        if (!isAllowedAttachmentType(image.mimeType)) {
+          logger.warn('Invalid attachment type', { filename: image.filename, mimeType: image.mimeType });
           continue;
         }
 
-        // Decode base64
-        const buffer = Buffer.from(image.data, 'base64');
+        let digest: string;
+
+        if (image.data) {
+          // Decode base64
+          const buffer = Buffer.from(image.data, 'base64');
+
+          // Validate size
+          if (buffer.length > getMaxAttachmentSize(image.mimeType)) {
+            logger.warn('Attachment too large', { filename: image.filename, size: buffer.length });
+            continue;
+          }
+
+          digest = await blobStore.put(buffer);
 
-        // Validate size
-        if (buffer.length > config.maxImageSize) {
-          logger.warn('Image too large', { filename: image.filename, size: buffer.length });
+          if (image.digest && image.digest !== digest) {
+            logger.warn('Image digest mismatch', { filename: image.filename, expected: image.digest, actual: digest });
+            continue;
+          }
+        } else if (image.digest && blobStore.has(image.digest)) {
+          // Already uploaded, by this or another publication
+          digest = image.digest;
+        } else {
+          logger.warn('Image blob not found', { filename: image.filename, digest: image.digest });
           continue;
         }
 
         // Sanitize filename
         const sanitizedFilename = this.sanitizeImageFilename(image.filename);
-        const imagePath = path.join(imagesDir, sanitizedFilename);
-        const tempImagePath = `${imagePath}.tmp`;
-
-        await fs.writeFile(tempImagePath, buffer);
-        await fs.rename(tempImagePath, imagePath);
-
-        newImageFilenames.push(sanitizedFilename);
+        newBlobs[sanitizedFilename] = digest;
         imagesUploaded++;
-        logger.debug('Image saved', { hash, filename: sanitizedFilename });
+        logger.debug('Image saved', { hash, filename: sanitizedFilename, digest });
       }
     }
 
-    // Clean up old images that are no longer used
-    if (publication.images && publication.images.length > 0) {
-      const oldImages = publication.images.filter(img => !newImageFilenames.includes(img));
-      for (const oldImage of oldImages) {
-        try {
-          await fs.unlink(path.join(imagesDir, oldImage));
-          logger.debug('Old image removed', { hash, filename: oldImage });
-        } catch (error) {
-          // Ignore if file doesn't exist
-        }
+    // Reference the new set before releasing the old one, so shared blobs survive
+    await blobStore.addRefs(Object.values(newBlobs));
+    if (previous) {
+      await blobStore.releaseRefs(Object.values(previous.blobs || {}));
+
+      // Publications saved before the blob store keep their images in the publication directory
+      const legacyImages = (previous.images || []).filter(image => !previous.blobs?.[image]);
+      for (const oldImage of legacyImages) {
+        await storageDriver.delete(getImageKey(hash, oldImage));
+        logger.debug('Old image removed', { hash, filename: oldImage });
       }
     }
 
     // Update publication record with image list
-    publication.images = newImageFilenames;
-
-    // Update metadata
-    this.metadata!.publications[hash] = publication;
-    this.metadata!.filenameIndex[publication.filename] = hash;
+    publication.images = Object.keys(newBlobs);
+    publication.blobs = newBlobs;
 
-    await this.saveMetadata();
+    // Update metadata, the record first so the index never points at a publication without one
+    await this.writeRecord(hash, publication);
+    await metadataStore.put(hash, publication);
+    this.generation++;
     logger.info('Publication saved', { hash, filename: publication.filename, images: imagesUploaded });
+    this.emit('publicationSaved', hash, publication, content);
 
     return imagesUploaded;
   }
 
-  private sanitizeImageFilename(filename: string): string {
+  private async snapshotRevision(hash: string, publication: Publication): Promise<void> {
+    if (config.revisionRetention <= 0) return;
+
+    const content = await this.getContent(hash);
+    if (content === null) return;
+
+    const revisionKey = getRevisionKey(hash, publication.revision || 1);
+    await storageDriver.deletePrefix(revisionKey);
+
+    await storageDriver.write(`${revisionKey}/content.md`, content, { contentType: 'text/markdown; charset=utf-8' });
+
+    // The snapshot holds its own reference to blob-backed images
+    await blobStore.addRefs(Object.values(publication.blobs || {}));
+
+    const legacyImages = (publication.images || []).filter(image => !publication.blobs?.[image]);
+    for (const image of legacyImages) {
+      try {
+        await storageDriver.copy(getImageKey(hash, image), `${revisionKey}/images/${image}`);
+      } catch (error) {
+        logger.warn('Image missing from snapshot', { hash, filename: image, error: (error as Error).message });
+      }
+    }
+
+    await storageDriver.write(`${revisionKey}/${RECORD_FILE}`, JSON.stringify(publication, null, 2), {
+      contentType: 'application/json',
+    });
+    await this.pruneRevisions(hash);
+  }
+
+  private async listRevisionNumbers(hash: string): Promise<number[]> {
+    const revisionsKey = `${getPublicationKey(hash)}/${REVISIONS_DIR}/`;
+    const revisions = new Set<number>();
+
+    for (const key of await storageDriver.list(revisionsKey)) {
+      const revision = parseInt(key.slice(revisionsKey.length), 10);
+      if (!isNaN(revision)) revisions.add(revision);
+    }
+
+    return [...revisions].sort((a, b) => b - a);
+  }
+
+  private async removeRevision(hash: string, revision: number): Promise<void> {
+    const revisionKey = getRevisionKey(hash, revision);
+
+    try {
+      const data = await storageDriver.read(`${revisionKey}/${RECORD_FILE}`);
+      const snapshot: Publication = JSON.parse(data!.toString('utf-8'));
+      await blobStore.releaseRefs(Object.values(snapshot.blobs || {}));
+    } catch (error) {
+      logger.warn('Revision without readable record', { hash, revision, error: (error as Error).message });
+    }
+
+    await storageDriver.deletePrefix(revisionKey);
+  }
+
+  private async pruneRevisions(hash: string): Promise<void> {
+    const revisions = await this.listRevisionNumbers(hash);
+    for (const revision of revisions.slice(config.revisionRetention)) {
+      await this.removeRevision(hash, revision);
+      logger.debug('Old revision pruned', { hash, revision });
+    }
+  }
+
+  async listRevisions(hash: string): Promise<RevisionInfo[] | null> {
+    if (!this.initialized) await this.initialize();
+
+    const current = metadataStore.get(hash);
+    if (!current) return null;
+
+    const revisions: RevisionInfo[] = [{
+      revision: current.revision || 1,
+      title: current.title,
+      updatedAt: current.updatedAt,
+      images: (current.images || []).length,
+      current: true,
+    }];
+
+    for (const revision of await this.listRevisionNumbers(hash)) {
+      const snapshot = await this.getRevision(hash, revision);
+      if (!snapshot) continue;
+
+      revisions.push({
+        revision,
+        title: snapshot.publication.title,
+        updatedAt: snapshot.publication.updatedAt,
+        images: (snapshot.publication.images || []).length,
+        current: false,
+      });
+    }
+
+    return revisions;
+  }
+
+  async getRevision(hash: string, revision: number): Promise<Revision | null> {
+    if (!this.initialized) await this.initialize();
+
+    const current = metadataStore.get(hash);
+    if (!current) return null;
+
+    if (revision === (current.revision || 1)) {
+      const content = await this.getContent(hash);
+      return content === null ? null : { publication: current, content };
+    }
+
+    const revisionKey = getRevisionKey(hash, revision);
+    const [content, publication] = await Promise.all([
+      storageDriver.read(`${revisionKey}/content.md`),
+      storageDriver.read(`${revisionKey}/${RECORD_FILE}`),
+    ]);
+
+    if (content === null || publication === null) {
+      return null;
+    }
+
+    return { publication: JSON.parse(publication.toString('utf-8')), content: removePassword(content.toString('utf-8')) };
+  }
+
+  // Restore an old revision as a new revision, so the rollback itself can be undone
+  async rollbackPublication(hash: string, revision: number, ifMatch?: string): Promise<Publication | null> {
+    if (!this.initialized) await this.initialize();
+
+    // Read under the lock too, so a change saved meanwhile isn't overwritten with what was current before it
+    return this.withLock(hash, async () => {
+      const current = metadataStore.get(hash);
+      if (ifMatch !== undefined && !matchesIfMatch(ifMatch, current)) {
+        throw new PreconditionFailedError(current);
+      }
+      if (!current) return null;
+
+      const snapshot = await this.getRevision(hash, revision);
+      if (!snapshot) return null;
+
+      const images = await this.collectAttachments(snapshot.publication, getRevisionKey(hash, revision));
+
+      // Password and file identity stay as they are now, rolling back must not unprotect a note
+      const publication: Publication = {
+        ...current,
+        title: snapshot.publication.title,
+        description: snapshot.publication.description,
+        tags: snapshot.publication.tags,
+        aliases: snapshot.publication.aliases,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await this.writePublication(hash, snapshot.content, publication, images);
+      logger.info('Publication rolled back', { hash, revision, newRevision: publication.revision });
+      return publication;
+    });
+  }
+
+  /**
+   * Save new title and password without touching content or attachments. Goes through the normal
+   * save path, so it's a new revision like any other change.
+   */
+  async updatePublicationFields(
+      hash: string,
+      changes: Partial<Pick<Publication, 'title' | 'passwordHash' | 'passwordFromFrontmatter' | 'toc'>>,
+      ifMatch?: string
+  ): Promise<Publication | null> {
+    if (!this.initialized) await this.initialize();
+
+    return this.withLock(hash, async () => {
+      const current = metadataStore.get(hash);
+      if (ifMatch !== undefined && !matchesIfMatch(ifMatch, current)) {
+        throw new PreconditionFailedError(current);
+      }
+      if (!current) return null;
+
+      const content = await this.getContent(hash);
+      if (content === null) return null;
+
+      const images = await this.collectAttachments(current, getPublicationKey(hash));
+      const publication: Publication = { ...current, ...changes, updatedAt: new Date().toISOString() };
+
+      await this.writePublication(hash, content, publication, images);
+      return publication;
+    });
+  }
+
+  /**
+   * Move a publication to a new random hash, for links that leaked. The old URL stops working;
+   * revisions and attachments move along.
+   */
+  async rotateHash(hash: string): Promise<string | null> {
+    if (!this.initialized) await this.initialize();
+
+    return this.withLock(hash, async () => {
+      const publication = metadataStore.get(hash);
+      if (!publication) return null;
+
+      const newHash = nanoid(12);
+      const source = getPublicationKey(hash);
+      const target = getPublicationKey(newHash);
+
+      for (const key of await storageDriver.list(source)) {
+        await storageDriver.copy(key, `${target}${key.slice(source.length)}`);
+      }
+
+      // Served under the old hash until the index switches over
+      await metadataStore.put(newHash, publication);
+      await metadataStore.delete(hash);
+      await storageDriver.deletePrefix(source);
+
+      this.generation++;
+      logger.info('Publication hash rotated', { from: hash, to: newHash });
+
+      this.emit('publicationMoved', hash, newHash, publication);
+      this.emit('publicationDeleted', hash, publication);
+      const content = await this.getContent(newHash);
+      if (content !== null) this.emit('publicationSaved', newHash, publication, content);
+
+      return newHash;
+    });
+  }
+
+  // Attachments of a record as savePublication takes them; blobs by digest, older images read from under keyPrefix
+  private async collectAttachments(publication: Publication, keyPrefix: string): Promise<ImageData[]> {
+    const images: ImageData[] = [];
+
+    for (const filename of publication.images || []) {
+      const digest = publication.blobs?.[filename];
+      if (digest) {
+        images.push({ filename, digest, mimeType: getMimeType(filename) });
+        continue;
+      }
+
+      const data = await storageDriver.read(`${keyPrefix}/images/${filename}`);
+      if (data) {
+        images.push({ filename, data: data.toString('base64'), mimeType: getMimeType(filename) });
+      } else {
+        logger.warn('Attachment missing', { key: keyPrefix, filename });
+      }
+    }
+
+    return images;
+  }
+
+  sanitizeImageFilename(filename: string): string {
     // Remove path separators and dangerous characters
     return filename
       .replace(/[/\\]/g, '_')
@@ -205,77 +590,87 @@ class StorageService {
       .replace(/[^a-zA-Z0-9._-]/g, '_');
   }
 
+  // Notes saved before publish_password was taken out of stored content still have it, so it's removed on read too
   async getContent(hash: string): Promise<string | null> {
-    const contentPath = path.join(this.getPublicationDir(hash), 'content.md');
-    try {
-      return await fs.readFile(contentPath, 'utf-8');
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return null;
-      }
-      throw error;
+    const data = await storageDriver.read(`${getPublicationKey(hash)}/content.md`);
+    return data === null ? null : removePassword(data.toString('utf-8'));
+  }
+
+  // Stored attachment opened for streaming, optionally a byte range of it
+  async getAttachment(hash: string, filename: string): Promise<StoredAttachment | null> {
+    if (!this.initialized) await this.initialize();
+
+    // Sanitize filename to prevent directory traversal
+    const sanitizedFilename = this.sanitizeImageFilename(filename);
+    const publication = metadataStore.get(hash);
+    if (!publication || !(publication.images || []).includes(sanitizedFilename)) {
+      return null;
     }
+
+    const digest = publication.blobs?.[sanitizedFilename];
+    const key = digest ? blobStore.getKey(digest) : getImageKey(hash, sanitizedFilename);
+
+    const stored = await storageDriver.stat(key);
+    if (!stored) return null;
+
+    return {
+      filename: sanitizedFilename,
+      size: stored.size,
+      mimeType: getMimeType(sanitizedFilename),
+      openReadStream: (range) => storageDriver.openReadStream(key, range),
+    };
   }
 
   async getImage(hash: string, filename: string): Promise<{ data: Buffer; mimeType: string } | null> {
+    if (!this.initialized) await this.initialize();
+
     // Sanitize filename to prevent directory traversal
     const sanitizedFilename = this.sanitizeImageFilename(filename);
-    const imagePath = path.join(this.getImagesDir(hash), sanitizedFilename);
 
-    try {
-      const data = await fs.readFile(imagePath);
-      const mimeType = this.getMimeType(sanitizedFilename);
-      return { data, mimeType };
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return null;
-      }
-      throw error;
+    const digest = metadataStore.get(hash)?.blobs?.[sanitizedFilename];
+    if (digest) {
+      const data = await blobStore.read(digest);
+      return data ? { data, mimeType: getMimeType(sanitizedFilename) } : null;
     }
-  }
 
-  private getMimeType(filename: string): string {
-    const ext = path.extname(filename).toLowerCase();
-    const mimeTypes: Record<string, string> = {
-      '.png': 'image/png',
-      '.jpg': 'image/jpeg',
-      '.jpeg': 'image/jpeg',
-      '.gif': 'image/gif',
-      '.webp': 'image/webp',
-      '.svg': 'image/svg+xml',
-      '.bmp': 'image/bmp',
-    };
-    return mimeTypes[ext] || 'application/octet-stream';
+    const data = await storageDriver.read(getImageKey(hash, sanitizedFilename));
+    return data ? { data, mimeType: getMimeType(sanitizedFilename) } : null;
   }
 
-  async deletePublication(hash: string): Promise<boolean> {
-    if (!this.metadata) await this.initialize();
-
-    const publication = this.metadata!.publications[hash];
-    if (!publication) return false;
+  async deletePublication(hash: string, ifMatch?: string): Promise<boolean> {
+    if (!this.initialized) await this.initialize();
 
-    // Delete entire publication directory
-    const pubDir = this.getPublicationDir(hash);
-    try {
-      await fs.rm(pubDir, { recursive: true, force: true });
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-        throw error;
+    return this.withLock(hash, async () => {
+      const publication = metadataStore.get(hash);
+      if (ifMatch !== undefined && !matchesIfMatch(ifMatch, publication)) {
+        throw new PreconditionFailedError(publication);
       }
+      if (!publication) return false;
+
+      await this.removePublication(hash, publication);
+      return true;
+    });
+  }
+
+  private async removePublication(hash: string, publication: Publication): Promise<void> {
+    for (const revision of await this.listRevisionNumbers(hash)) {
+      await this.removeRevision(hash, revision);
     }
+    await blobStore.releaseRefs(Object.values(publication.blobs || {}));
 
-    // Update metadata
-    delete this.metadata!.filenameIndex[publication.filename];
-    delete this.metadata!.publications[hash];
+    // Delete entire publication directory
+    await storageDriver.deletePrefix(getPublicationKey(hash));
 
-    await this.saveMetadata();
+    // Update metadata
+    await metadataStore.delete(hash);
+    this.generation++;
     logger.info('Publication deleted', { hash, filename: publication.filename });
-    return true;
+    this.emit('publicationDeleted', hash, publication);
   }
 
   async getAllPublications(): Promise<Record<string, Publication>> {
-    if (!this.metadata) await this.initialize();
-    return this.metadata!.publications;
+    if (!this.initialized) await this.initialize();
+    return metadataStore.getAll();
   }
 }
 
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import { nanoid } from 'nanoid';
+import { config } from '../config';
+import { ApiToken, AuthContext, TokenInfo, TokenScope, TokenStore, TOKEN_SCOPES } from '../models/token';
+import { storageDriver, updateJson } from './drivers';
+import { logger } from './logger';
+
+const TOKENS_FILE = 'tokens.json';
+const TOKEN_PREFIX = 'opub_';
+
+// lastUsedAt changes on every request, so it's written in batches
+const LAST_USED_SAVE_DELAY = 60000;
+
+function hashToken(token: string): Buffer {
+  return crypto.createHash('sha256').update(token, 'utf-8').digest();
+}
+
+function toTokenInfo(token: ApiToken): TokenInfo {
+  const { tokenHash, ...info } = token;
+  return info;
+}
+
+class TokenService {
+  private store: TokenStore | null = null;
+  private storeVersion: string | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  // Token id -> last use this instance hasn't written yet
+  private pendingUsage: Record<string, string> = {};
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  async initialize(): Promise<void> {
+    let data: Buffer | null;
+    try {
+      data = await storageDriver.read(TOKENS_FILE);
+    } catch (error) {
+      // Don't start with an empty store, that would silently drop every issued token
+      logger.error('Failed to load API tokens', { error });
+      throw error;
+    }
+
+    if (data) {
+      this.store = JSON.parse(data.toString('utf-8'));
+      this.storeVersion = (await storageDriver.stat(TOKENS_FILE))?.version || null;
+      logger.info('API tokens loaded', { count: Object.keys(this.store!.tokens).length });
+    } else {
+      this.store = { tokens: {} };
+      await this.update(() => undefined);
+    }
+  }
+
+  // Pick up tokens created or revoked by other instances sharing the same storage
+  async refresh(): Promise<void> {
+    if (!this.store) return;
+
+    const stored = await storageDriver.stat(TOKENS_FILE);
+    if (!stored || stored.version === this.storeVersion) return;
+
+    const data = await storageDriver.read(TOKENS_FILE);
+    if (!data) return;
+
+    this.store = this.applyUsage(JSON.parse(data.toString('utf-8')), this.pendingUsage);
+    this.storeVersion = stored.version;
+  }
+
+  // Usage times not written yet, on top of a store read from storage
+  private applyUsage(store: TokenStore, usage: Record<string, string>): TokenStore {
+    for (const [id, lastUsedAt] of Object.entries(usage)) {
+      const token = store.tokens[id];
+      if (token && (!token.lastUsedAt || lastUsedAt > token.lastUsedAt)) token.lastUsedAt = lastUsedAt;
+    }
+    return store;
+  }
+
+  /**
+   * Apply a change here and to the stored tokens, with a conditional write so tokens created or revoked
+   * by other instances in the meantime aren't lost.
+   */
+  private update(change: (store: TokenStore) => void): Promise<void> {
+    change(this.store!);
+
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      const saved = await updateJson<TokenStore>(storageDriver, TOKENS_FILE, (current) => {
+        const store = current || { tokens: {} };
+        change(store);
+        return store;
+      });
+
+      this.store = this.applyUsage(saved.value, this.pendingUsage);
+      this.storeVersion = saved.version;
+    });
+    return this.saving;
+  }
+
+  private async saveUsage(): Promise<void> {
+    const usage = this.pendingUsage;
+    this.pendingUsage = {};
+
+    try {
+      await this.update(store => this.applyUsage(store, usage));
+    } catch (error) {
+      this.pendingUsage = { ...usage, ...this.pendingUsage };
+      throw error;
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saveUsage().catch(error => logger.error('Failed to save API tokens', { error }));
+    }, LAST_USED_SAVE_DELAY);
+    this.saveTimer.unref();
+  }
+
+  authenticate(token: string): AuthContext | null {
+    const presented = hashToken(token);
+
+    // SECRET_KEY stays valid as the bootstrap admin token
+    if (crypto.timingSafeEqual(presented, hashToken(config.secretKey))) {
+      return { tokenId: null, name: 'secret-key', scopes: [...TOKEN_SCOPES] };
+    }
+
+    if (!this.store || !token.startsWith(TOKEN_PREFIX)) return null;
+
+    // Compare against every token so timing doesn't reveal which one matched
+    let match: ApiToken | null = null;
+    for (const apiToken of Object.values(this.store.tokens)) {
+      if (crypto.timingSafeEqual(presented, Buffer.from(apiToken.tokenHash, 'hex'))) {
+        match = apiToken;
+      }
+    }
+
+    if (!match) return null;
+
+    if (match.expiresAt && new Date(match.expiresAt).getTime() <= Date.now()) {
+      logger.warn('Expired API token used', { tokenId: match.id });
+      return null;
+    }
+
+    match.lastUsedAt = new Date().toISOString();
+    this.pendingUsage[match.id] = match.lastUsedAt;
+    this.scheduleSave();
+
+    return { tokenId: match.id, name: match.name, scopes: match.scopes };
+  }
+
+  // Whether a token still authenticates, for sessions opened with it
+  isActive(id: string): boolean {
+    const token = this.store?.tokens[id];
+    return !!token && (!token.expiresAt || new Date(token.expiresAt).getTime() > Date.now());
+  }
+
+  async createToken(
+      name: string,
+      scopes: TokenScope[],
+      expiresAt: string | null
+  ): Promise<{ token: string; info: TokenInfo }> {
+    if (!this.store) await this.initialize();
+
+    const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const apiToken: ApiToken = {
+      id: nanoid(12),
+      name,
+      tokenHash: hashToken(token).toString('hex'),
+      prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      scopes,
+      createdAt: new Date().toISOString(),
+      expiresAt,
+      lastUsedAt: null,
+    };
+
+    await this.update((store) => {
+      store.tokens[apiToken.id] = { ...apiToken };
+    });
+    logger.info('API token created', { tokenId: apiToken.id, name, scopes });
+
+    return { token, info: toTokenInfo(apiToken) };
+  }
+
+  async listTokens(): Promise<TokenInfo[]> {
+    if (!this.store) await this.initialize();
+    return Object.values(this.store!.tokens).map(toTokenInfo);
+  }
+
+  async revokeToken(id: string): Promise<boolean> {
+    if (!this.store) await this.initialize();
+
+    const apiToken = this.store!.tokens[id];
+    if (!apiToken) return false;
+
+    await this.update((store) => {
+      delete store.tokens[id];
+    });
+    logger.info('API token revoked', { tokenId: id, name: apiToken.name });
+    return true;
+  }
+}
+
+export const tokenService = new TokenService();
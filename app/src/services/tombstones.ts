@@ -0,0 +1,89 @@
+import { storageDriver, updateJson } from './drivers';
+import type { ExpiryReason } from './expiry';
+import { logger } from './logger';
+
+const TOMBSTONES_FILE = 'tombstones.json';
+
+// Addresses of swept publications answer 410 for this long, then 404 like any unknown hash
+const TOMBSTONE_MAX_AGE = 90 * 24 * 60 * 60 * 1000; // ms
+
+interface Tombstone {
+  reason: ExpiryReason;
+  slug?: string;
+  deletedAt: string;
+}
+
+interface TombstoneStore {
+  tombstones: Record<string, Tombstone>;
+}
+
+function isCurrent(tombstone: Tombstone, now = Date.now()): boolean {
+  return now - new Date(tombstone.deletedAt).getTime() <= TOMBSTONE_MAX_AGE;
+}
+
+// Old tombstones are dropped whenever a new one is written
+function prune(store: TombstoneStore): TombstoneStore {
+  for (const [hash, tombstone] of Object.entries(store.tombstones)) {
+    if (!isCurrent(tombstone)) delete store.tombstones[hash];
+  }
+  return store;
+}
+
+// Publications deleted by the expiry sweeper, so their links keep saying why they're gone
+class TombstoneService {
+  private store: TombstoneStore = { tombstones: {} };
+  private version: string | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  async initialize(): Promise<void> {
+    await this.load();
+    logger.info('Tombstones loaded', { count: Object.keys(this.store.tombstones).length });
+  }
+
+  private async load(): Promise<void> {
+    const stored = await storageDriver.stat(TOMBSTONES_FILE);
+    const data = stored ? await storageDriver.read(TOMBSTONES_FILE) : null;
+    this.store = data ? JSON.parse(data.toString('utf-8')) : { tombstones: {} };
+    this.version = stored?.version || null;
+  }
+
+  // Pick up publications swept by other instances sharing the same storage
+  async refresh(): Promise<void> {
+    const stored = await storageDriver.stat(TOMBSTONES_FILE);
+    if (!stored || stored.version === this.version) return;
+
+    await this.load();
+  }
+
+  private update(change: (store: TombstoneStore) => void): Promise<void> {
+    change(this.store);
+
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      const saved = await updateJson<TombstoneStore>(storageDriver, TOMBSTONES_FILE, (current) => {
+        const store = prune(current || { tombstones: {} });
+        change(store);
+        return store;
+      });
+
+      this.store = saved.value;
+      this.version = saved.version;
+    });
+    return this.saving;
+  }
+
+  add(hash: string, reason: ExpiryReason, slug?: string): Promise<void> {
+    const tombstone: Tombstone = { reason, deletedAt: new Date().toISOString(), ...(slug ? { slug } : {}) };
+    return this.update((store) => {
+      store.tombstones[hash] = tombstone;
+    });
+  }
+
+  // Why the publication at this hash or slug was deleted, null when it wasn't swept
+  get(id: string): ExpiryReason | null {
+    const tombstone = this.store.tombstones[id]
+        || Object.values(this.store.tombstones).find(candidate => candidate.slug === id);
+    return tombstone && isCurrent(tombstone) ? tombstone.reason : null;
+  }
+}
+
+export const tombstoneService = new TombstoneService();
@@ -0,0 +1,135 @@
+import { storageDriver, updateJson } from './drivers';
+import { storageService } from './storage';
+import { logger } from './logger';
+
+const VIEWS_FILE = 'views.json';
+
+// Every page view would otherwise be a write, so counts are saved in batches
+const VIEWS_SAVE_DELAY = 10000;
+
+interface ViewStore {
+  views: Record<string, number>;
+}
+
+// Stored counts with unsaved changes applied
+function applyChanges(counts: Record<string, number>, pending: Record<string, number>, removed: Set<string>): Record<string, number> {
+  for (const hash of removed) {
+    delete counts[hash];
+  }
+  for (const [hash, views] of Object.entries(pending)) {
+    counts[hash] = (counts[hash] || 0) + views;
+  }
+  return counts;
+}
+
+class ViewCounter {
+  private counts: Record<string, number> | null = null;
+  private version: string | null = null;
+  // Views since the last save, added to whatever is stored then so instances don't overwrite each other
+  private pending: Record<string, number> = {};
+  private removed = new Set<string>();
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    storageService.on('publicationMoved', (from, to) => {
+      this.move(from, to);
+    });
+    storageService.on('publicationDeleted', (hash) => {
+      this.forget(hash);
+    });
+  }
+
+  async initialize(): Promise<void> {
+    const store = await this.load();
+    this.counts = store.views;
+    logger.info('View counts loaded', { publications: Object.keys(this.counts).length });
+  }
+
+  private async load(): Promise<ViewStore> {
+    const stored = await storageDriver.stat(VIEWS_FILE);
+    const data = await storageDriver.read(VIEWS_FILE);
+    this.version = stored?.version || null;
+    return data ? JSON.parse(data.toString('utf-8')) : { views: {} };
+  }
+
+  // Pick up views counted by other instances sharing the same storage
+  async refresh(): Promise<void> {
+    if (!this.counts) return;
+
+    const stored = await storageDriver.stat(VIEWS_FILE);
+    if (!stored || stored.version === this.version) return;
+
+    this.counts = applyChanges((await this.load()).views, this.pending, this.removed);
+  }
+
+  // Adds the views counted since the last save with a conditional write, so other instances' views aren't lost
+  private async save(): Promise<void> {
+    const pending = this.pending;
+    const removed = this.removed;
+    this.pending = {};
+    this.removed = new Set();
+
+    try {
+      const saved = await updateJson<ViewStore>(storageDriver, VIEWS_FILE, current => ({
+        views: applyChanges({ ...current?.views }, pending, removed),
+      }));
+
+      this.counts = applyChanges(saved.value.views, this.pending, this.removed);
+      this.version = saved.version;
+    } catch (error) {
+      // Kept for the next save, unless the publication was deleted since
+      for (const [hash, views] of Object.entries(pending)) {
+        if (!this.removed.has(hash)) this.pending[hash] = (this.pending[hash] || 0) + views;
+      }
+      removed.forEach(hash => this.removed.add(hash));
+      throw error;
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(error => logger.error('Failed to save view counts', { error }));
+    }, VIEWS_SAVE_DELAY);
+    this.saveTimer.unref();
+  }
+
+  // Count one view, returns the total including it
+  record(hash: string): number {
+    if (!this.counts) this.counts = {};
+
+    this.counts[hash] = (this.counts[hash] || 0) + 1;
+    this.pending[hash] = (this.pending[hash] || 0) + 1;
+    this.scheduleSave();
+
+    return this.counts[hash];
+  }
+
+  get(hash: string): number {
+    return this.counts?.[hash] || 0;
+  }
+
+  private forget(hash: string): void {
+    if (!this.counts || !(hash in this.counts || hash in this.pending)) return;
+
+    delete this.counts[hash];
+    delete this.pending[hash];
+    this.removed.add(hash);
+    this.scheduleSave();
+  }
+
+  private move(from: string, to: string): void {
+    const views = this.get(from);
+    if (views === 0) return;
+
+    this.forget(from);
+    this.counts![to] = views;
+    this.pending[to] = views;
+    this.removed.delete(to);
+    this.scheduleSave();
+  }
+}
+
+export const viewCounter = new ViewCounter();
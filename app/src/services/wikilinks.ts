@@ -0,0 +1,144 @@
+import path from 'path';
+import { TokenizerAndRendererExtension, Tokens } from 'marked';
+import { Publication } from '../models/publication';
+
+export interface Wikilink {
+  target: string;
+  heading: string | null;
+  alias: string | null;
+}
+
+export interface ResolvedNote {
+  hash: string;
+  title: string;
+  url: string;
+}
+
+export type NoteResolver = (target: string) => ResolvedNote | null;
+
+interface WikilinkToken extends Tokens.Generic {
+  type: 'wikilink';
+  raw: string;
+  link: Wikilink;
+}
+
+// Parse the inside of [[...]]: "Note", "Note|Alias", "Note#Heading|Alias", "#Heading"
+export function parseWikilink(inner: string): Wikilink {
+  // Inside tables the alias separator has to be escaped as \|
+  const unescaped = inner.replace(/\\\|/g, '|');
+  const pipeIndex = unescaped.indexOf('|');
+  const linkPart = pipeIndex === -1 ? unescaped : unescaped.slice(0, pipeIndex);
+  const alias = pipeIndex === -1 ? null : unescaped.slice(pipeIndex + 1).trim() || null;
+
+  const hashIndex = linkPart.indexOf('#');
+  const target = (hashIndex === -1 ? linkPart : linkPart.slice(0, hashIndex)).trim();
+  const heading = hashIndex === -1 ? null : linkPart.slice(hashIndex + 1).trim() || null;
+
+  return { target, heading, alias };
+}
+
+// Same slug algorithm as github-slugger, which gfmHeadingId uses for heading ids
+export function headingSlug(heading: string): string {
+  return heading
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+    .replace(/ /g, '-');
+}
+
+export function getWikilinkHref(link: Wikilink, note: ResolvedNote | null): string | null {
+  // Block references (#^id) have no rendered anchor, link to the note itself
+  const anchor = link.heading && !link.heading.startsWith('^') ? `#${headingSlug(link.heading)}` : '';
+
+  if (!link.target) {
+    return anchor || null;
+  }
+
+  return note ? `${note.url}${anchor}` : null;
+}
+
+function getDisplayText(link: Wikilink): string {
+  if (link.alias) return link.alias;
+  if (!link.heading) return link.target;
+  return link.target ? `${link.target} > ${link.heading}` : link.heading;
+}
+
+function normalizeNoteName(name: string): string {
+  return name.trim().replace(/\\/g, '/').replace(/\.md$/i, '').toLowerCase();
+}
+
+// Build a resolver matching Obsidian's lookup order: full vault path, note name, alias, then filename
+export function createNoteResolver(publications: Record<string, Publication>): NoteResolver {
+  const byPath = new Map<string, string>();
+  const byName = new Map<string, string>();
+  const byAlias = new Map<string, string>();
+  const byFilename = new Map<string, string>();
+
+  // Shorter paths win on name collisions, like Obsidian's shortest-path links
+  const entries = Object.entries(publications).sort(
+      ([, a], [, b]) => (a.obsidianPath || '').length - (b.obsidianPath || '').length
+  );
+
+  for (const [hash, publication] of entries) {
+    if (publication.obsidianPath) {
+      const notePath = normalizeNoteName(publication.obsidianPath);
+      if (!byPath.has(notePath)) byPath.set(notePath, hash);
+
+      const name = path.posix.basename(notePath);
+      if (!byName.has(name)) byName.set(name, hash);
+    }
+
+    for (const alias of publication.aliases || []) {
+      const key = normalizeNoteName(alias);
+      if (!byAlias.has(key)) byAlias.set(key, hash);
+    }
+
+    const filename = normalizeNoteName(publication.filename);
+    if (!byFilename.has(filename)) byFilename.set(filename, hash);
+  }
+
+  return (target: string) => {
+    const key = normalizeNoteName(target);
+    const hash = byPath.get(key) || byName.get(key) || byAlias.get(key) || byFilename.get(key);
+    if (!hash) return null;
+
+    return { hash, title: publications[hash].title, url: `/p/${hash}` };
+  };
+}
+
+export function wikilinkExtension(
+    getResolver: () => NoteResolver | undefined,
+    escapeHtml: (text: string) => string
+): TokenizerAndRendererExtension {
+  return {
+    name: 'wikilink',
+    level: 'inline',
+    start(src: string) {
+      const index = src.indexOf('[[');
+      return index === -1 ? undefined : index;
+    },
+    tokenizer(src: string): WikilinkToken | undefined {
+      const match = /^\[\[([^[\]\n]+?)\]\]/.exec(src);
+      if (!match) return undefined;
+
+      return {
+        type: 'wikilink',
+        raw: match[0],
+        link: parseWikilink(match[1]),
+      };
+    },
+    renderer(token: Tokens.Generic) {
+      const link = (token as WikilinkToken).link;
+      const resolver = getResolver();
+      const note = link.target && resolver ? resolver(link.target) : null;
+      const href = getWikilinkHref(link, note);
+      const text = escapeHtml(getDisplayText(link));
+
+      if (!href) {
+        return `<span class="internal-link is-unresolved" title="Not published">${text}</span>`;
+      }
+
+      return `<a href="${escapeHtml(href)}" class="internal-link">${text}</a>`;
+    },
+  };
+}
@@ -0,0 +1,130 @@
+import { config } from '../src/config';
+import adminRoutes from '../src/routes/admin';
+import { storageService } from '../src/services/storage';
+import { tokenService } from '../src/services/tokens';
+import { createPublication } from './helpers/publications';
+import { createApp, listen, TestServer } from './helpers/server';
+
+let server: TestServer;
+
+function post(path: string, form: Record<string, string>, cookie = ''): Promise<Response> {
+  return fetch(`${server.url}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', cookie },
+    body: new URLSearchParams(form),
+    redirect: 'manual',
+  });
+}
+
+function get(path: string, cookie: string): Promise<Response> {
+  return fetch(`${server.url}${path}`, { headers: { cookie }, redirect: 'manual' });
+}
+
+// Session cookie of a successful login
+async function login(token: string): Promise<string> {
+  const res = await post('/admin/login', { token });
+  expect(res.headers.get('location')).toBe('/admin');
+  return res.headers.get('set-cookie')!.split(';')[0];
+}
+
+// The token every form on the page carries
+async function getCsrfToken(path: string, cookie: string): Promise<string> {
+  const html = await (await get(path, cookie)).text();
+  return html.match(/name="_csrf" value="([^"]+)"/)![1];
+}
+
+beforeAll(async () => {
+  config.rateLimitPassword = 100;
+  await storageService.initialize();
+  await tokenService.initialize();
+
+  const app = createApp();
+  app.use('/admin', adminRoutes);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('admin login', () => {
+  it('sends visitors without a session to the login page', async () => {
+    const res = await get('/admin', '');
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('location')).toBe('/admin/login');
+  });
+
+  it('accepts SECRET_KEY and tokens with the admin scope only', async () => {
+    const reader = await tokenService.createToken('dashboard', ['read'], null);
+
+    expect((await post('/admin/login', { token: 'wrong' })).status).toBe(401);
+    const denied = await post('/admin/login', { token: reader.token });
+    expect(denied.status).toBe(401);
+    expect(await denied.text()).toContain('This token lacks the admin scope');
+
+    const cookie = await login(config.secretKey);
+    expect((await get('/admin', cookie)).status).toBe(200);
+  });
+
+  it('ends sessions opened with a token once it is revoked', async () => {
+    const admin = await tokenService.createToken('laptop', ['admin'], null);
+    const cookie = await login(admin.token);
+
+    await tokenService.revokeToken(admin.info.id);
+
+    expect((await get('/admin', cookie)).headers.get('location')).toBe('/admin/login');
+  });
+});
+
+describe('admin actions', () => {
+  it('require the CSRF token of the session', async () => {
+    await storageService.savePublication('doomed000001', '# Doomed', createPublication('Doomed'));
+    const cookie = await login(config.secretKey);
+
+    const forged = await post('/admin/p/doomed000001/delete', {}, cookie);
+    expect(forged.status).toBe(403);
+    expect(await storageService.getPublicationByHash('doomed000001')).not.toBeNull();
+
+    const _csrf = await getCsrfToken('/admin/p/doomed000001', cookie);
+    const deleted = await post('/admin/p/doomed000001/delete', { _csrf }, cookie);
+    expect(deleted.headers.get('location')).toBe('/admin');
+    expect(await storageService.getPublicationByHash('doomed000001')).toBeNull();
+  });
+
+  it('refuse to save over changes made since the page was loaded', async () => {
+    await storageService.savePublication('edited000001', '# Edited', createPublication('Edited', { revision: 1 }));
+    const cookie = await login(config.secretKey);
+    const _csrf = await getCsrfToken('/admin/p/edited000001', cookie);
+
+    const saved = await post('/admin/p/edited000001', { _csrf, title: 'Renamed', etag: '"r1"' }, cookie);
+    expect(saved.status).toBe(302);
+    expect((await storageService.getPublicationByHash('edited000001'))!.title).toBe('Renamed');
+
+    const stale = await post('/admin/p/edited000001', { _csrf, title: 'Again', etag: '"r1"' }, cookie);
+    expect(stale.status).toBe(409);
+    expect((await storageService.getPublicationByHash('edited000001'))!.title).toBe('Renamed');
+  });
+
+  it('ask on a page of their own before rotating or deleting', async () => {
+    await storageService.savePublication('asked0000001', '# Asked', createPublication('Asked'));
+    const cookie = await login(config.secretKey);
+
+    const page = await (await get('/admin/p/asked0000001', cookie)).text();
+    expect(page).not.toContain('onsubmit');
+    expect(page).toContain('<form method="GET" action="/admin/p/asked0000001/delete">');
+
+    const confirm = await get('/admin/p/asked0000001/delete', cookie);
+    const html = await confirm.text();
+    expect(confirm.status).toBe(200);
+    expect(html).toContain('Delete this publication?');
+    expect(html).toContain('action="/admin/p/asked0000001/delete"');
+    expect(await storageService.getPublicationByHash('asked0000001')).not.toBeNull();
+
+    const _csrf = html.match(/name="_csrf" value="([^"]+)"/)![1];
+    await post('/admin/p/asked0000001/delete', { _csrf }, cookie);
+    expect(await storageService.getPublicationByHash('asked0000001')).toBeNull();
+
+    expect((await get('/admin/p/asked0000001/rotate', cookie)).status).toBe(404);
+  });
+});
@@ -0,0 +1,80 @@
+import viewRoutes from '../src/routes/view';
+import { hashPassword } from '../src/services/password';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+import { createApp, listen, TestServer } from './helpers/server';
+
+const AUDIO = Buffer.from('0123456789abcdefghij');
+
+let server: TestServer;
+
+function get(path: string, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${server.url}${path}`, { headers });
+}
+
+beforeAll(async () => {
+  await storageService.initialize();
+  await storageService.savePublication('memo00000001', '![[memo.mp3]]', createPublication('Memo'), [
+    { filename: 'memo.mp3', data: AUDIO.toString('base64'), mimeType: 'audio/mpeg' },
+    { filename: 'notes.zip', data: Buffer.from('PK').toString('base64'), mimeType: 'application/zip' },
+  ]);
+  await storageService.savePublication('locked000001', '![[memo.mp3]]',
+      createPublication('Locked', { passwordHash: await hashPassword('letmein') }),
+      [{ filename: 'memo.mp3', data: AUDIO.toString('base64'), mimeType: 'audio/mpeg' }]);
+
+  const app = createApp();
+  app.use('/p', viewRoutes);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('GET /p/:hash/files/:filename', () => {
+  it('serves the whole file inline when no range is asked for', async () => {
+    const res = await get('/p/memo00000001/files/memo.mp3');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('audio/mpeg');
+    expect(res.headers.get('content-disposition')).toBe('inline; filename="memo.mp3"');
+    expect(res.headers.get('accept-ranges')).toBe('bytes');
+    expect(Buffer.from(await res.arrayBuffer())).toEqual(AUDIO);
+  });
+
+  it('answers a byte range with 206 and only those bytes', async () => {
+    const res = await get('/p/memo00000001/files/memo.mp3', { Range: 'bytes=5-9' });
+
+    expect(res.status).toBe(206);
+    expect(res.headers.get('content-range')).toBe('bytes 5-9/20');
+    expect(await res.text()).toBe('56789');
+  });
+
+  it('answers an open-ended range up to the end of the file', async () => {
+    const res = await get('/p/memo00000001/files/memo.mp3', { Range: 'bytes=15-' });
+
+    expect(res.status).toBe(206);
+    expect(await res.text()).toBe('fghij');
+  });
+
+  it('refuses a range past the end of the file', async () => {
+    const res = await get('/p/memo00000001/files/memo.mp3', { Range: 'bytes=40-50' });
+
+    expect(res.status).toBe(416);
+    expect(res.headers.get('content-range')).toBe('bytes */20');
+  });
+
+  it('offers files that are not shown inline as a download', async () => {
+    const res = await get('/p/memo00000001/files/notes.zip');
+
+    expect(res.headers.get('content-disposition')).toBe('attachment; filename="notes.zip"');
+  });
+
+  it('keeps files of a protected note locked', async () => {
+    expect((await get('/p/locked000001/files/memo.mp3')).status).toBe(403);
+  });
+
+  it('answers 404 for files the note does not have', async () => {
+    expect((await get('/p/memo00000001/files/other.mp3')).status).toBe(404);
+  });
+});
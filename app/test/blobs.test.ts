@@ -0,0 +1,159 @@
+import { storageDriver } from '../src/services/drivers';
+import { blobStore, computeDigest } from '../src/services/blobs';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+
+const DAY = 24 * 60 * 60 * 1000;
+async function readIndex(): Promise<Record<string, { refs: number }>> {
+  const data = await storageDriver.read('blobs/refs.json');
+  return JSON.parse(data!.toString('utf-8')).blobs;
+}
+
+// Moves only the clock; timers keep running for the storage driver
+async function at<T>(time: number, action: () => Promise<T>): Promise<T> {
+  jest.useFakeTimers({
+    now: time,
+    doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'],
+  });
+  try {
+    return await action();
+  } finally {
+    jest.useRealTimers();
+  }
+}
+
+function image(filename: string, data: string) {
+  return { filename, data: Buffer.from(data).toString('base64'), mimeType: 'image/png' };
+}
+
+beforeAll(async () => {
+  await storageService.initialize();
+  await blobStore.initialize();
+});
+
+describe('blobStore', () => {
+  it('stores identical data once, under its digest', async () => {
+    const data = Buffer.from('same image');
+
+    const first = await blobStore.put(data);
+    const second = await blobStore.put(data);
+
+    expect(first).toBe(computeDigest(data));
+    expect(second).toBe(first);
+    expect(await storageDriver.read(blobStore.getKey(first))).toEqual(data);
+  });
+
+  it('counts references and writes them to the shared index', async () => {
+    const digest = await blobStore.put(Buffer.from('counted'));
+
+    await blobStore.addRefs([digest]);
+    await blobStore.addRefs([digest]);
+    expect(blobStore.getRefCounts()[digest]).toBe(2);
+    expect((await readIndex())[digest].refs).toBe(2);
+
+    await blobStore.releaseRefs([digest]);
+    expect(blobStore.getRefCounts()[digest]).toBe(1);
+    expect((await readIndex())[digest].refs).toBe(1);
+  });
+
+  it('never counts below zero', async () => {
+    const digest = await blobStore.put(Buffer.from('released twice'));
+    await blobStore.addRefs([digest]);
+
+    await blobStore.releaseRefs([digest]);
+    await blobStore.releaseRefs([digest]);
+
+    expect(blobStore.getRefCounts()[digest]).toBe(0);
+  });
+
+  it('keeps an upload nobody references yet for a day, then prunes it', async () => {
+    const digest = await blobStore.put(Buffer.from('uploaded ahead'));
+
+    await at(Date.now() + DAY - 60 * 1000, () => blobStore.pruneUnreferenced());
+    expect(blobStore.has(digest)).toBe(true);
+
+    await at(Date.now() + DAY + 60 * 1000, () => blobStore.pruneUnreferenced());
+    expect(blobStore.has(digest)).toBe(false);
+    expect(await storageDriver.stat(blobStore.getKey(digest))).toBeNull();
+  });
+
+  it('keeps a released blob for the grace period, then prunes it', async () => {
+    const digest = await blobStore.put(Buffer.from('released'));
+    await blobStore.addRefs([digest]);
+    await blobStore.releaseRefs([digest]);
+
+    await at(Date.now() + DAY - 60 * 1000, () => blobStore.pruneUnreferenced());
+    expect(await blobStore.read(digest)).not.toBeNull();
+
+    await at(Date.now() + DAY + 60 * 1000, () => blobStore.pruneUnreferenced());
+    expect(blobStore.has(digest)).toBe(false);
+    expect(await storageDriver.read(blobStore.getKey(digest))).toBeNull();
+    expect((await readIndex())[digest]).toBeUndefined();
+  });
+
+  it('keeps data stored again while its stale blob is being pruned', async () => {
+    const data = Buffer.from('stored again');
+    const digest = await blobStore.put(data);
+    let storedAgain: Promise<string> | undefined;
+
+    const remove = storageDriver.delete.bind(storageDriver);
+    const deleteSpy = jest.spyOn(storageDriver, 'delete').mockImplementation(async (key) => {
+      // Out of the index by now; give the upload time to get in before the file goes
+      storedAgain ??= blobStore.put(data);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return remove(key);
+    });
+    try {
+      await at(Date.now() + DAY + 60 * 1000, () => blobStore.pruneUnreferenced());
+      await storedAgain;
+    } finally {
+      deleteSpy.mockRestore();
+    }
+
+    expect(blobStore.has(digest)).toBe(true);
+    expect(await blobStore.read(digest)).toEqual(data);
+  });
+
+  it('never prunes a referenced blob', async () => {
+    const digest = await blobStore.put(Buffer.from('in use'));
+    await blobStore.addRefs([digest]);
+
+    await at(Date.now() + 30 * DAY, () => blobStore.pruneUnreferenced());
+
+    expect(await blobStore.read(digest)).toEqual(Buffer.from('in use'));
+  });
+
+  it('keeps references added by another instance sharing the storage', async () => {
+    const digest = await blobStore.put(Buffer.from('shared'));
+    await blobStore.addRefs([digest]);
+
+    // Another instance adds a reference this one hasn't seen
+    const index = JSON.parse((await storageDriver.read('blobs/refs.json'))!.toString('utf-8'));
+    index.blobs[digest].refs++;
+    await storageDriver.write('blobs/refs.json', JSON.stringify(index));
+
+    await blobStore.releaseRefs([digest]);
+
+    expect((await readIndex())[digest].refs).toBe(1);
+  });
+});
+
+describe('publication images', () => {
+  it('share one blob between publications and revisions, until none uses it', async () => {
+    const digest = computeDigest(Buffer.from('logo'));
+    await storageService.savePublication('first0000001', 'A', createPublication('First'), [image('logo.png', 'logo')]);
+    await storageService.savePublication('second000001', 'B', createPublication('Second'), [image('logo.png', 'logo')]);
+    expect((await readIndex())[digest].refs).toBe(2);
+
+    // The replaced version keeps its own reference
+    await storageService.savePublication('first0000001', 'A2', createPublication('First'), []);
+    expect((await readIndex())[digest].refs).toBe(2);
+
+    await storageService.deletePublication('first0000001');
+    await storageService.deletePublication('second000001');
+    expect((await readIndex())[digest].refs).toBe(0);
+
+    await at(Date.now() + DAY + 60 * 1000, () => blobStore.pruneUnreferenced());
+    expect(blobStore.has(digest)).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+import { renderMarkdown } from '../src/services/markdown';
+
+function render(content: string): string {
+  return renderMarkdown(content).html;
+}
+
+describe('callouts', () => {
+  it('render with their type, icon, title and content', () => {
+    const html = render('> [!warning] Mind the **gap**\n> Stand behind the line');
+
+    expect(html).toContain('<div class="callout callout-warning" data-callout="warning">');
+    expect(html).toContain('<span class="callout-title-inner">Mind the <strong>gap</strong></span>');
+    expect(html).toContain('<div class="callout-content">\n<p>Stand behind the line</p>');
+  });
+
+  it('take the type name as title when none is given', () => {
+    expect(render('> [!todo]\n> Water the plants')).toContain('<span class="callout-title-inner">Todo</span>');
+  });
+
+  it('look like the type an alias stands for, and like a note when the type is unknown', () => {
+    expect(render('> [!faq] Why?')).toContain('class="callout callout-question" data-callout="faq"');
+    expect(render('> [!custom] Mine')).toContain('class="callout callout-note" data-callout="custom"');
+  });
+
+  it('fold into details, open or closed', () => {
+    expect(render('> [!tip]- Hidden\n> Spoiler')).toMatch(/<details class="callout callout-tip" data-callout="tip">\n<summary/);
+    expect(render('> [!tip]+ Shown\n> Spoiler')).toContain('<details class="callout callout-tip" data-callout="tip" open="">');
+  });
+
+  it('nest inside each other', () => {
+    const html = render('> [!note] Outer\n> > [!danger] Inner\n> > Careful');
+
+    expect(html).toContain('callout-note');
+    expect(html).toMatch(/callout-content">\n<div class="callout callout-danger"/);
+  });
+
+  it('leave plain blockquotes alone', () => {
+    expect(render('> Just a quote')).toContain('<blockquote>');
+  });
+});
@@ -0,0 +1,127 @@
+import { config } from '../src/config';
+import { authMiddleware } from '../src/middleware/auth';
+import collectionPageRoutes from '../src/routes/collectionPages';
+import collectionRoutes from '../src/routes/collections';
+import viewRoutes from '../src/routes/view';
+import { collectionService } from '../src/services/collections';
+import { storageDriver } from '../src/services/drivers';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+import { createApp, listen, TestServer } from './helpers/server';
+
+let server: TestServer;
+let collectionId: string;
+
+function api(method: string, path: string, body?: object): Promise<Response> {
+  return fetch(`${server.url}/api/collections${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${config.secretKey}`, 'Content-Type': 'application/json' },
+    body: body && JSON.stringify(body),
+  });
+}
+
+function page(path: string): Promise<Response> {
+  return fetch(`${server.url}${path}`);
+}
+
+function note(hash: string, obsidianPath: string): Promise<unknown> {
+  const title = obsidianPath.replace(/^.*\/|\.md$/g, '');
+  return storageService.savePublication(hash, `# ${title}`, createPublication(title, { obsidianPath }));
+}
+
+beforeAll(async () => {
+  // Counted views are saved on a timer, faked so it can't outlive the test's data directory
+  jest.useFakeTimers({
+    doNotFake: ['Date', 'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval'],
+  });
+  await storageService.initialize();
+  await collectionService.initialize();
+
+  await note('intro0000001', 'Course/Intro.md');
+  await note('setup0000001', 'Course/Setup.md');
+  await note('advanced0001', 'Course/Advanced.md');
+  await note('tips00000001', 'Course/Advanced/Tips.md');
+  await note('other0000001', 'Notes/Other.md');
+
+  const app = createApp();
+  app.use('/api/collections', authMiddleware, collectionRoutes);
+  app.use('/c', collectionPageRoutes);
+  app.use('/p', viewRoutes);
+  server = await listen(app);
+
+  const created = await api('POST', '', { title: 'Course', pathPrefix: '/Course/', order: ['Setup'] });
+  collectionId = (await created.json()).id;
+});
+
+afterAll(async () => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  await server.close();
+});
+
+describe('collections', () => {
+  it('list their notes in the given order, then by name, each folder after its own page', async () => {
+    const body = await (await api('GET', `/${collectionId}`)).json();
+
+    expect(body).toMatchObject({ title: 'Course', pathPrefix: 'Course', published: false });
+    expect(body.members.map((member: { hash: string }) => member.hash))
+        .toEqual(['setup0000001', 'advanced0001', 'tips00000001', 'intro0000001']);
+  });
+
+  it('hide their notes from readers until published', async () => {
+    expect((await page('/p/intro0000001')).status).toBe(404);
+    expect((await page(`/c/${collectionId}`)).status).toBe(404);
+    expect((await page('/p/other0000001')).status).toBe(200);
+  });
+
+  it('show every note with the tree and previous and next links once published', async () => {
+    expect((await api('POST', `/${collectionId}/publish`)).status).toBe(200);
+
+    const html = await (await page('/p/advanced0001')).text();
+
+    expect(html).toContain('<a href="/p/advanced0001" aria-current="page">Advanced</a>');
+    expect(html).toContain('<a class="previous" href="/p/setup0000001" rel="prev"><span>Previous</span>Setup</a>');
+    expect(html).toContain('<a class="next" href="/p/tips00000001" rel="next"><span>Next</span>Tips</a>');
+    expect((await page(`/c/${collectionId}`)).status).toBe(200);
+  });
+
+  it('list protected notes only once the reader can open them', async () => {
+    await storageService.savePublication('secret000001', '# Secret', createPublication('Secret', {
+      obsidianPath: 'Course/Secret.md',
+      passwordHash: '$2b$04$hash',
+    }));
+
+    const html = await (await page(`/c/${collectionId}`)).text();
+
+    expect(html).toContain('Setup');
+    expect(html).not.toContain('Secret');
+  });
+
+  it('hide a published collection inside an unpublished one, notes included', async () => {
+    await collectionService.createCollection('Archive', 'Archive', [], false);
+    const nested = await collectionService.createCollection('Old', 'Archive/Old', [], true);
+    await note('old000000001', 'Archive/Old/Page.md');
+
+    expect((await page(`/c/${nested.id}`)).status).toBe(404);
+    expect((await page('/p/old000000001')).status).toBe(404);
+  });
+
+  it('refuse a second collection for the same folder', async () => {
+    const response = await api('POST', '', { title: 'Again', pathPrefix: 'Course' });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).id).toBe(collectionId);
+  });
+
+  it('keep collections another instance sharing the storage created', async () => {
+    const store = JSON.parse((await storageDriver.read('collections.json'))!.toString('utf-8'));
+    store.collections.elsewhere001 = { ...store.collections[collectionId], id: 'elsewhere001', title: 'Elsewhere', pathPrefix: 'Notes' };
+    await storageDriver.write('collections.json', JSON.stringify(store));
+
+    await collectionService.createCollection('Drafts', 'Drafts', [], false);
+
+    const stored = JSON.parse((await storageDriver.read('collections.json'))!.toString('utf-8'));
+    expect(Object.values<{ title: string }>(stored.collections).map(collection => collection.title))
+        .toEqual(expect.arrayContaining(['Course', 'Elsewhere', 'Drafts']));
+  });
+});
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../src/config';
+import { diagramKey, diagramService, findDiagramBlocks } from '../src/services/diagrams';
+import { renderPublication } from '../src/services/render';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+
+const GRAPH = 'digraph { Seed -> Sprout }';
+
+async function render(content: string): Promise<string> {
+  return (await renderPublication('plants000001', createPublication('Plants'), content)).html;
+}
+
+beforeAll(async () => {
+  config.mermaidCommand = '';
+  await storageService.initialize();
+});
+
+describe('findDiagramBlocks', () => {
+  it('finds diagram fences wherever marked renders them, aliases included', () => {
+    const blocks = findDiagramBlocks('- item\n\n  ```graphviz\n  graph { a }\n  ```\n\n> ```mermaid\n> graph TD\n> ```\n\n```js\nx\n```');
+
+    expect(blocks).toEqual([
+      { language: 'dot', source: 'graph { a }' },
+      { language: 'mermaid', source: 'graph TD' },
+    ]);
+  });
+});
+
+describe('diagrams', () => {
+  it('render Graphviz fences to inline SVG and cache them on disk', async () => {
+    const html = await render(`\`\`\`dot\n${GRAPH}\n\`\`\``);
+
+    expect(html).toMatch(/<div class="diagram diagram-dot"><svg[\s\S]*>Seed<\/text>[\s\S]*<\/svg><\/div>/);
+    const key = diagramKey('dot', GRAPH);
+    expect(fs.existsSync(path.join(config.dataDir, 'cache', 'diagrams', key.slice(0, 2), `${key}.svg`))).toBe(true);
+  });
+
+  it('show the source of a diagram that does not render', async () => {
+    const html = await render('```dot\ndigraph { Seed -> \n```');
+
+    expect(html).not.toContain('class="diagram');
+    expect(html).toContain('<code class="hljs dot">');
+    expect(html).toContain('Seed -&gt;');
+    expect(await diagramService.render('dot', 'digraph { Seed -> ')).toBeNull();
+  });
+
+  it('show Mermaid as source when no renderer is configured', async () => {
+    const html = await render('```mermaid\ngraph TD\n  A --> B\n```');
+
+    expect(html).not.toContain('class="diagram');
+    expect(html).toContain('<code class="hljs mermaid">');
+  });
+});
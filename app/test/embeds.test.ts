@@ -0,0 +1,98 @@
+import { renderPublication } from '../src/services/render';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+
+const PAGE = 'page00000001';
+
+async function publish(hash: string, filename: string, content: string, overrides = {}): Promise<void> {
+  await storageService.savePublication(hash, content, createPublication(filename, overrides));
+}
+
+async function render(content: string, images?: string[]): Promise<string> {
+  return (await renderPublication(PAGE, createPublication('Page', { images }), content)).html;
+}
+
+beforeAll(async () => {
+  await storageService.initialize();
+  await publish('recipe000001', 'Recipe', '# Recipe\n\nIntro\n\n## Ingredients\n\nFlour and water\n\n## Method\n\nKnead the dough');
+  await publish('secret000001', 'Secret', 'The launch code', { passwordHash: '$2b$04$hash' });
+  await publish('loopa0000001', 'Loop A', 'A embeds ![[Loop B]]');
+  await publish('loopb0000001', 'Loop B', 'B embeds ![[Loop A]]');
+});
+
+describe('image embeds', () => {
+  it('point at the images stored with the publication, with their size', async () => {
+    // Stored under the sanitized name
+    const html = await render('![[photo one.png|300x200]]', ['photo_one.png']);
+
+    expect(html).toContain('<img src="/p/page00000001/images/photo_one.png" alt="photo one.png" width="300" height="200" loading="lazy" decoding="async">');
+  });
+
+  it('show the name of images that were not uploaded', async () => {
+    expect(await render('![[missing.png]]', ['photo.png'])).toContain('<span class="embed is-unresolved" title="File not found">missing.png</span>');
+  });
+});
+
+describe('file embeds', () => {
+  it('open a PDF at the requested page', async () => {
+    const html = await render('![[Manual.pdf#page=3]]', ['Manual.pdf']);
+
+    expect(html).toContain('<iframe class="embed-pdf" src="/p/page00000001/files/Manual.pdf#page=3" title="Manual.pdf" loading="lazy"></iframe>');
+  });
+
+  it('play audio and video with controls', async () => {
+    const html = await render('![[memo.mp3]]\n\n![[clip.mp4|640]]', ['memo.mp3', 'clip.mp4']);
+
+    expect(html).toContain('<audio class="embed-audio" src="/p/page00000001/files/memo.mp3" controls="" preload="metadata" title="memo.mp3"></audio>');
+    expect(html).toMatch(/<video class="embed-video" src="\/p\/page00000001\/files\/clip.mp4" controls="" preload="metadata" title="clip.mp4" width="640"><\/video>/);
+  });
+
+  it('offer other files as a download', async () => {
+    expect(await render('![[data.csv|Raw data]]', ['data.csv'])).toContain('<a class="embed-file" href="/p/page00000001/files/data.csv" download="">Raw data</a>');
+  });
+});
+
+describe('note embeds', () => {
+  it('inline the embedded note', async () => {
+    const html = await render('![[Recipe]]');
+
+    expect(html).toContain('<div class="markdown-embed">');
+    expect(html).toContain('<a href="/p/recipe000001" class="internal-link">Recipe</a>');
+    expect(html).toContain('Knead the dough');
+  });
+
+  it('inline only the section under an embedded heading', async () => {
+    const html = await render('![[Recipe#Ingredients]]');
+
+    expect(html).toContain('Flour and water');
+    expect(html).not.toContain('Knead the dough');
+    expect(html).not.toContain('Intro');
+  });
+
+  it('never inline a password protected note', async () => {
+    const html = await render('![[Secret]]');
+
+    expect(html).not.toContain('The launch code');
+    expect(html).toContain('<a href="/p/secret000001" class="internal-link">Secret</a>');
+  });
+
+  it('stop at notes that embed each other', async () => {
+    const html = await render('![[Loop A]]');
+
+    expect(html).toContain('B embeds');
+    expect(html.match(/A embeds/g)).toHaveLength(1);
+  });
+
+  it('give the headings of an embedded note ids of their own', async () => {
+    const html = await render('## Ingredients\n\nSee below\n\n![[Recipe]]');
+    const ids = [...html.matchAll(/<h\d id="([^"]+)"/g)].map(match => match[1]);
+
+    expect(ids.filter(id => id.endsWith('ingredients'))).toHaveLength(2);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const id of ids) expect(html).toContain(`href="#${id}"`);
+  });
+
+  it('show notes that are not published as plain text', async () => {
+    expect(await render('![[Drafts]]')).toContain('<span class="embed is-unresolved" title="Not published">Drafts</span>');
+  });
+});
@@ -0,0 +1,8 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Every test file gets its own data directory; set before the services read their config
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'obsidian-pub-test-'));
+process.env.SECRET_KEY = 'test-secret-key';
+process.env.BCRYPT_ROUNDS = '4';
@@ -0,0 +1,109 @@
+import { config } from '../src/config';
+import { authMiddleware } from '../src/middleware/auth';
+import publishRoutes from '../src/routes/publish';
+import viewRoutes from '../src/routes/view';
+import { storageService } from '../src/services/storage';
+import { viewCounter } from '../src/services/views';
+import { createApp, listen, TestServer } from './helpers/server';
+
+let server: TestServer;
+let published = 0;
+
+function api(method: string, path: string, body?: object, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${server.url}/api${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${config.secretKey}`, 'Content-Type': 'application/json', ...headers },
+    body: body && JSON.stringify(body),
+  });
+}
+
+// As a browser revalidates; fetch would otherwise add Cache-Control: no-cache, which always gets a full response
+function revalidate(path: string, etag: string): Promise<Response> {
+  return fetch(`${server.url}${path}`, { headers: { 'If-None-Match': etag, 'Cache-Control': 'max-age=0' } });
+}
+
+async function publish(): Promise<{ hash: string; etag: string }> {
+  const filename = `Plan ${++published}`;
+  const response = await api('POST', '/publish', { filename, content: '# Plan', metadata: { title: filename } });
+  const { hash } = await response.json();
+  return { hash, etag: response.headers.get('etag')! };
+}
+
+beforeAll(async () => {
+  await storageService.initialize();
+  // Counted views are saved on a timer that would outlive the test's data directory
+  jest.spyOn(viewCounter, 'record').mockReturnValue(1);
+
+  const app = createApp();
+  app.use('/api', authMiddleware, publishRoutes);
+  app.use('/p', viewRoutes);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('If-Match', () => {
+  it('lets an update through while the publication is at that version', async () => {
+    const { hash, etag } = await publish();
+
+    const response = await api('PUT', `/update/${hash}`, { content: '# Plan v2' }, { 'If-Match': etag });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('etag')).toBe('"r2"');
+    expect(await storageService.getContent(hash)).toBe('# Plan v2');
+  });
+
+  it('rejects an update based on an older version with 412 and the current state', async () => {
+    const { hash, etag } = await publish();
+    await api('PUT', `/update/${hash}`, { content: '# Someone else' });
+
+    const response = await api('PUT', `/update/${hash}`, { content: '# Mine' }, { 'If-Match': etag });
+
+    expect(response.status).toBe(412);
+    expect(await response.json()).toMatchObject({ exists: true, etag: '"r2"', revision: 2 });
+    expect(await storageService.getContent(hash)).toBe('# Someone else');
+  });
+
+  it('lets only one of two updates from the same version win', async () => {
+    const { hash, etag } = await publish();
+
+    const statuses = await Promise.all(['# A', '# B'].map(async content =>
+      (await api('PUT', `/update/${hash}`, { content }, { 'If-Match': etag })).status
+    ));
+
+    expect(statuses.sort()).toEqual([200, 412]);
+  });
+
+  it('guards deletes too', async () => {
+    const { hash } = await publish();
+
+    expect((await api('DELETE', `/delete/${hash}`, undefined, { 'If-Match': '"r7"' })).status).toBe(412);
+    expect((await api('DELETE', `/delete/${hash}`, undefined, { 'If-Match': '"r1"' })).status).toBe(200);
+  });
+});
+
+describe('conditional GET', () => {
+  it('answers 304 while the page is unchanged', async () => {
+    const { hash } = await publish();
+    const page = await fetch(`${server.url}/p/${hash}`);
+    const etag = page.headers.get('etag')!;
+
+    expect((await revalidate(`/p/${hash}`, etag)).status).toBe(304);
+
+    await api('PUT', `/update/${hash}`, { content: '# Changed' });
+    expect((await revalidate(`/p/${hash}`, etag)).status).toBe(200);
+  });
+  it('keeps the page tag through unrelated changes, and only those', async () => {
+    const { hash } = await api('POST', '/publish', { filename: 'Linking', content: 'See [[Target]].', metadata: { title: 'Linking' } })
+        .then(response => response.json());
+    const etag = (await fetch(`${server.url}/p/${hash}`)).headers.get('etag')!;
+
+    await publish();
+    expect((await revalidate(`/p/${hash}`, etag)).status).toBe(304);
+
+    await api('POST', '/publish', { filename: 'Target', content: '# Target', metadata: { title: 'Target' } });
+    expect((await revalidate(`/p/${hash}`, etag)).status).toBe(200);
+  });
+});
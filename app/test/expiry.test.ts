@@ -0,0 +1,133 @@
+import { config } from '../src/config';
+import { authMiddleware } from '../src/middleware/auth';
+import publishRoutes from '../src/routes/publish';
+import viewRoutes from '../src/routes/view';
+import { expirySweeper, getExpiryReason } from '../src/services/expiry';
+import { storageService } from '../src/services/storage';
+import { viewCounter } from '../src/services/views';
+import { createPublication } from './helpers/publications';
+import { createApp, listen, TestServer } from './helpers/server';
+
+const HOUR = 60 * 60 * 1000;
+
+let server: TestServer;
+
+function view(hash: string): Promise<Response> {
+  return fetch(`${server.url}/p/${hash}`);
+}
+
+function publish(body: object): Promise<Response> {
+  return fetch(`${server.url}/api/publish`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${config.secretKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ content: '# Note', metadata: { title: 'Note' }, ...body }),
+  });
+}
+
+function inHours(hours: number): string {
+  return new Date(Date.now() + hours * HOUR).toISOString();
+}
+
+beforeAll(async () => {
+  // Counted views are saved on a timer, faked so it can't outlive the test's data directory
+  jest.useFakeTimers({
+    doNotFake: ['Date', 'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval'],
+  });
+  await storageService.initialize();
+
+  const app = createApp();
+  app.use('/api', authMiddleware, publishRoutes);
+  app.use('/p', viewRoutes);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  await server.close();
+});
+
+describe('getExpiryReason', () => {
+  it('tells a time limit from a used up view limit', () => {
+    const now = Date.parse('2024-06-01T12:00:00.000Z');
+
+    expect(getExpiryReason(createPublication('A', { expiresAt: '2024-06-01T12:00:00.000Z' }), 0, now)).toBe('expired');
+    expect(getExpiryReason(createPublication('B', { maxViews: 3 }), 3, now)).toBe('view-limit');
+    expect(getExpiryReason(createPublication('C', { expiresAt: '2024-06-02T00:00:00.000Z', maxViews: 3 }), 2, now)).toBeNull();
+  });
+});
+
+describe('expiring publications', () => {
+  it('stop being served once their views are used up', async () => {
+    await storageService.savePublication('limited00001', '# Once', createPublication('Limited', { maxViews: 2 }));
+
+    expect((await view('limited00001')).status).toBe(200);
+    expect((await view('limited00001')).status).toBe(200);
+
+    const gone = await view('limited00001');
+    expect(gone.status).toBe(410);
+    expect(gone.headers.get('cache-control')).toBe('no-store');
+    expect(viewCounter.get('limited00001')).toBe(2);
+  });
+
+  it('stop being served after their expiry, attachments included', async () => {
+    await storageService.savePublication('expired00001', '![[memo.mp3]]', createPublication('Expired', { expiresAt: inHours(-1) }),
+        [{ filename: 'memo.mp3', data: Buffer.from('audio').toString('base64'), mimeType: 'audio/mpeg' }]);
+
+    expect((await view('expired00001')).status).toBe(410);
+    expect((await fetch(`${server.url}/p/expired00001/files/memo.mp3`)).status).toBe(410);
+  });
+
+  it('are left out of other notes, so embedding them can\'t get around the limits', async () => {
+    await storageService.savePublication('secret000001', 'Read once only', createPublication('Secret', { maxViews: 1 }));
+    await storageService.savePublication('past00000001', 'Out of date', createPublication('Past', { expiresAt: inHours(-1) }));
+    await storageService.savePublication('host00000001', '![[Secret]]\n\n![[Past]]', createPublication('Host'));
+
+    const html = await (await view('host00000001')).text();
+
+    expect(html).not.toContain('Read once only');
+    expect(html).not.toContain('Out of date');
+    expect(viewCounter.get('secret000001')).toBe(0);
+  });
+
+  it('are replaced when published again', async () => {
+    await storageService.savePublication('stale0000001', '# Old', createPublication('Stale', { expiresAt: inHours(-1) }));
+
+    const response = await publish({ filename: 'Stale', expiresAt: inHours(24) });
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.hash).not.toBe('stale0000001');
+    expect(await storageService.getPublicationByHash('stale0000001')).toBeNull();
+  });
+});
+
+describe('publishing with limits', () => {
+  it('rejects an expiry in the past and view limits below one', async () => {
+    const past = await publish({ filename: 'Past', expiresAt: inHours(-1) });
+    expect(past.status).toBe(400);
+    expect((await past.json()).error).toBe('expiresAt must be in the future');
+
+    const views = await publish({ filename: 'Views', maxViews: 0 });
+    expect(views.status).toBe(400);
+    expect((await views.json()).error).toBe('maxViews must be a positive integer');
+  });
+});
+
+describe('expirySweeper', () => {
+  it('deletes publications past either limit and keeps the rest', async () => {
+    await storageService.savePublication('sweepa000001', '# A', createPublication('Sweep A', { expiresAt: inHours(-1) }));
+    await storageService.savePublication('sweepb000001', '# B', createPublication('Sweep B', { maxViews: 1 }));
+    await storageService.savePublication('sweepc000001', '# C', createPublication('Sweep C', { expiresAt: inHours(1), maxViews: 5 }));
+    await view('sweepb000001');
+
+    await expirySweeper.sweep();
+
+    expect(await storageService.getPublicationByHash('sweepa000001')).toBeNull();
+    expect(await storageService.getPublicationByHash('sweepb000001')).toBeNull();
+    expect(await storageService.getPublicationByHash('sweepc000001')).not.toBeNull();
+    expect((await view('sweepa000001')).status).toBe(410);
+    expect((await view('sweepb000001')).status).toBe(410);
+    expect((await view('sweepc000001')).status).toBe(200);
+  });
+});
@@ -0,0 +1,85 @@
+import { getFrontmatterOptions, parseFrontmatter, removePassword } from '../src/services/frontmatter';
+import { renderPropertiesTable } from '../src/services/markdown';
+
+describe('parseFrontmatter', () => {
+  it('splits the YAML block from the body', () => {
+    const { data, body } = parseFrontmatter('---\ntitle: Trip\ntags: [travel]\n---\n# Day one\n');
+
+    expect(data).toEqual({ title: 'Trip', tags: ['travel'] });
+    expect(body).toBe('# Day one\n');
+  });
+
+  it('accepts CRLF line endings and a byte order mark', () => {
+    expect(parseFrontmatter('﻿---\r\ntitle: Trip\r\n---\r\nBody').data).toEqual({ title: 'Trip' });
+  });
+
+  it('keeps notes without frontmatter, or with invalid YAML, as they are', () => {
+    expect(parseFrontmatter('# Just a note')).toEqual({ data: {}, body: '# Just a note' });
+    expect(parseFrontmatter('---\ntitle: [unclosed\n---\nBody')).toEqual({ data: {}, body: 'Body' });
+  });
+});
+
+describe('getFrontmatterOptions', () => {
+  it('reads the fields publications take from the note', () => {
+    const options = getFrontmatterOptions(parseFrontmatter([
+      '---',
+      'title: Trip Report',
+      'description: Three days in the mountains',
+      'tags: [ "#travel", hiking ]',
+      'aliases: trip, mountains',
+      'created: 2024-03-01',
+      'publish_password: hunter2',
+      'publish_properties: true',
+      '---',
+    ].join('\n')).data);
+
+    expect(options).toEqual({
+      title: 'Trip Report',
+      description: 'Three days in the mountains',
+      tags: ['travel', 'hiking'],
+      aliases: ['trip', 'mountains'],
+      date: '2024-03-01T00:00:00.000Z',
+      password: 'hunter2',
+      showProperties: true,
+    });
+  });
+
+  it('ignores empty and invalid values', () => {
+    expect(getFrontmatterOptions({ title: '  ', date: 'someday', tags: [] })).toEqual({ showProperties: false });
+  });
+});
+
+describe('renderPropertiesTable', () => {
+  it('lists the note properties but never the publish options', () => {
+    const html = renderPropertiesTable({ status: 'draft', tags: ['a', 'b'], publish_password: 'hunter2' });
+
+    expect(html).toContain('<tr><th>status</th><td>draft</td></tr>');
+    expect(html).toContain('<span class="property-item">a</span> <span class="property-item">b</span>');
+    expect(html).not.toContain('hunter2');
+  });
+});
+
+describe('removePassword', () => {
+  it('drops the publish_password line and leaves the rest as written', () => {
+    const content = '---\r\ntitle: Plans  # quarterly\r\npublish_password: hunter2\r\ntags: [a]\r\n---\r\nBody';
+
+    expect(removePassword(content)).toBe('---\r\ntitle: Plans  # quarterly\r\ntags: [a]\r\n---\r\nBody');
+  });
+
+  it('drops a value continued on indented lines, and an emptied block', () => {
+    expect(removePassword('---\npublish_password: >\n  two\n  lines\n---\nBody')).toBe('---\n---\nBody');
+  });
+
+  it('re-serializes YAML it cannot edit line by line', () => {
+    const stripped = removePassword('---\n{ title: Plans, publish_password: hunter2 }\n---\nBody');
+
+    expect(stripped).not.toContain('hunter2');
+    expect(parseFrontmatter(stripped).data).toEqual({ title: 'Plans' });
+  });
+
+  it('keeps notes without the key as they are', () => {
+    const content = '---\ntitle: Plans\n---\npublish_password: in the body';
+
+    expect(removePassword(content)).toBe(content);
+  });
+});
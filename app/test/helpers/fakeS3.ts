@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+} from '@aws-sdk/client-s3';
+import { S3Driver } from '../../src/services/drivers/s3';
+
+interface FakeObject {
+  data: Buffer;
+  etag: string;
+}
+
+// Errors the way the SDK raises them for S3 and MinIO responses
+function s3Error(name: string, status: number): Error {
+  return Object.assign(new Error(name), { name, $metadata: { httpStatusCode: status } });
+}
+
+async function toBuffer(body: unknown): Promise<Buffer> {
+  if (typeof body === 'string' || Buffer.isBuffer(body)) return Buffer.from(body);
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of body as Readable) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * In-memory stand-in for one S3 bucket, answering the commands the S3 driver sends,
+ * conditional writes included. Listings come in small pages to exercise continuation.
+ */
+export class FakeS3 {
+  readonly objects = new Map<string, FakeObject>();
+  // Keys in the order they were written
+  readonly writes: string[] = [];
+
+  constructor(private pageSize = 2) {}
+
+  private get(key: string, notFound = 'NoSuchKey'): FakeObject {
+    const object = this.objects.get(key);
+    if (!object) throw s3Error(notFound, 404);
+    return object;
+  }
+
+  private put(key: string, data: Buffer): string {
+    const etag = `"${crypto.createHash('md5').update(data).update(crypto.randomBytes(4)).digest('hex')}"`;
+    this.objects.set(key, { data, etag });
+    this.writes.push(key);
+    return etag;
+  }
+
+  async send(command: unknown): Promise<unknown> {
+    // Settle on a later tick, like a request would, so concurrent callers interleave
+    await new Promise(resolve => setImmediate(resolve));
+
+    if (command instanceof GetObjectCommand) {
+      const { data, etag } = this.get(command.input.Key!);
+      const range = command.input.Range?.match(/^bytes=(\d+)-(\d+)$/);
+      const body = range ? data.subarray(Number(range[1]), Number(range[2]) + 1) : data;
+      return {
+        ETag: etag,
+        Body: Object.assign(Readable.from([body]), { transformToByteArray: async () => new Uint8Array(body) }),
+      };
+    }
+
+    if (command instanceof PutObjectCommand) {
+      const { Key, Body, IfMatch, IfNoneMatch } = command.input;
+      const current = this.objects.get(Key!);
+      const data = await toBuffer(Body);
+      if ((IfMatch && current?.etag !== IfMatch) || (IfNoneMatch === '*' && current)) {
+        throw s3Error('PreconditionFailed', 412);
+      }
+      return { ETag: this.put(Key!, data) };
+    }
+
+    if (command instanceof HeadObjectCommand) {
+      const { data, etag } = this.get(command.input.Key!, 'NotFound');
+      return { ContentLength: data.length, ETag: etag };
+    }
+
+    if (command instanceof CopyObjectCommand) {
+      const sourceKey = decodeURIComponent(command.input.CopySource!.slice(command.input.Bucket!.length + 1));
+      const { data } = this.get(sourceKey);
+      return { CopyObjectResult: { ETag: this.put(command.input.Key!, Buffer.from(data)) } };
+    }
+
+    if (command instanceof DeleteObjectCommand) {
+      this.objects.delete(command.input.Key!);
+      return {};
+    }
+
+    if (command instanceof DeleteObjectsCommand) {
+      for (const { Key } of command.input.Delete!.Objects!) {
+        this.objects.delete(Key!);
+      }
+      return {};
+    }
+
+    if (command instanceof ListObjectsV2Command) {
+      const keys = [...this.objects.keys()].filter(key => key.startsWith(command.input.Prefix || '')).sort();
+      const start = Number(command.input.ContinuationToken || 0);
+      const page = keys.slice(start, start + this.pageSize);
+      const next = start + page.length;
+      return {
+        Contents: page.map(Key => ({ Key })),
+        IsTruncated: next < keys.length,
+        NextContinuationToken: next < keys.length ? String(next) : undefined,
+      };
+    }
+
+    throw new Error(`FakeS3 doesn't handle ${(command as object).constructor.name}`);
+  }
+}
+
+// An S3 driver talking to the stand-in instead of a bucket
+export function createS3Driver(s3: FakeS3, prefix = ''): S3Driver {
+  const driver = new S3Driver({ bucket: 'test-bucket', region: 'us-east-1', forcePathStyle: true, prefix });
+  (driver as unknown as { client: FakeS3 }).client = s3;
+  return driver;
+}
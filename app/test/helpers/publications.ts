@@ -0,0 +1,14 @@
+import { Publication } from '../../src/models/publication';
+
+// A published note at Notes/<filename>.md, for tests that only care about a few fields
+export function createPublication(filename: string, overrides: Partial<Publication> = {}): Publication {
+  return {
+    filename,
+    title: filename,
+    obsidianPath: `Notes/${filename}.md`,
+    passwordHash: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
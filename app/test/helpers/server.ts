@@ -0,0 +1,29 @@
+import { AddressInfo } from 'net';
+import express from 'express';
+import session from 'express-session';
+
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+// An app with the body parsers and reader session of the real one, for mounting a router under test
+export function createApp(): express.Express {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+  app.use(session({ secret: 'test-session-secret', resave: false, saveUninitialized: false }));
+  return app;
+}
+
+export function listen(app: express.Express): Promise<TestServer> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
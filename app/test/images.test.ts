@@ -0,0 +1,103 @@
+import sharp from 'sharp';
+import viewRoutes from '../src/routes/view';
+import { hashPassword } from '../src/services/password';
+import { renderPublication } from '../src/services/render';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+import { createApp, listen, TestServer } from './helpers/server';
+
+let server: TestServer;
+
+function photo(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: '#336699' } })
+    .jpeg()
+    .withMetadata({ exif: { IFD0: { Copyright: 'Someone', Make: 'Camera' } } })
+    .toBuffer();
+}
+
+async function getImage(path: string, accept = 'image/*', cookie = ''): Promise<{ res: Response; data: Buffer }> {
+  const res = await fetch(`${server.url}${path}`, { headers: { Accept: accept, cookie } });
+  return { res, data: Buffer.from(await res.arrayBuffer()) };
+}
+
+beforeAll(async () => {
+  await storageService.initialize();
+  await storageService.savePublication('photos000001', '![[beach.jpg]]', createPublication('Photos'), [
+    { filename: 'beach.jpg', data: (await photo(1200, 600)).toString('base64'), mimeType: 'image/jpeg' },
+    { filename: 'icon.svg', data: Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>').toString('base64'), mimeType: 'image/svg+xml' },
+  ]);
+  await storageService.savePublication('private00001', '![[beach.jpg]]', createPublication('Private', { passwordHash: await hashPassword('letmein') }), [
+    { filename: 'beach.jpg', data: (await photo(120, 60)).toString('base64'), mimeType: 'image/jpeg' },
+  ]);
+
+  const app = createApp();
+  app.use('/p', viewRoutes);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('GET /p/:hash/images/:filename', () => {
+  it('re-encodes photos without their EXIF data', async () => {
+    const { res, data } = await getImage('/p/photos000001/images/beach.jpg');
+    const metadata = await sharp(data).metadata();
+
+    expect(res.headers.get('content-type')).toBe('image/jpeg');
+    expect(metadata).toMatchObject({ format: 'jpeg', width: 1200, height: 600 });
+    expect(metadata.exif).toBeUndefined();
+  });
+
+  it('serves the best format the client names', async () => {
+    const { res, data } = await getImage('/p/photos000001/images/beach.jpg', 'image/webp,image/*');
+
+    expect(res.headers.get('content-type')).toBe('image/webp');
+    expect(res.headers.get('vary')).toBe('Accept');
+    expect((await sharp(data).metadata()).format).toBe('webp');
+  });
+
+  it('resizes to the configured widths only', async () => {
+    const resized = await getImage('/p/photos000001/images/beach.jpg?w=480');
+    expect(await sharp(resized.data).metadata()).toMatchObject({ width: 480, height: 240 });
+
+    const other = await getImage('/p/photos000001/images/beach.jpg?w=500');
+    expect((await sharp(other.data).metadata()).width).toBe(1200);
+  });
+
+  it('serves SVGs as uploaded', async () => {
+    const { res, data } = await getImage('/p/photos000001/images/icon.svg');
+
+    expect(res.headers.get('content-type')).toBe('image/svg+xml');
+    expect(data.toString()).toBe('<svg xmlns="http://www.w3.org/2000/svg"/>');
+  });
+
+  it('lets shared caches keep images of public notes only', async () => {
+    expect((await getImage('/p/photos000001/images/beach.jpg')).res.headers.get('cache-control')).toMatch(/^public, /);
+
+    const unlock = await fetch(`${server.url}/p/private00001/verify`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password: 'letmein' }),
+      redirect: 'manual',
+    });
+    const cookie = unlock.headers.get('set-cookie')!.split(';')[0];
+
+    for (const accept of ['image/*', 'image/webp,image/*']) {
+      const { res } = await getImage('/p/private00001/images/beach.jpg', accept, cookie);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('cache-control')).toMatch(/^private, /);
+    }
+  });
+});
+
+describe('rendered image embeds', () => {
+  it('offer smaller variants and the intrinsic size', async () => {
+    const publication = await storageService.getPublicationByHash('photos000001');
+    const { html } = await renderPublication('photos000001', publication!, '![[beach.jpg]]');
+    const src = '/p/photos000001/images/beach.jpg';
+
+    expect(html).toContain(`srcset="${src}?w=480 480w, ${src}?w=960 960w, ${src} 1200w"`);
+    expect(html).toContain('width="1200" height="600" loading="lazy" decoding="async"');
+  });
+});
@@ -0,0 +1,76 @@
+import { blobStore, computeDigest } from '../src/services/blobs';
+import { storageDriver } from '../src/services/drivers';
+import { checkIntegrity } from '../src/services/integrity';
+import { metadataStore } from '../src/services/metadata';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+
+const LOGO = Buffer.from('logo bytes');
+
+function image(filename: string) {
+  return { filename, data: LOGO.toString('base64'), mimeType: 'image/png' };
+}
+
+async function issueTypes(repair = false): Promise<string[]> {
+  return (await checkIntegrity({ repair })).issues.map(issue => `${issue.type} ${issue.subject}`);
+}
+
+beforeEach(async () => {
+  await storageDriver.deletePrefix('publications');
+  await storageDriver.deletePrefix('blobs');
+  await metadataStore.replaceAll({});
+  await storageService.initialize();
+  await blobStore.initialize();
+
+  await storageService.savePublication('first0000001', '# First', createPublication('First'), [image('logo.png')]);
+  await storageService.savePublication('second000001', '# Second', createPublication('Second'), [image('logo.png')]);
+});
+
+describe('checkIntegrity', () => {
+  it('finds nothing wrong with what the server wrote', async () => {
+    const report = await checkIntegrity({ repair: false });
+
+    expect(report).toEqual({ publications: 2, blobs: 1, issues: [] });
+  });
+
+  it('writes a missing publication.json back from the index', async () => {
+    await storageDriver.delete('publications/first0000001/publication.json');
+
+    expect(await issueTypes()).toEqual(['missing-record first0000001']);
+    await checkIntegrity({ repair: true });
+
+    expect(await storageService.readRecord('first0000001')).toEqual(metadataStore.get('first0000001'));
+    expect(await issueTypes()).toEqual([]);
+  });
+
+  it('indexes a publication again from its files', async () => {
+    await metadataStore.delete('second000001');
+
+    expect(await issueTypes(true)).toEqual(['unindexed second000001']);
+
+    expect(metadataStore.get('second000001')?.title).toBe('Second');
+    expect(await issueTypes()).toEqual([]);
+  });
+
+  it('recounts blob references from the publication records', async () => {
+    const digest = computeDigest(LOGO);
+    const index = JSON.parse((await storageDriver.read('blobs/refs.json'))!.toString('utf-8'));
+    index.blobs[digest].refs = 7;
+    await storageDriver.write('blobs/refs.json', JSON.stringify(index));
+    await blobStore.load();
+
+    const { issues } = await checkIntegrity({ repair: true });
+
+    expect(issues).toEqual([{ type: 'blob-refs', subject: digest, message: 'Indexed with 7 reference(s), 2 found', repairable: true }]);
+    expect(blobStore.getRefCounts()[digest]).toBe(2);
+  });
+
+  it('reports content it cannot bring back, without touching it', async () => {
+    await storageDriver.delete('publications/first0000001/content.md');
+
+    const { issues } = await checkIntegrity({ repair: true });
+
+    expect(issues).toEqual([{ type: 'missing-content', subject: 'first0000001', message: 'Indexed but content.md is missing', repairable: false }]);
+    expect(metadataStore.get('first0000001')).not.toBeNull();
+  });
+});
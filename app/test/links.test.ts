@@ -0,0 +1,83 @@
+import viewRoutes from '../src/routes/view';
+import { linkGraph } from '../src/services/links';
+import { hashPassword } from '../src/services/password';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+import { createApp, listen, TestServer } from './helpers/server';
+
+let server: TestServer;
+
+const everyone = () => true;
+
+function publish(hash: string, title: string, content: string, overrides = {}): Promise<unknown> {
+  return storageService.savePublication(hash, content, createPublication(title, overrides));
+}
+
+beforeAll(async () => {
+  // Counted views are saved on a timer, faked so it can't outlive the test's data directory
+  jest.useFakeTimers({
+    doNotFake: ['Date', 'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval'],
+  });
+  await storageService.initialize();
+
+  await publish('garden000001', 'Garden', '# Garden');
+  await publish('compost00001', 'Compost', 'Feeds the [[Garden]] and ![[Garden#Beds]]');
+  await publish('diary0000001', 'Diary', 'Worked in the [[Garden]]', { passwordHash: await hashPassword('letmein') });
+  await publish('snippet00001', 'Snippet', 'Write `[[Garden]]` or\n\n```\n[[Garden]]\n```');
+  await linkGraph.initialize();
+
+  const app = createApp();
+  app.use('/p', viewRoutes);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  await server.close();
+});
+
+describe('linkGraph', () => {
+  it('finds the publications linking to a note, once each, and not links in code', async () => {
+    const backlinks = await linkGraph.getBacklinks('garden000001', everyone);
+
+    expect(backlinks).toEqual([
+      { hash: 'compost00001', title: 'Compost', url: '/p/compost00001' },
+      { hash: 'diary0000001', title: 'Diary', url: '/p/diary0000001' },
+    ]);
+  });
+
+  it('counts a link to a note once that note is published', async () => {
+    await publish('plans0000001', 'Plans', 'Next: [[Orchard]]');
+    expect(await linkGraph.getBacklinks('orchard00001', everyone)).toEqual([]);
+
+    await publish('orchard00001', 'Orchard', '# Orchard');
+
+    expect((await linkGraph.getBacklinks('orchard00001', everyone)).map(note => note.hash)).toEqual(['plans0000001']);
+  });
+
+  it('drops the links of a deleted publication', async () => {
+    await publish('weeds0000001', 'Weeds', 'Pull them out of the [[Garden]]');
+    await storageService.deletePublication('weeds0000001');
+
+    expect((await linkGraph.getBacklinks('garden000001', everyone)).map(note => note.hash)).not.toContain('weeds0000001');
+  });
+});
+
+describe('backlinks and graph for readers', () => {
+  it('list only the linking notes the reader can open', async () => {
+    const html = await (await fetch(`${server.url}/p/garden000001`)).text();
+
+    expect(html).toContain('<section class="backlinks">');
+    expect(html).toContain('<li><a href="/p/compost00001">Compost</a></li>');
+    expect(html).not.toContain('Diary');
+  });
+
+  it('leave protected notes out of the graph', async () => {
+    const graph = await (await fetch(`${server.url}/p/graph?format=json`)).json();
+
+    expect(graph.nodes.map((node: { hash: string }) => node.hash)).not.toContain('diary0000001');
+    expect(graph.edges).toContainEqual({ source: 'compost00001', target: 'garden000001' });
+    expect(graph.edges).not.toContainEqual({ source: 'diary0000001', target: 'garden000001' });
+  });
+});
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../src/config';
+import { FsDriver } from '../src/services/drivers/fs';
+import { migrateStorage } from '../src/services/migration';
+import { FakeS3, createS3Driver } from './helpers/fakeS3';
+
+const SOURCE_FILES: Record<string, string> = {
+  'publications/abc123def456/content.md': '# Note',
+  'publications/abc123def456/publication.json': '{"title":"Note"}',
+  'publications/abc123def456/revisions/1.json': '{"revision":1}',
+  'blobs/4f/4f2a': 'image bytes',
+  'blobs/refs.json': '{"4f2a":1}',
+  'metadata.json': '{"publications":{}}',
+  'tokens.json': '{"tokens":{}}',
+  'tombstones.json': '{"tombstones":{}}',
+};
+
+// Local to the instance, never copied
+const LOCAL_FILES = ['tmp/upload-1', 'cache/render/abc123def456.json', 'publications/abc123def456/content.md.1a2b.tmp', 'metadata.db', 'metadata.db-wal'];
+
+let sourceDir: string;
+let s3: FakeS3;
+
+function writeSource(key: string, data: string): void {
+  fs.mkdirSync(path.dirname(path.join(sourceDir, key)), { recursive: true });
+  fs.writeFileSync(path.join(sourceDir, key), data);
+}
+
+beforeEach(() => {
+  sourceDir = fs.mkdtempSync(path.join(config.dataDir, 'source-'));
+  for (const [key, data] of Object.entries(SOURCE_FILES)) {
+    writeSource(key, data);
+  }
+  for (const key of LOCAL_FILES) {
+    writeSource(key, 'local');
+  }
+  s3 = new FakeS3();
+});
+
+describe('migrateStorage', () => {
+  it('copies the data directory into the target, indexes last', async () => {
+    const target = createS3Driver(s3);
+
+    const report = await migrateStorage(new FsDriver(sourceDir), target);
+
+    expect(report).toEqual({ total: 8, copied: 8, skipped: 0 });
+    expect((await target.list('')).sort()).toEqual(Object.keys(SOURCE_FILES).sort());
+    for (const [key, data] of Object.entries(SOURCE_FILES)) {
+      expect((await target.read(key))?.toString()).toBe(data);
+    }
+    expect(s3.writes.slice(-4)).toEqual(['blobs/refs.json', 'tokens.json', 'tombstones.json', 'metadata.json']);
+  });
+
+  it('skips blobs and revisions already copied but copies everything else again', async () => {
+    const target = createS3Driver(s3);
+    await migrateStorage(new FsDriver(sourceDir), target);
+    // Edited since, at the same size
+    writeSource('publications/abc123def456/content.md', '# Edit');
+    writeSource('metadata.json', '{"publications":{"abc123def456":{}}}');
+    s3.writes.length = 0;
+
+    const report = await migrateStorage(new FsDriver(sourceDir), target);
+
+    expect(report).toEqual({ total: 8, copied: 6, skipped: 2 });
+    expect(s3.writes).toEqual([
+      'publications/abc123def456/content.md',
+      'publications/abc123def456/publication.json',
+      'blobs/refs.json',
+      'tokens.json',
+      'tombstones.json',
+      'metadata.json',
+    ]);
+    expect((await target.read('publications/abc123def456/content.md'))?.toString()).toBe('# Edit');
+    expect((await target.read('metadata.json'))?.toString()).toBe('{"publications":{"abc123def456":{}}}');
+  });
+
+  it('copies everything again with overwrite', async () => {
+    const target = createS3Driver(s3);
+    await migrateStorage(new FsDriver(sourceDir), target);
+
+    expect(await migrateStorage(new FsDriver(sourceDir), target, { overwrite: true })).toEqual({ total: 8, copied: 8, skipped: 0 });
+  });
+
+  it('only reports what it would copy on a dry run', async () => {
+    const copied: string[] = [];
+
+    const report = await migrateStorage(new FsDriver(sourceDir), createS3Driver(s3), { dryRun: true, onCopy: key => copied.push(key) });
+
+    expect(report.copied).toBe(8);
+    expect(copied.sort()).toEqual(Object.keys(SOURCE_FILES).sort());
+    expect(s3.objects.size).toBe(0);
+  });
+  it('keeps the indexes with secrets private on a filesystem target', async () => {
+    writeSource('shares.json', '{"links":{}}');
+    writeSource('collections.json', '{"collections":{}}');
+    const targetDir = fs.mkdtempSync(path.join(config.dataDir, 'target-'));
+
+    await migrateStorage(new FsDriver(sourceDir), new FsDriver(targetDir));
+
+    const mode = (key: string) => fs.statSync(path.join(targetDir, key)).mode & 0o777;
+    expect(['tokens.json', 'shares.json', 'collections.json'].map(mode)).toEqual([0o600, 0o600, 0o600]);
+    expect(mode('metadata.json')).toBe(0o644);
+  });
+});
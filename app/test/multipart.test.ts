@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../src/config';
+import { multipartUpload } from '../src/middleware/multipart';
+import { blobStore, computeDigest } from '../src/services/blobs';
+import { storageDriver } from '../src/services/drivers';
+import { createApp, listen, TestServer } from './helpers/server';
+
+const PNG = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+let server: TestServer;
+
+function uploadDir(): string {
+  return path.dirname(blobStore.getTempPath());
+}
+
+function post(form: FormData): Promise<Response> {
+  return fetch(`${server.url}/upload`, { method: 'POST', body: form });
+}
+
+function publishForm(content: string): FormData {
+  const form = new FormData();
+  form.append('filename', 'Note');
+  form.append('metadata', JSON.stringify({ title: 'Note' }));
+  form.append('content', content);
+  return form;
+}
+
+async function readIndex(): Promise<Record<string, { refs: number }>> {
+  const data = await storageDriver.read('blobs/refs.json');
+  return JSON.parse(data!.toString('utf-8')).blobs;
+}
+
+beforeAll(async () => {
+  await blobStore.initialize();
+
+  const app = createApp();
+  app.post('/upload', multipartUpload, (req, res) => {
+    res.json(req.body);
+  });
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  config.maxContentSize = 1024;
+  config.maxImageSize = 64;
+  config.maxImagesPerPublication = 2;
+});
+
+describe('multipartUpload', () => {
+  it('parses fields and stores attachments as unreferenced blobs', async () => {
+    const form = publishForm('# Note');
+    form.append('images', new Blob([PNG], { type: 'image/png' }), 'pixel.png');
+
+    const res = await post(form);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ filename: 'Note', content: '# Note', metadata: { title: 'Note' } });
+    expect(body.images).toEqual([{ filename: 'pixel.png', mimeType: 'image/png', digest: computeDigest(PNG) }]);
+    expect((await readIndex())[computeDigest(PNG)].refs).toBe(0);
+    expect(await blobStore.read(computeDigest(PNG))).toEqual(PNG);
+  });
+
+  it('takes the content from a file part', async () => {
+    const form = new FormData();
+    form.append('metadata', JSON.stringify({ title: 'Note' }));
+    form.append('content', new Blob(['# From a file'], { type: 'text/markdown' }), 'Note.md');
+
+    const body = await (await post(form)).json();
+
+    expect(body).toMatchObject({ content: '# From a file', filename: 'Note.md' });
+  });
+
+  it('rejects content over the content limit, as a field or a file', async () => {
+    const field = await post(publishForm('x'.repeat(1025)));
+    expect(field.status).toBe(413);
+
+    const form = new FormData();
+    form.append('content', new Blob(['x'.repeat(1025)]), 'Note.md');
+    const file = await post(form);
+    expect(file.status).toBe(413);
+    expect((await file.json()).error).toMatch(/Content size exceeds/);
+  });
+
+  it('holds other fields to the field limit, whatever the content limit', async () => {
+    config.maxContentSize = 1024 * 1024;
+    const form = publishForm('# Note');
+    form.set('filename', 'x'.repeat(64 * 1024 + 1));
+
+    const res = await post(form);
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).error).toBe('Field too large: filename');
+  });
+
+  it('rejects metadata that is not a JSON object', async () => {
+    const form = publishForm('# Note');
+    form.set('metadata', '[1, 2]');
+
+    const res = await post(form);
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Metadata must be a JSON object');
+  });
+
+  it('stops an attachment over its size limit and removes the partial file', async () => {
+    const form = publishForm('# Note');
+    form.append('images', new Blob([Buffer.alloc(65)], { type: 'image/png' }), 'large.png');
+
+    const res = await post(form);
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).error).toMatch(/Attachment too large: large\.png/);
+    // Cleanup runs after the response
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(fs.readdirSync(uploadDir())).toEqual([]);
+  });
+
+  it('gives attachments other than images their own size limit', async () => {
+    config.maxAttachmentSize = 128;
+    const form = publishForm('# Note');
+    form.append('attachments', new Blob([Buffer.alloc(100)], { type: 'application/pdf' }), 'manual.pdf');
+
+    const body = await (await post(form)).json();
+
+    expect(body.images).toEqual([{ filename: 'manual.pdf', mimeType: 'application/pdf', digest: computeDigest(Buffer.alloc(100)) }]);
+  });
+
+  it('rejects more attachments than a publication may have', async () => {
+    const form = publishForm('# Note');
+    for (const name of ['a.png', 'b.png', 'c.png']) {
+      form.append('images', new Blob([PNG], { type: 'image/png' }), name);
+    }
+
+    const res = await post(form);
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/Too many attachments/);
+  });
+
+  it('rejects attachment types that are not allowed', async () => {
+    const form = publishForm('# Note');
+    form.append('attachments', new Blob(['MZ'], { type: 'application/x-msdownload' }), 'tool.exe');
+
+    const res = await post(form);
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Invalid attachment type: application/x-msdownload');
+  });
+
+  it('leaves requests that are not multipart to the next handler', async () => {
+    const res = await fetch(`${server.url}/upload`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: '# JSON' }),
+    });
+
+    expect(await res.json()).toEqual({ content: '# JSON' });
+  });
+});
@@ -0,0 +1,67 @@
+import { config } from '../src/config';
+import { authMiddleware } from '../src/middleware/auth';
+import publishRoutes from '../src/routes/publish';
+import { storageService } from '../src/services/storage';
+import { createApp, listen, TestServer } from './helpers/server';
+
+let server: TestServer;
+
+function api(method: string, path: string, body: object): Promise<Response> {
+  return fetch(`${server.url}/api${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${config.secretKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  await storageService.initialize();
+
+  const app = createApp();
+  app.use('/api', authMiddleware, publishRoutes);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('publish_password', () => {
+  it('protects the note without storing the plaintext', async () => {
+    const response = await api('POST', '/publish', {
+      filename: 'Secret',
+      content: '---\npublish_password: hunter2\n---\n# Secret',
+      metadata: { title: 'Secret' },
+    });
+    const { hash } = await response.json();
+
+    expect((await storageService.getPublicationByHash(hash))?.passwordHash).toBeTruthy();
+    expect(await storageService.getContent(hash)).toBe('---\n---\n# Secret');
+  });
+
+  it('unprotects the note once the key is taken out of it', async () => {
+    const { hash } = await (await api('POST', '/publish', {
+      filename: 'Later',
+      content: '---\npublish_password: hunter2\n---\n# Later',
+      metadata: { title: 'Later' },
+    })).json();
+
+    const response = await api('PUT', `/update/${hash}`, { content: '# Later', metadata: { title: 'Later' } });
+
+    expect(response.status).toBe(200);
+    expect((await storageService.getPublicationByHash(hash))?.passwordHash).toBeNull();
+  });
+
+  it('keeps a password set by the publish request when the note has none', async () => {
+    const { hash } = await (await api('POST', '/publish', {
+      filename: 'Given',
+      content: '# Given',
+      password: 'hunter2',
+      metadata: { title: 'Given' },
+    })).json();
+
+    await api('PUT', `/update/${hash}`, { content: '# Given again', metadata: { title: 'Given' } });
+
+    expect((await storageService.getPublicationByHash(hash))?.passwordHash).toBeTruthy();
+  });
+});
@@ -0,0 +1,72 @@
+import { config } from '../src/config';
+import { authMiddleware } from '../src/middleware/auth';
+import publicationRoutes from '../src/routes/publications';
+import { storageService } from '../src/services/storage';
+import { tokenService } from '../src/services/tokens';
+import { createPublication } from './helpers/publications';
+import { createApp, listen, TestServer } from './helpers/server';
+
+let server: TestServer;
+
+async function list(query = '', token = config.secretKey) {
+  const response = await fetch(`${server.url}/api/publications${query}`, { headers: { Authorization: `Bearer ${token}` } });
+  return { status: response.status, body: await response.json() };
+}
+
+beforeAll(async () => {
+  await storageService.initialize();
+  await tokenService.initialize();
+
+  const notes = [
+    createPublication('Alpha', { obsidianPath: 'Work/Alpha.md', tags: ['project'], updatedAt: '2024-01-03T00:00:00.000Z' }),
+    createPublication('Bravo', { obsidianPath: 'Work/Bravo.md', passwordHash: '$2b$04$hash', updatedAt: '2024-01-01T00:00:00.000Z' }),
+    createPublication('Charlie', { obsidianPath: 'Home/Charlie.md', tags: ['Project'], updatedAt: '2024-01-02T00:00:00.000Z' }),
+  ];
+  for (const [i, publication] of notes.entries()) {
+    await storageService.savePublication(`hash0000000${i}`, `# ${publication.title}`, publication);
+  }
+
+  const app = createApp();
+  app.use('/api/publications', authMiddleware, publicationRoutes);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('GET /api/publications', () => {
+  it('lists publications, most recently updated first', async () => {
+    const { status, body } = await list();
+
+    expect(status).toBe(200);
+    expect(body.publications.map((p: { title: string }) => p.title)).toEqual(['Alpha', 'Charlie', 'Bravo']);
+    expect(body.publications[0]).toMatchObject({ hash: 'hash00000000', url: `${config.baseUrl}/p/hash00000000`, protected: false });
+    expect(body).toMatchObject({ page: 1, total: 3, totalPages: 1 });
+  });
+
+  it('sorts by title and pages through the results', async () => {
+    const { body } = await list('?sort=title&order=asc&limit=2&page=2');
+
+    expect(body.publications.map((p: { title: string }) => p.title)).toEqual(['Charlie']);
+    expect(body).toMatchObject({ page: 2, limit: 2, total: 3, totalPages: 2 });
+  });
+
+  it('filters by path, tag and protection', async () => {
+    expect((await list('?path=Work/')).body.total).toBe(2);
+    expect((await list('?tag=%23project')).body.total).toBe(2);
+    expect((await list('?protected=true')).body.publications[0].title).toBe('Bravo');
+  });
+
+  it('rejects invalid parameters', async () => {
+    expect((await list('?limit=500')).status).toBe(400);
+    expect((await list('?sort=size')).status).toBe(400);
+    expect((await list('?protected=yes')).status).toBe(400);
+  });
+
+  it('requires the read scope', async () => {
+    const { token } = await tokenService.createToken('publisher', ['publish'], null);
+
+    expect((await list('', token)).status).toBe(403);
+  });
+});
@@ -0,0 +1,98 @@
+import { Publication } from '../src/models/publication';
+import { getRenderedPublication } from '../src/services/render';
+import { renderCache } from '../src/services/renderCache';
+import { storageService } from '../src/services/storage';
+
+const PAGE = 'page00000001';
+const LINKED = 'linked000001';
+const EMBEDDED = 'embedded0001';
+
+let revision = 0;
+
+function publication(filename: string, overrides: Partial<Publication> = {}): Publication {
+  return {
+    filename,
+    title: filename,
+    obsidianPath: `Notes/${filename}.md`,
+    passwordHash: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: new Date(Date.UTC(2024, 0, 1, 0, 0, ++revision)).toISOString(),
+    revision,
+    ...overrides,
+  };
+}
+
+async function save(hash: string, filename: string, content: string): Promise<Publication> {
+  const saved = publication(filename);
+  await storageService.savePublication(hash, content, saved);
+  return saved;
+}
+
+// Render the page and tell whether it came from the cache
+async function render(hash: string) {
+  const before = renderCache.getStats();
+  const rendered = await getRenderedPublication(hash, (await storageService.getPublicationByHash(hash))!);
+  const after = renderCache.getStats();
+  return { ...rendered!, cached: after.hits > before.hits };
+}
+
+beforeAll(async () => {
+  await storageService.initialize();
+  await save(EMBEDDED, 'Embedded', 'First version of the embedded note');
+  await save(PAGE, 'Page', 'See [[Linked]].\n\n![[Embedded]]\n');
+});
+
+describe('getRenderedPublication', () => {
+  it('serves the page from the cache while nothing it depends on changes', async () => {
+    const first = await render(PAGE);
+    const second = await render(PAGE);
+
+    expect(second.cached).toBe(true);
+    expect(second.html).toBe(first.html);
+    expect(second.version).toBe(first.version);
+  });
+
+  it('renders again once a note it links to is published', async () => {
+    const before = await render(PAGE);
+    expect(before.html).not.toContain(`/p/${LINKED}`);
+
+    await save(LINKED, 'Linked', 'The linked note');
+    const after = await render(PAGE);
+
+    expect(after.cached).toBe(false);
+    expect(after.html).toContain(`/p/${LINKED}`);
+    expect(after.version).not.toBe(before.version);
+  });
+
+  it('renders again once a note it embeds is updated', async () => {
+    expect((await render(PAGE)).html).toContain('First version of the embedded note');
+
+    await save(EMBEDDED, 'Embedded', 'Second version of the embedded note');
+    const after = await render(PAGE);
+
+    expect(after.cached).toBe(false);
+    expect(after.html).toContain('Second version of the embedded note');
+  });
+
+  it('renders again once the page itself is updated', async () => {
+    await render(PAGE);
+
+    await save(PAGE, 'Page', 'Rewritten without links');
+    const after = await render(PAGE);
+
+    expect(after.cached).toBe(false);
+    expect(after.html).toContain('Rewritten without links');
+    expect((await render(PAGE)).cached).toBe(true);
+  });
+
+  it('renders again once a note it links to is deleted', async () => {
+    await save(PAGE, 'Page', 'See [[Linked]].');
+    expect((await render(PAGE)).html).toContain(`/p/${LINKED}`);
+
+    await storageService.deletePublication(LINKED);
+    const after = await render(PAGE);
+
+    expect(after.cached).toBe(false);
+    expect(after.html).not.toContain(`/p/${LINKED}`);
+  });
+});
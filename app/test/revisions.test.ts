@@ -0,0 +1,109 @@
+import { config } from '../src/config';
+import { authMiddleware } from '../src/middleware/auth';
+import publicationRoutes from '../src/routes/publications';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+import { createApp, listen, TestServer } from './helpers/server';
+
+const HASH = 'notes0000001';
+
+let server: TestServer;
+
+function save(content: string, title: string, passwordHash: string | null = null): Promise<number> {
+  return storageService.savePublication(HASH, content, createPublication('Notes', { title, passwordHash }));
+}
+
+beforeAll(async () => {
+  await storageService.initialize();
+
+  const app = createApp();
+  app.use('/api/publications', authMiddleware, publicationRoutes);
+  server = await listen(app);
+});
+
+beforeEach(async () => {
+  await storageService.deletePublication(HASH);
+  await save('First draft', 'Draft');
+  await save('Second draft', 'Notes');
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('revisions', () => {
+  it('keep the versions each save replaced', async () => {
+    await save('Final', 'Notes');
+
+    const revisions = await storageService.listRevisions(HASH);
+
+    expect(revisions!.map(({ revision, title, current }) => ({ revision, title, current }))).toEqual([
+      { revision: 3, title: 'Notes', current: true },
+      { revision: 2, title: 'Notes', current: false },
+      { revision: 1, title: 'Draft', current: false },
+    ]);
+    expect((await storageService.getRevision(HASH, 1))?.content).toBe('First draft');
+  });
+
+  it('drop the oldest versions beyond the retention', async () => {
+    const retention = config.revisionRetention;
+    config.revisionRetention = 2;
+    try {
+      await save('Third draft', 'Notes');
+      await save('Fourth draft', 'Notes');
+    } finally {
+      config.revisionRetention = retention;
+    }
+
+    expect((await storageService.listRevisions(HASH))!.map(revision => revision.revision)).toEqual([4, 3, 2]);
+    expect(await storageService.getRevision(HASH, 1)).toBeNull();
+  });
+
+  it('roll back as a new revision, keeping the current password', async () => {
+    await save('Protected draft', 'Notes', '$2b$04$hash');
+
+    const restored = await storageService.rollbackPublication(HASH, 1);
+
+    expect(restored).toMatchObject({ revision: 4, title: 'Draft', passwordHash: '$2b$04$hash' });
+    expect(await storageService.getContent(HASH)).toBe('First draft');
+    expect((await storageService.getRevision(HASH, 3))?.content).toBe('Protected draft');
+  });
+
+  it('roll back on top of a change saved at the same time', async () => {
+    const protecting = storageService.updatePublicationFields(HASH, { passwordHash: '$2b$04$hash' });
+
+    const restored = await storageService.rollbackPublication(HASH, 1);
+    await protecting;
+
+    expect(restored).toMatchObject({ revision: 4, title: 'Draft', passwordHash: '$2b$04$hash' });
+    expect((await storageService.getPublicationByHash(HASH))?.passwordHash).toBe('$2b$04$hash');
+  });
+
+  it('roll back only from the version in If-Match', async () => {
+    const rollback = (etag: string) => fetch(`${server.url}/api/publications/${HASH}/revisions/1/rollback`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${config.secretKey}`, 'If-Match': etag },
+    });
+
+    const stale = await rollback('"r1"');
+    expect(stale.status).toBe(412);
+    expect(await stale.json()).toMatchObject({ etag: '"r2"', revision: 2 });
+    expect(await storageService.getContent(HASH)).toBe('Second draft');
+
+    const current = await rollback('"r2"');
+    expect(current.status).toBe(200);
+    expect(current.headers.get('etag')).toBe('"r3"');
+    expect(await storageService.getContent(HASH)).toBe('First draft');
+  });
+
+  it('are compared as a unified diff', async () => {
+    const response = await fetch(`${server.url}/api/publications/${HASH}/revisions/diff?from=1&to=2`, {
+      headers: { Authorization: `Bearer ${config.secretKey}` },
+    });
+    const { patch } = await response.json();
+
+    expect(patch).toContain('--- Notes@1');
+    expect(patch).toContain('-First draft');
+    expect(patch).toContain('+Second draft');
+  });
+});
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../src/config';
+import { WriteConflictError, updateJson } from '../src/services/drivers';
+import { S3Driver } from '../src/services/drivers/s3';
+import { FakeS3, createS3Driver } from './helpers/fakeS3';
+
+let s3: FakeS3;
+let driver: S3Driver;
+
+async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+beforeEach(() => {
+  s3 = new FakeS3();
+  driver = createS3Driver(s3, 'site-a');
+});
+
+describe('S3Driver', () => {
+  it('keeps its objects under the deployment prefix', async () => {
+    await driver.write('publications/abc/content.md', '# Note');
+
+    expect([...s3.objects.keys()]).toEqual(['site-a/publications/abc/content.md']);
+    expect((await driver.read('publications/abc/content.md'))?.toString()).toBe('# Note');
+    expect(await createS3Driver(s3, 'site-b').read('publications/abc/content.md')).toBeNull();
+  });
+
+  it('lists every key under a prefix across pages', async () => {
+    for (const key of ['a/1', 'a/2', 'a/b/3', 'a/b/4', 'ab/5', 'c/6']) {
+      await driver.write(key, key);
+    }
+
+    expect(await driver.list('a')).toEqual(['a/1', 'a/2', 'a/b/3', 'a/b/4']);
+    expect(await driver.list('')).toHaveLength(6);
+
+    await driver.deletePrefix('a/b');
+    expect(await driver.list('a')).toEqual(['a/1', 'a/2']);
+  });
+
+  it('answers null for missing objects instead of throwing', async () => {
+    expect(await driver.read('missing')).toBeNull();
+    expect(await driver.stat('missing')).toBeNull();
+    expect(await driver.openReadStream('missing')).toBeNull();
+  });
+
+  it('streams byte ranges', async () => {
+    await driver.write('file.txt', '0123456789');
+
+    expect(await readStream((await driver.openReadStream('file.txt', { start: 2, end: 5 }))!)).toBe('2345');
+    expect(await readStream((await driver.openReadStream('file.txt'))!)).toBe('0123456789');
+  });
+
+  it('reports the version a write produced, as stat does', async () => {
+    const version = await driver.write('index.json', '{}');
+
+    expect(await driver.stat('index.json')).toEqual({ size: 2, version });
+  });
+
+  it('only writes conditionally while the object is unchanged', async () => {
+    const version = await driver.write('index.json', '{"a":1}');
+    await driver.write('index.json', '{"a":2}', { ifMatch: version });
+
+    await expect(driver.write('index.json', '{"a":3}', { ifMatch: version })).rejects.toBeInstanceOf(WriteConflictError);
+    expect((await driver.read('index.json'))?.toString()).toBe('{"a":2}');
+  });
+
+  it('only creates an object conditionally while it does not exist', async () => {
+    await driver.write('index.json', '{}', { ifMatch: null });
+
+    await expect(driver.write('index.json', '{}', { ifMatch: null })).rejects.toBeInstanceOf(WriteConflictError);
+  });
+
+  it('moves a local file into the bucket', async () => {
+    const source = path.join(config.dataDir, 'upload.tmp');
+    fs.writeFileSync(source, 'uploaded');
+
+    await driver.writeFile('blobs/upload', source);
+
+    expect((await driver.read('blobs/upload'))?.toString()).toBe('uploaded');
+    expect(fs.existsSync(source)).toBe(false);
+  });
+
+  it('copies objects', async () => {
+    await driver.write('publications/old hash/content.md', 'moved');
+
+    await driver.copy('publications/old hash/content.md', 'publications/new/content.md');
+
+    expect((await driver.read('publications/new/content.md'))?.toString()).toBe('moved');
+  });
+});
+
+describe('updateJson', () => {
+  it('keeps every change when replicas update the same object at once', async () => {
+    const replicas = [driver, createS3Driver(s3, 'site-a'), createS3Driver(s3, 'site-a')];
+
+    await Promise.all(replicas.flatMap((replica, i) => [1, 2, 3].map(n =>
+      updateJson<Record<string, number>>(replica, 'blobs/refs.json', current => ({ ...current, [`${i}-${n}`]: n }))
+    )));
+
+    const refs = JSON.parse((await driver.read('blobs/refs.json'))!.toString());
+    expect(Object.keys(refs)).toHaveLength(9);
+  });
+
+  it('runs the update again on what the other writer stored', async () => {
+    await driver.write('counter.json', JSON.stringify({ count: 1 }));
+    const seen: number[] = [];
+
+    const saved = await updateJson<{ count: number }>(driver, 'counter.json', (current) => {
+      seen.push(current!.count);
+      // Another replica writes in between the first read and write
+      if (seen.length === 1) s3.objects.get('site-a/counter.json')!.etag = '"changed"';
+      return { count: current!.count + 1 };
+    });
+
+    expect(seen).toEqual([1, 1]);
+    expect(saved.value.count).toBe(2);
+    expect(saved.version).toBe((await driver.stat('counter.json'))?.version);
+  });
+});
@@ -0,0 +1,89 @@
+import viewRoutes from '../src/routes/view';
+import { hashPassword } from '../src/services/password';
+import { searchService } from '../src/services/search';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+import { createApp, listen, TestServer } from './helpers/server';
+
+interface Result {
+  hash: string;
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+let server: TestServer;
+
+async function search(query: string, cookie = ''): Promise<Result[]> {
+  const response = await fetch(`${server.url}/p/search?format=json&q=${encodeURIComponent(query)}`, { headers: { cookie } });
+  return (await response.json()).results;
+}
+
+beforeAll(async () => {
+  await storageService.initialize();
+  await searchService.initialize();
+
+  await storageService.savePublication('sourdough001', '# Baking\n\nFeed the **sourdough** starter every day.',
+      createPublication('Sourdough Starter'));
+  await storageService.savePublication('bread0000001', 'Bread needs flour, water and a sourdough starter or yeast.',
+      createPublication('Bread'));
+  await storageService.savePublication('pasta0000001', 'Fresh pasta needs no starter.',
+      createPublication('Pasta', { slug: 'fresh-pasta' }));
+  await storageService.savePublication('once00000001', 'The sourdough recipe, readable once.',
+      createPublication('Recipe', { maxViews: 1 }));
+  await storageService.savePublication('diary0000001', 'Burnt the sourdough again.',
+      createPublication('Diary', { passwordHash: await hashPassword('letmein') }));
+
+  const app = createApp();
+  app.use('/p', viewRoutes);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('GET /p/search', () => {
+  it('ranks title matches first and highlights matches in the snippet', async () => {
+    const results = await search('sourdough');
+
+    expect(results.map(result => result.title)).toEqual(['Sourdough Starter', 'Bread']);
+    expect(results[0]).toMatchObject({ url: '/p/sourdough001', snippet: 'Baking Feed the <mark>sourdough</mark> starter every day.' });
+  });
+
+  it('requires every term and matches the last one as a prefix', async () => {
+    expect((await search('starter yea')).map(result => result.title)).toEqual(['Bread']);
+    expect(await search('starter rye')).toEqual([]);
+  });
+
+  it('only finds protected notes once the session has unlocked them', async () => {
+    expect(await search('burnt')).toEqual([]);
+
+    const unlock = await fetch(`${server.url}/p/diary0000001/verify`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password: 'letmein' }),
+      redirect: 'manual',
+    });
+    const cookie = unlock.headers.get('set-cookie')!.split(';')[0];
+
+    expect((await search('burnt', cookie)).map(result => result.title)).toEqual(['Diary']);
+  });
+
+  it('follows publications as they are updated and deleted', async () => {
+    await storageService.savePublication('bread0000001', 'Now with rye flour.', createPublication('Bread'));
+    expect((await search('rye')).map(result => result.title)).toEqual(['Bread']);
+
+    await storageService.deletePublication('bread0000001');
+    expect(await search('rye')).toEqual([]);
+  });
+  it('leaves out view-limited notes, whose text would show without counting a view', async () => {
+    const results = await search('recipe');
+
+    expect(results).toEqual([]);
+    expect((await search('sourdough')).map(result => result.hash)).not.toContain('once00000001');
+  });
+  it('links notes at their slug when they have one', async () => {
+    expect(await search('pasta')).toEqual([expect.objectContaining({ hash: 'pasta0000001', url: '/p/fresh-pasta' })]);
+  });
+});
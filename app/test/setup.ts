@@ -0,0 +1,9 @@
+import fs from 'fs';
+import { config } from '../src/config';
+import { logger } from '../src/services/logger';
+
+logger.silent = true;
+
+afterAll(() => {
+  fs.rmSync(config.dataDir, { recursive: true, force: true });
+});
@@ -0,0 +1,137 @@
+import viewRoutes from '../src/routes/view';
+import { hashPassword } from '../src/services/password';
+import { storageDriver } from '../src/services/drivers';
+import { shareLinkService } from '../src/services/shares';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+import { createApp, listen, TestServer } from './helpers/server';
+
+const HASH = 'abc123def456';
+const OTHER_HASH = 'xyz789xyz789';
+
+let server: TestServer;
+
+// The ?t= token of a share link URL
+function tokenOf(url: string): string {
+  return new URL(url).searchParams.get('t')!;
+}
+
+beforeAll(async () => {
+  // Link usage is saved on a timer, faked so it can't outlive the test's data directory
+  jest.useFakeTimers({
+    doNotFake: ['Date', 'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval'],
+  });
+  await storageService.initialize();
+  await shareLinkService.initialize();
+  await storageService.savePublication(HASH, 'Shared with reviewers',
+      createPublication('Draft', { passwordHash: await hashPassword('letmein') }));
+
+  const app = createApp();
+  app.use('/p', viewRoutes);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  await server.close();
+});
+
+describe('shareLinkService', () => {
+  it('redeems a valid token for its own publication and counts the use', async () => {
+    const link = await shareLinkService.createLink(HASH, 'Reviewers', null);
+
+    const redeemed = shareLinkService.redeem(HASH, tokenOf(link.url));
+
+    expect(redeemed?.id).toBe(link.id);
+    expect(redeemed?.uses).toBe(1);
+    expect(shareLinkService.isLinkActive(HASH, link.id)).toBe(true);
+  });
+
+  it('rejects a tampered or malformed token', async () => {
+    const link = await shareLinkService.createLink(HASH, 'Reviewers', null);
+    const [id, signature] = tokenOf(link.url).split('.');
+    const tampered = (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1);
+
+    expect(shareLinkService.redeem(HASH, `${id}.${tampered}`)).toBeNull();
+    expect(shareLinkService.redeem(HASH, `${id}.${signature.slice(1)}`)).toBeNull();
+    expect(shareLinkService.redeem(HASH, id)).toBeNull();
+  });
+
+  it('rejects a token presented for another publication', async () => {
+    const link = await shareLinkService.createLink(HASH, 'Reviewers', null);
+    const [id] = tokenOf(link.url).split('.');
+
+    expect(shareLinkService.redeem(OTHER_HASH, tokenOf(link.url))).toBeNull();
+    expect(shareLinkService.isLinkActive(OTHER_HASH, id)).toBe(false);
+  });
+
+  it('rejects an expired link', async () => {
+    const link = await shareLinkService.createLink(HASH, 'Last week', new Date(Date.now() - 1000).toISOString());
+
+    expect(link.active).toBe(false);
+    expect(shareLinkService.redeem(HASH, tokenOf(link.url))).toBeNull();
+    expect(shareLinkService.isLinkActive(HASH, link.id)).toBe(false);
+  });
+
+  it('stops a link from working once it is revoked', async () => {
+    const link = await shareLinkService.createLink(HASH, 'Reviewers', null);
+    expect(shareLinkService.redeem(HASH, tokenOf(link.url))).not.toBeNull();
+
+    const revoked = await shareLinkService.revokeLink(HASH, link.id);
+
+    expect(revoked?.active).toBe(false);
+    expect(shareLinkService.redeem(HASH, tokenOf(link.url))).toBeNull();
+    expect(shareLinkService.isLinkActive(HASH, link.id)).toBe(false);
+  });
+
+  it('only revokes a link through its own publication', async () => {
+    const link = await shareLinkService.createLink(HASH, 'Reviewers', null);
+
+    expect(await shareLinkService.revokeLink(OTHER_HASH, link.id)).toBeNull();
+    expect((await shareLinkService.listLinks(HASH)).find(item => item.id === link.id)?.active).toBe(true);
+  });
+
+  it('keeps links another instance sharing the storage created', async () => {
+    const store = JSON.parse((await storageDriver.read('shares.json'))!.toString('utf-8'));
+    store.links.elsewhere001 = { ...Object.values<object>(store.links)[0], id: 'elsewhere001', label: 'Elsewhere' };
+    await storageDriver.write('shares.json', JSON.stringify(store));
+
+    await shareLinkService.createLink(HASH, 'Here', null);
+
+    const stored = JSON.parse((await storageDriver.read('shares.json'))!.toString('utf-8'));
+    expect(stored.links.elsewhere001.label).toBe('Elsewhere');
+    expect((await shareLinkService.listLinks(HASH)).map(link => link.label)).toEqual(expect.arrayContaining(['Elsewhere', 'Here']));
+  });
+});
+
+describe('GET /p/:hash?t=', () => {
+  it('unlocks a protected note for the session without its password', async () => {
+    const link = await shareLinkService.createLink(HASH, 'Reviewers', null);
+
+    const shared = await fetch(link.url.replace(/^https?:\/\/[^/]+/, server.url));
+    expect(await shared.text()).toContain('Shared with reviewers');
+
+    const cookie = shared.headers.get('set-cookie')!.split(';')[0];
+    const again = await fetch(`${server.url}/p/${HASH}`, { headers: { cookie } });
+    expect(await again.text()).toContain('Shared with reviewers');
+  });
+
+  it('locks the note again for sessions it unlocked once the link is revoked', async () => {
+    const link = await shareLinkService.createLink(HASH, 'Reviewers', null);
+    const shared = await fetch(link.url.replace(/^https?:\/\/[^/]+/, server.url));
+    const cookie = shared.headers.get('set-cookie')!.split(';')[0];
+
+    await shareLinkService.revokeLink(HASH, link.id);
+    const again = await fetch(`${server.url}/p/${HASH}`, { headers: { cookie } });
+
+    expect(await again.text()).not.toContain('Shared with reviewers');
+  });
+
+  it('asks for the password when the link does not work', async () => {
+    const html = await (await fetch(`${server.url}/p/${HASH}?t=bogus.token`)).text();
+
+    expect(html).toContain('This share link is invalid, expired or revoked');
+    expect(html).not.toContain('Shared with reviewers');
+  });
+});
@@ -0,0 +1,91 @@
+import { Publication } from '../src/models/publication';
+import viewRoutes from '../src/routes/view';
+import { storageService } from '../src/services/storage';
+import { createApp, listen, TestServer } from './helpers/server';
+
+const HASH = 'abc123def456';
+
+let server: TestServer;
+
+function publication(overrides: Partial<Publication> = {}): Publication {
+  return {
+    filename: 'Field Guide',
+    title: 'Field Guide',
+    obsidianPath: 'Guides/Field Guide.md',
+    passwordHash: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    revision: 1,
+    ...overrides,
+  };
+}
+
+function get(path: string): Promise<Response> {
+  return fetch(`${server.url}${path}`, { redirect: 'manual' });
+}
+
+beforeAll(async () => {
+  // Counted views are saved on a timer, faked so it can't outlive the test's data directory
+  jest.useFakeTimers({
+    doNotFake: ['Date', 'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval'],
+  });
+  await storageService.initialize();
+  await storageService.savePublication(HASH, '# Field Guide\n', publication({
+    slug: 'field-guide',
+    previousSlugs: ['guide', 'old-guide'],
+  }));
+
+  const app = createApp();
+  app.use('/p', viewRoutes);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  await server.close();
+});
+
+describe('publication addresses', () => {
+  it('serves a publication at its current slug and at its hash', async () => {
+    expect((await get('/p/field-guide')).status).toBe(200);
+    expect((await get(`/p/${HASH}`)).status).toBe(200);
+  });
+
+  it('redirects a previous slug permanently to the current one', async () => {
+    const response = await get('/p/old-guide');
+
+    expect(response.status).toBe(301);
+    expect(response.headers.get('location')).toBe('/p/field-guide');
+  });
+
+  it('keeps the query string when redirecting', async () => {
+    const response = await get('/p/guide?raw=true');
+
+    expect(response.status).toBe(301);
+    expect(response.headers.get('location')).toBe('/p/field-guide?raw=true');
+  });
+
+  it('redirects a slug written differently to its canonical form', async () => {
+    const response = await get('/p/Field-Guide');
+
+    expect(response.status).toBe(301);
+    expect(response.headers.get('location')).toBe('/p/field-guide');
+  });
+
+  it('answers 404 for an address no publication ever had', async () => {
+    expect((await get('/p/unknown-guide')).status).toBe(404);
+  });
+
+  it('moves a slug to the address of the publication that takes it over', async () => {
+    await storageService.savePublication('xyz789xyz789', '# Guide\n', publication({
+      filename: 'Guide',
+      title: 'Guide',
+      obsidianPath: 'Guides/Guide.md',
+      slug: 'guide',
+    }));
+
+    expect((await get('/p/guide')).status).toBe(200);
+    expect((await get('/p/old-guide')).status).toBe(301);
+  });
+});
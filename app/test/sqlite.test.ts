@@ -0,0 +1,180 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { config } from '../src/config';
+import { Publication } from '../src/models/publication';
+import { storageDriver } from '../src/services/drivers';
+import { MetadataCorruptError } from '../src/services/metadata';
+import { SqliteMetadataStore } from '../src/services/metadata/sqlite';
+
+// Schema as released in the first version, before slugs had their own table
+const SCHEMA_V1 = `
+  CREATE TABLE publications (
+    hash TEXT PRIMARY KEY,
+    filename TEXT NOT NULL,
+    obsidian_path TEXT NOT NULL,
+    title TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX publications_filename ON publications (filename);
+  CREATE INDEX publications_obsidian_path ON publications (obsidian_path);
+  CREATE TABLE store_info (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );`;
+
+let dbPath: string;
+let counter = 0;
+
+function publication(overrides: Partial<Publication> = {}): Publication {
+  return {
+    filename: 'Note',
+    title: 'Note',
+    obsidianPath: 'Notes/Note.md',
+    passwordHash: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    revision: 1,
+    ...overrides,
+  };
+}
+
+function getUserVersion(file: string): number {
+  const db = new Database(file, { readonly: true });
+  try {
+    return db.pragma('user_version', { simple: true }) as number;
+  } finally {
+    db.close();
+  }
+}
+
+beforeEach(() => {
+  dbPath = path.join(config.dataDir, `metadata-${++counter}.db`);
+});
+
+afterEach(async () => {
+  await storageDriver.delete('metadata.json');
+});
+
+describe('SqliteMetadataStore', () => {
+  it('creates the schema and imports the json index once', async () => {
+    await storageDriver.write('metadata.json', JSON.stringify({
+      publications: { abc123def456: publication({ slug: 'note' }) },
+      filenameIndex: { Note: 'abc123def456' },
+    }));
+
+    const store = new SqliteMetadataStore(dbPath);
+    await store.initialize();
+
+    expect(getUserVersion(dbPath)).toBe(2);
+    expect(store.get('abc123def456')?.title).toBe('Note');
+    expect(store.findBySlug('note')?.hash).toBe('abc123def456');
+
+    // Already imported: a later metadata.json isn't read again
+    await storageDriver.write('metadata.json', JSON.stringify({ publications: {}, filenameIndex: {} }));
+    const reopened = new SqliteMetadataStore(dbPath);
+    await reopened.initialize();
+    expect(reopened.get('abc123def456')).not.toBeNull();
+  });
+
+  it('migrates a version 1 database, indexing the slugs already in its records', async () => {
+    const db = new Database(dbPath);
+    db.exec(SCHEMA_V1);
+    const record = publication({ slug: 'field-guide', previousSlugs: ['old-guide'] });
+    db.prepare(`INSERT INTO publications (hash, filename, obsidian_path, title, revision, created_at, updated_at, record)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`)
+        .run('abc123def456', record.filename, record.obsidianPath, record.title, 1, record.createdAt, record.updatedAt, JSON.stringify(record));
+    db.prepare('INSERT INTO store_info (key, value) VALUES (?, ?)').run('created_at', record.createdAt);
+    db.pragma('user_version = 1');
+    db.close();
+
+    const store = new SqliteMetadataStore(dbPath);
+    await store.initialize();
+
+    expect(getUserVersion(dbPath)).toBe(2);
+    expect(store.findBySlug('field-guide')?.hash).toBe('abc123def456');
+    expect(store.findBySlug('old-guide')?.hash).toBe('abc123def456');
+  });
+
+  it('keeps slugs in step with puts and deletes', async () => {
+    const store = new SqliteMetadataStore(dbPath);
+    await store.initialize();
+
+    await store.put('abc123def456', publication({ slug: 'first' }));
+    await store.put('abc123def456', publication({ slug: 'second', previousSlugs: ['first'] }));
+    await store.put('xyz789xyz789', publication({ filename: 'Other', slug: 'first' }));
+
+    // A current slug wins over another publication's old one
+    expect(store.findBySlug('first')?.hash).toBe('xyz789xyz789');
+    expect(store.findBySlug('second')?.hash).toBe('abc123def456');
+
+    await store.delete('abc123def456');
+    expect(store.findBySlug('second')).toBeNull();
+    expect(Object.keys(store.getAll())).toEqual(['xyz789xyz789']);
+  });
+
+  it('finds the most recently updated publication for a filename', async () => {
+    const store = new SqliteMetadataStore(dbPath);
+    await store.initialize();
+
+    await store.put('abc123def456', publication());
+    await store.put('xyz789xyz789', publication({ updatedAt: '2024-02-01T00:00:00.000Z' }));
+
+    expect(store.findByFilename('Note')?.hash).toBe('xyz789xyz789');
+    expect(store.findByFilename('Other')).toBeNull();
+  });
+
+  it('keeps getAll in step with puts and deletes', async () => {
+    const store = new SqliteMetadataStore(dbPath);
+    await store.initialize();
+
+    await store.put('abc123def456', publication());
+    expect(Object.keys(store.getAll())).toEqual(['abc123def456']);
+
+    await store.put('abc123def456', publication({ title: 'Renamed' }));
+    await store.put('xyz789xyz789', publication({ filename: 'Other' }));
+    await store.delete('xyz789xyz789');
+
+    expect(store.getAll()).toEqual({ abc123def456: publication({ title: 'Renamed' }) });
+  });
+
+  it('notices commits from another connection on refresh', async () => {
+    const store = new SqliteMetadataStore(dbPath);
+    await store.initialize();
+    const other = new SqliteMetadataStore(dbPath);
+    await other.initialize();
+
+    expect(await store.refresh()).toBe(false);
+    await other.put('abc123def456', publication());
+
+    expect(await store.refresh()).toBe(true);
+    expect(store.getAll()).toHaveProperty('abc123def456');
+  });
+
+  it('refuses a database from a newer version and leaves it alone', async () => {
+    const db = new Database(dbPath);
+    db.pragma('user_version = 99');
+    db.close();
+
+    const store = new SqliteMetadataStore(dbPath);
+
+    await expect(store.initialize()).rejects.toThrow('has schema version 99');
+    await expect(store.initialize()).rejects.not.toBeInstanceOf(MetadataCorruptError);
+    expect(getUserVersion(dbPath)).toBe(99);
+  });
+
+  it('moves a damaged file aside and reports it as corrupt, so the index gets rebuilt', async () => {
+    fs.writeFileSync(dbPath, 'this is not a database, just text that is long enough to have a header'.repeat(20));
+
+    const store = new SqliteMetadataStore(dbPath);
+
+    await expect(store.initialize()).rejects.toBeInstanceOf(MetadataCorruptError);
+    expect(fs.readdirSync(config.dataDir).some(file => file.startsWith(`${path.basename(dbPath)}.corrupt-`))).toBe(true);
+    // The new, empty database is ready for the rebuild
+    await store.replaceAll({ abc123def456: publication() });
+    expect(store.get('abc123def456')).not.toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../src/config';
+import { Publication } from '../src/models/publication';
+
+const HASH = 'abc123def456';
+const metadataFile = path.join(config.dataDir, 'metadata.json');
+
+const publication: Publication = {
+  filename: 'Plans',
+  title: 'Quarterly Plans',
+  obsidianPath: 'Work/Plans.md',
+  passwordHash: '$2b$04$abcdefghijklmnopqrstuuJ0TgnnK7NsGJTw1IbMCCRMn3tRLyXyS',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-02-01T00:00:00.000Z',
+  revision: 3,
+};
+
+// A storage service as a freshly started instance has it
+async function startInstance() {
+  jest.resetModules();
+  (await import('../src/services/logger')).logger.silent = true;
+  return (await import('../src/services/storage')).storageService;
+}
+
+beforeEach(async () => {
+  fs.rmSync(metadataFile, { recursive: true, force: true });
+  const storageService = await startInstance();
+  await storageService.initialize();
+  await storageService.savePublication(HASH, '# Plans', publication);
+});
+
+describe('storageService.initialize', () => {
+  it.each([
+    ['is not valid JSON', '{"publications": {'],
+    ['has the wrong shape', '["not", "an", "index"]'],
+  ])('rebuilds an index that %s from the publication records', async (_, corrupt) => {
+    fs.writeFileSync(metadataFile, corrupt);
+    const storageService = await startInstance();
+
+    await storageService.initialize();
+
+    expect(await storageService.getPublicationByHash(HASH)).toEqual(publication);
+    expect(JSON.parse(fs.readFileSync(metadataFile, 'utf-8')).publications[HASH].title).toBe('Quarterly Plans');
+  });
+
+  it('fails without touching the index when it cannot be read', async () => {
+    fs.rmSync(metadataFile);
+    fs.mkdirSync(metadataFile);
+    const storageService = await startInstance();
+
+    await expect(storageService.initialize()).rejects.toThrow(/EISDIR/);
+    expect(fs.statSync(metadataFile).isDirectory()).toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+import { Publication } from '../src/models/publication';
+import { getFrontmatterOptions } from '../src/services/frontmatter';
+import { renderPublication } from '../src/services/render';
+import { storageService } from '../src/services/storage';
+import { createPublication } from './helpers/publications';
+
+const LONG = '# Guide\n\n## Install\n\n### On **Linux**\n\n##### Details\n\n## Use';
+
+function render(content: string, overrides: Partial<Publication> = {}) {
+  return renderPublication('guide0000001', createPublication('Guide', overrides), content);
+}
+
+beforeAll(async () => {
+  await storageService.initialize();
+});
+
+describe('table of contents', () => {
+  it('lists headings down to level four as plain text, once a page has a few', async () => {
+    const { toc } = await render(LONG);
+
+    expect(toc).toEqual({
+      sticky: false,
+      headings: [
+        { level: 1, id: 'guide', text: 'Guide' },
+        { level: 2, id: 'install', text: 'Install' },
+        { level: 3, id: 'on-linux', text: 'On Linux' },
+        { level: 2, id: 'use', text: 'Use' },
+      ],
+    });
+  });
+
+  it('is left out of short pages unless asked for', async () => {
+    expect((await render('# Short\n\n## Page')).toc).toBeUndefined();
+    expect((await render('# Short\n\n## Page', { toc: 'on' })).toc?.headings).toHaveLength(2);
+  });
+
+  it('follows the toc setting of the publication', async () => {
+    expect((await render(LONG, { toc: 'off' })).toc).toBeUndefined();
+    expect((await render(LONG, { toc: 'sticky' })).toc?.sticky).toBe(true);
+  });
+
+  it('is set from publish_toc in the frontmatter', () => {
+    expect(getFrontmatterOptions({ publish_toc: true }).toc).toBe('on');
+    expect(getFrontmatterOptions({ publish_toc: false }).toc).toBe('off');
+    expect(getFrontmatterOptions({ publish_toc: 'sticky' }).toc).toBe('sticky');
+    expect(getFrontmatterOptions({ publish_toc: 'maybe' }).toc).toBeUndefined();
+  });
+});
+
+describe('heading anchors', () => {
+  it('link every heading to itself', async () => {
+    const { html } = await render('## Install');
+
+    expect(html).toContain('<h2 id="install">Install<a class="heading-anchor" href="#install" aria-label="Link to this section">#</a></h2>');
+  });
+});
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../src/config';
+import { authMiddleware, requireScope } from '../src/middleware/auth';
+import { tokenService } from '../src/services/tokens';
+import { createApp, listen, TestServer } from './helpers/server';
+
+let server: TestServer;
+
+function publish(token?: string): Promise<Response> {
+  return fetch(`${server.url}/publish`, { method: 'POST', headers: token ? { Authorization: `Bearer ${token}` } : {} });
+}
+
+beforeAll(async () => {
+  await tokenService.initialize();
+
+  const app = createApp();
+  app.post('/publish', authMiddleware, requireScope('publish'), (req, res) => {
+    res.json({ name: req.auth!.name });
+  });
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('API tokens', () => {
+  it('accept SECRET_KEY with every scope', async () => {
+    const response = await publish(config.secretKey);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ name: 'secret-key' });
+  });
+
+  it('authenticate a created token for its scopes only', async () => {
+    const publisher = await tokenService.createToken('laptop', ['publish'], null);
+    const reader = await tokenService.createToken('dashboard', ['read'], null);
+
+    expect(await (await publish(publisher.token)).json()).toEqual({ name: 'laptop' });
+    expect((await publish(reader.token)).status).toBe(403);
+  });
+
+  it('only store a hash of the token', async () => {
+    const { token, info } = await tokenService.createToken('phone', ['publish'], null);
+
+    const stored = fs.readFileSync(path.join(config.dataDir, 'tokens.json'), 'utf-8');
+    expect(stored).not.toContain(token);
+    expect(stored).toContain(info.id);
+  });
+
+  it('reject revoked and expired tokens', async () => {
+    const revoked = await tokenService.createToken('old laptop', ['publish'], null);
+    await tokenService.revokeToken(revoked.info.id);
+    const expired = await tokenService.createToken('ci', ['publish'], new Date(Date.now() - 1000).toISOString());
+
+    expect((await publish(revoked.token)).status).toBe(403);
+    expect((await publish(expired.token)).status).toBe(403);
+  });
+
+  it('require a bearer token', async () => {
+    expect((await publish()).status).toBe(401);
+    expect((await publish('opub_guessed')).status).toBe(403);
+  });
+});
@@ -0,0 +1,49 @@
+import { storageDriver } from '../src/services/drivers';
+import { storageService } from '../src/services/storage';
+import { viewCounter } from '../src/services/views';
+
+async function readStored(): Promise<Record<string, number>> {
+  return JSON.parse((await storageDriver.read('views.json'))!.toString('utf-8')).views;
+}
+
+// Another instance sharing the storage saves its own counts
+async function storeElsewhere(views: Record<string, number>): Promise<void> {
+  await storageDriver.write('views.json', JSON.stringify({ views }));
+}
+
+beforeAll(async () => {
+  // The batched save is run by hand instead
+  jest.useFakeTimers({
+    doNotFake: ['Date', 'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval'],
+  });
+  await storageService.initialize();
+  await viewCounter.initialize();
+});
+
+afterAll(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+});
+
+describe('viewCounter', () => {
+  it('adds its views to those other instances saved in between', async () => {
+    viewCounter.record('counted00001');
+    viewCounter.record('counted00001');
+    await storeElsewhere({ counted00001: 5, elsewhere001: 1 });
+
+    await viewCounter['save']();
+
+    expect(await readStored()).toEqual({ counted00001: 7, elsewhere001: 1 });
+    expect(viewCounter.get('counted00001')).toBe(7);
+    expect(viewCounter.get('elsewhere001')).toBe(1);
+  });
+
+  it('picks up views other instances counted', async () => {
+    await storeElsewhere({ counted00001: 10 });
+
+    await viewCounter.refresh();
+
+    expect(viewCounter.get('counted00001')).toBe(10);
+    expect(viewCounter.record('counted00001')).toBe(11);
+  });
+});
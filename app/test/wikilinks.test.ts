@@ -0,0 +1,71 @@
+import { Publication } from '../src/models/publication';
+import { renderMarkdown } from '../src/services/markdown';
+import { createNoteResolver, parseWikilink } from '../src/services/wikilinks';
+
+function publication(obsidianPath: string, title = obsidianPath): Publication {
+  return {
+    filename: obsidianPath.split('/').pop()!.replace(/\.md$/, ''),
+    title,
+    obsidianPath,
+    passwordHash: null,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+const publications: Record<string, Publication> = {
+  hash00000001: publication('Projects/Roadmap.md', 'Roadmap'),
+  hash00000002: publication('Archive/2023/Roadmap.md', 'Old Roadmap'),
+  hash00000003: publication('Meeting Notes.md', 'Meeting Notes'),
+};
+
+describe('parseWikilink', () => {
+  it('splits the target, heading and alias', () => {
+    expect(parseWikilink('Roadmap#Q3 Goals|the plan')).toEqual({ target: 'Roadmap', heading: 'Q3 Goals', alias: 'the plan' });
+    expect(parseWikilink('#Summary')).toEqual({ target: '', heading: 'Summary', alias: null });
+    expect(parseWikilink('Roadmap\\|plan')).toEqual({ target: 'Roadmap', heading: null, alias: 'plan' });
+  });
+});
+
+describe('createNoteResolver', () => {
+  const resolve = createNoteResolver(publications);
+
+  it('prefers the full vault path, then the shortest path with that name', () => {
+    expect(resolve('Archive/2023/Roadmap')?.hash).toBe('hash00000002');
+    expect(resolve('Roadmap')?.hash).toBe('hash00000001');
+  });
+
+  it('ignores case and the .md extension', () => {
+    expect(resolve('meeting notes.md')?.title).toBe('Meeting Notes');
+  });
+
+  it('returns null for notes that are not published', () => {
+    expect(resolve('Drafts')).toBeNull();
+  });
+});
+
+describe('renderMarkdown with wikilinks', () => {
+  const render = (content: string) => renderMarkdown(content, { resolveNote: createNoteResolver(publications) }).html;
+
+  it('links published notes, with their heading anchors and aliases', () => {
+    const html = render('See [[Roadmap#Q3 Goals|the plan]] and [[Meeting Notes]].');
+
+    expect(html).toContain('<a href="/p/hash00000001#q3-goals" class="internal-link">the plan</a>');
+    expect(html).toContain('<a href="/p/hash00000003" class="internal-link">Meeting Notes</a>');
+  });
+
+  it('links headings within the same note', () => {
+    expect(render('Back to [[#Summary]]')).toContain('<a href="#summary" class="internal-link">Summary</a>');
+  });
+
+  it('shows links to unpublished notes as plain text', () => {
+    const html = render('A [[Private Journal]] entry');
+
+    expect(html).toContain('<span class="internal-link is-unresolved" title="Not published">Private Journal</span>');
+    expect(html).not.toContain('<a href');
+  });
+
+  it('escapes link text', () => {
+    expect(render('[[Roadmap|<b>bold</b>]]')).toContain('&lt;b&gt;bold&lt;/b&gt;');
+  });
+});